@@ -15,6 +15,13 @@ const mockFs = {
 };
 jest.mock('fs/promises', () => mockFs);
 
+// Mock atomic writes
+const mockWriteFileAtomic = jest.fn();
+jest.mock('../../utils/atomic-write.js', () => ({
+  writeFileAtomic: mockWriteFileAtomic,
+  appendFileAtomic: jest.fn(),
+}));
+
 // Mock security and path-helpers
 const mockValidatePath = jest.fn();
 jest.mock('../../utils/security.js', () => ({
@@ -163,7 +170,7 @@ describe('Filesystem Property-Based Tests', () => {
               }, { log: { info: jest.fn() } });
               
               // Property: written content should match exactly
-              expect(mockFs.writeFile).toHaveBeenCalledWith(filePath, content, 'utf-8');
+              expect(mockWriteFileAtomic).toHaveBeenCalledWith(filePath, content, 'utf-8');
               
               // Property: success message should indicate correct character count
               const expectedMessage = `File created successfully: ${filePath} (${content.length} characters)`;
@@ -239,7 +246,7 @@ describe('Filesystem Property-Based Tests', () => {
                                  (result.includes('```diff') || result.includes('@@'));
               
               // Property: file should have been written
-              expect(mockFs.writeFile).toHaveBeenCalled();
+              expect(mockWriteFileAtomic).toHaveBeenCalled();
               
               return isDiffFormat;
               
@@ -518,6 +525,9 @@ describe('Filesystem Property-Based Tests', () => {
             .mockRejectedValueOnce({ // dest file doesn't exist
               code: 'ENOENT',
             } as any)
+            .mockRejectedValueOnce({ // undo journal snapshot of dest
+              code: 'ENOENT',
+            } as any)
             .mockResolvedValueOnce({ // dest file after copy
               isFile: () => true,
               size: fileContent.length,
@@ -0,0 +1,146 @@
+// src/__tests__/tools/file-monitoring.integration.test.ts
+
+// Mock security module; the watched directories are real temporary directories
+const mockValidatePath = jest.fn();
+jest.mock('../../utils/security.js', () => ({
+  validatePath: mockValidatePath,
+  allowedDirectories: ['/safe/'],
+}));
+
+// Mock fastmcp UserError
+const mockUserError = class extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'UserError';
+  }
+};
+
+jest.mock('fastmcp', () => ({
+  UserError: mockUserError,
+}));
+
+import * as fs from 'fs/promises';
+import * as os from 'os';
+import * as path from 'path';
+import { registerFileMonitoringTools, clearAllFileWatches } from '../../tools/file-monitoring';
+
+describe('File Monitoring Tools Integration Tests', () => {
+  const mockServer = {
+    addTool: jest.fn(),
+  };
+  const mockContext = {
+    log: { info: jest.fn(), warn: jest.fn(), error: jest.fn(), debug: jest.fn() },
+  };
+  let tempDir: string;
+
+  const getTool = (name: string) => {
+    const call = mockServer.addTool.mock.calls.find(([tool]) => tool.name === name);
+    if (!call) throw new Error(`Tool not registered: ${name}`);
+    return call[0];
+  };
+
+  const startWatch = async (args: Record<string, unknown> = {}): Promise<string> => {
+    const result = await getTool('watch_path').execute({ path: tempDir, debounceMs: 50, ...args }, mockContext);
+    return result.match(/watch ID: (watch_[\w]+)/)[1];
+  };
+
+  const poll = async (watchId: string, args: Record<string, unknown> = {}) =>
+    JSON.parse(await getTool('poll_changes').execute({ watchId, waitMs: 5000, ...args }, mockContext));
+
+  beforeEach(async () => {
+    jest.clearAllMocks();
+    tempDir = await fs.realpath(await fs.mkdtemp(path.join(os.tmpdir(), 'file-monitoring-')));
+    mockValidatePath.mockImplementation(async (requested: string) => requested);
+    registerFileMonitoringTools(mockServer as any);
+  });
+
+  afterEach(async () => {
+    clearAllFileWatches();
+    await fs.rm(tempDir, { recursive: true, force: true });
+  });
+
+  it('should register all file monitoring tools', () => {
+    for (const name of ['watch_path', 'poll_changes', 'unwatch_path']) {
+      expect(mockServer.addTool).toHaveBeenCalledWith(expect.objectContaining({
+        name,
+        description: expect.any(String),
+        parameters: expect.anything(),
+        execute: expect.any(Function),
+      }));
+    }
+  });
+
+  it('should report creates and modifications after the cursor', async () => {
+    await fs.writeFile(path.join(tempDir, 'existing.txt'), 'old');
+    const watchId = await startWatch();
+    expect(mockValidatePath).toHaveBeenCalledWith(tempDir);
+
+    await fs.writeFile(path.join(tempDir, 'existing.txt'), 'changed content');
+    await fs.mkdir(path.join(tempDir, 'nested'));
+    await fs.writeFile(path.join(tempDir, 'nested', 'new.txt'), 'new');
+
+    let result = await poll(watchId);
+    const seen = [...result.events];
+    while (seen.length < 3) {
+      result = await poll(watchId, { cursor: result.cursor });
+      seen.push(...result.events);
+    }
+
+    expect(seen.map((event: any) => `${event.type} ${event.relativePath}`).sort()).toEqual([
+      'create nested',
+      'create nested/new.txt',
+      'modify existing.txt',
+    ]);
+    expect(seen.map((event: any) => event.sequence)).toEqual([1, 2, 3]);
+    expect(result.cursor).toBe(3);
+    expect(result.missed).toBe(0);
+
+    const empty = await poll(watchId, { cursor: result.cursor, waitMs: 0 });
+    expect(empty.events).toEqual([]);
+    expect(empty.cursor).toBe(3);
+  });
+
+  it('should pair renames and apply include and event filters', async () => {
+    await fs.writeFile(path.join(tempDir, 'a.ts'), 'a');
+    await fs.writeFile(path.join(tempDir, 'notes.md'), 'n');
+    const watchId = await startWatch({ include: ['*.ts'], events: ['rename', 'delete'] });
+
+    await fs.rename(path.join(tempDir, 'a.ts'), path.join(tempDir, 'b.ts'));
+    await fs.unlink(path.join(tempDir, 'notes.md'));
+    await fs.writeFile(path.join(tempDir, 'c.ts'), 'c');
+
+    const result = await poll(watchId);
+    expect(result.events).toHaveLength(1);
+    expect(result.events[0]).toMatchObject({
+      type: 'rename',
+      relativePath: 'b.ts',
+      oldRelativePath: 'a.ts',
+      path: path.join(tempDir, 'b.ts'),
+      isDirectory: false,
+    });
+  });
+
+  it('should reject files, unknown watches and stop watches on unwatch_path', async () => {
+    await fs.writeFile(path.join(tempDir, 'file.txt'), 'x');
+    await expect(getTool('watch_path').execute({ path: path.join(tempDir, 'file.txt') }, mockContext))
+      .rejects.toThrow('Path is not a directory');
+    await expect(poll('watch_missing')).rejects.toThrow('No active watch found');
+
+    const watchId = await startWatch();
+    const message = await getTool('unwatch_path').execute({ watchId }, mockContext);
+    expect(message).toContain(`Stopped watching ${tempDir}`);
+    await expect(poll(watchId)).rejects.toThrow('No active watch found');
+  });
+
+  it('should not exceed the watch limit when watch_path calls run concurrently', async () => {
+    const results = await Promise.allSettled(Array.from({ length: 21 }, () => startWatch()));
+
+    expect(results.filter(result => result.status === 'fulfilled')).toHaveLength(20);
+    const rejected = results.filter((result): result is PromiseRejectedResult => result.status === 'rejected');
+    expect(rejected).toHaveLength(1);
+    expect(rejected[0].reason.message).toContain('Too many active watches (maximum 20)');
+
+    clearAllFileWatches();
+    await expect(startWatch()).resolves.toMatch(/^watch_/);
+  });
+});
@@ -0,0 +1,113 @@
+// src/__tests__/tools/filesystem.gitignore.integration.test.ts
+
+// Mock security module; the project is a real temporary directory that becomes the only allowed directory
+const mockAllowedDirectories: string[] = [];
+const mockValidatePath = jest.fn();
+jest.mock('../../utils/security.js', () => ({
+  validatePath: mockValidatePath,
+  validatePaths: jest.fn(),
+  allowedDirectories: mockAllowedDirectories,
+}));
+
+import * as fs from 'fs/promises';
+import * as os from 'os';
+import * as path from 'path';
+import { registerFilesystemTools } from '../../tools/filesystem';
+
+describe('respectGitignore Integration Tests', () => {
+  const mockServer = {
+    addTool: jest.fn(),
+    addResourceTemplate: jest.fn(),
+  };
+  const mockContext = {
+    log: { info: jest.fn(), warn: jest.fn(), error: jest.fn(), debug: jest.fn() },
+  };
+  let tempDir: string;
+
+  const getTool = (name: string) => {
+    const call = mockServer.addTool.mock.calls.find(([tool]) => tool.name === name);
+    if (!call) throw new Error(`Tool not registered: ${name}`);
+    return call[0];
+  };
+
+  // Tracked bin/ (ignored by the built-in list, not by .gitignore), a negated rule and a hidden file
+  const projectFiles: Record<string, string> = {
+    '.gitignore': 'node_modules/\n*.gen.txt\n!keep.gen.txt\n',
+    '.hidden.txt': 'needle',
+    'bin/tool.txt': 'needle',
+    'node_modules/pkg/index.txt': 'needle',
+    'src/main.txt': 'needle',
+    'keep.gen.txt': 'needle',
+    'other.gen.txt': 'needle',
+  };
+
+  beforeEach(async () => {
+    jest.clearAllMocks();
+    tempDir = await fs.realpath(await fs.mkdtemp(path.join(os.tmpdir(), 'respect-gitignore-')));
+    mockAllowedDirectories.splice(0, mockAllowedDirectories.length, tempDir);
+    mockValidatePath.mockImplementation(async (requested: string) => requested);
+    for (const [relativePath, content] of Object.entries(projectFiles)) {
+      await fs.mkdir(path.dirname(path.join(tempDir, relativePath)), { recursive: true });
+      await fs.writeFile(path.join(tempDir, relativePath), content);
+    }
+    registerFilesystemTools(mockServer as any);
+  });
+
+  afterEach(async () => {
+    await fs.rm(tempDir, { recursive: true, force: true });
+  });
+
+  it('should let bulk_edit edit a tracked bin/ and negated files while keeping hidden files excluded', async () => {
+    await getTool('bulk_edit').execute({
+      targets: [tempDir],
+      edits: [{ oldText: 'needle', newText: 'pin' }],
+      respectGitignore: true,
+      dryRun: false,
+    }, mockContext);
+
+    const contents = async (relativePath: string) => fs.readFile(path.join(tempDir, relativePath), 'utf-8');
+    expect(await contents('bin/tool.txt')).toBe('pin');
+    expect(await contents('src/main.txt')).toBe('pin');
+    expect(await contents('keep.gen.txt')).toBe('pin');
+    expect(await contents('other.gen.txt')).toBe('needle');
+    expect(await contents('node_modules/pkg/index.txt')).toBe('needle');
+    expect(await contents('.hidden.txt')).toBe('needle');
+  });
+
+  it('should keep the built-in bin/ exclusion for bulk_edit without respectGitignore', async () => {
+    await getTool('bulk_edit').execute({
+      targets: [tempDir],
+      edits: [{ oldText: 'needle', newText: 'pin' }],
+      dryRun: false,
+    }, mockContext);
+
+    expect(await fs.readFile(path.join(tempDir, 'bin/tool.txt'), 'utf-8')).toBe('needle');
+    expect(await fs.readFile(path.join(tempDir, 'other.gen.txt'), 'utf-8')).toBe('pin');
+  });
+
+  it('should hide gitignored entries from directory_tree but show a tracked bin/ and negated files', async () => {
+    const tree = JSON.parse(await getTool('directory_tree').execute({
+      path: tempDir,
+      respectGitignore: true,
+      showHidden: true,
+      format: 'json',
+    }, mockContext));
+    const names = tree.root.children.map((child: any) => child.name);
+
+    expect(names).toEqual(expect.arrayContaining(['.gitignore', '.hidden.txt', 'bin', 'src', 'keep.gen.txt']));
+    expect(names).not.toContain('node_modules');
+    expect(names).not.toContain('other.gen.txt');
+  });
+
+  it('should skip gitignored and hidden entries in search_files_and_folders but find a tracked bin/', async () => {
+    const result = JSON.parse(await getTool('search_files_and_folders').execute({
+      search_term: 'txt',
+      path: tempDir,
+      search_type: 'files',
+      respectGitignore: true,
+    }, mockContext));
+    const found = result.results.map((match: any) => path.relative(tempDir, match.path)).sort();
+
+    expect(found).toEqual([path.join('bin', 'tool.txt'), 'keep.gen.txt', path.join('src', 'main.txt')]);
+  });
+});
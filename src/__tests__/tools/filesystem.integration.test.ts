@@ -14,12 +14,27 @@ const mockFs = {
   rename: jest.fn(),
   readdir: jest.fn(),
   realpath: jest.fn(),
+  open: jest.fn(),
+  chmod: jest.fn(),
+  lstat: jest.fn(),
+  rm: jest.fn(),
 };
 jest.mock('fs/promises', () => mockFs);
 
+// Mock atomic writes so they land in the in-memory filesystem
+const mockWriteFileAtomic = jest.fn();
+const mockAppendFileAtomic = jest.fn();
+const mockMoveFileAcrossDevices = jest.fn();
+jest.mock('../../utils/atomic-write.js', () => ({
+  writeFileAtomic: mockWriteFileAtomic,
+  appendFileAtomic: mockAppendFileAtomic,
+  moveFileAcrossDevices: mockMoveFileAcrossDevices,
+}));
+
 // Mock glob
 const mockGlob = jest.fn();
-jest.mock('glob', () => ({ glob: mockGlob }));
+const mockGlobIterate = jest.fn();
+jest.mock('glob', () => ({ glob: mockGlob, globIterate: mockGlobIterate }));
 
 // Mock security module
 const mockValidatePath = jest.fn();
@@ -56,6 +71,8 @@ jest.mock('fastmcp', () => ({
 }));
 
 import { registerFilesystemTools } from '../../tools/filesystem';
+import { clearChangeJournal } from '../../utils/change-journal';
+import { createHash } from 'crypto';
 
 describe('Filesystem Tools Integration Tests', () => {
   // In-memory representation of our filesystem for testing
@@ -146,17 +163,29 @@ describe('Filesystem Tools Integration Tests', () => {
       return Promise.reject(error);
     });
     
-    mockFs.readFile.mockImplementation((path: string) => {
-      if (memoryFs[path] && typeof memoryFs[path] === 'string') {
-        return Promise.resolve(memoryFs[path]);
+    mockFs.readFile.mockImplementation((path: string, encoding?: string) => {
+      if (typeof memoryFs[path] === 'string') {
+        // Without an encoding fs.readFile resolves to a Buffer
+        return Promise.resolve(encoding ? memoryFs[path] : Buffer.from(memoryFs[path] as string, 'utf8'));
       }
       const error: any = new Error('ENOENT: no such file or directory');
       error.code = 'ENOENT';
       return Promise.reject(error);
     });
     
-    mockFs.writeFile.mockImplementation((path: string, content: string) => {
-      memoryFs[path] = content;
+    mockFs.writeFile.mockImplementation((path: string, content: string | Buffer) => {
+      memoryFs[path] = Buffer.isBuffer(content) ? content.toString('utf8') : content;
+      return Promise.resolve();
+    });
+    
+    mockWriteFileAtomic.mockImplementation((path: string, content: string | Buffer) => {
+      memoryFs[path] = Buffer.isBuffer(content) ? content.toString('utf8') : content;
+      return Promise.resolve();
+    });
+    
+    mockAppendFileAtomic.mockImplementation((path: string, content: string) => {
+      const existing = typeof memoryFs[path] === 'string' ? memoryFs[path] as string : '';
+      memoryFs[path] = existing + content;
       return Promise.resolve();
     });
     
@@ -222,6 +251,34 @@ describe('Filesystem Tools Integration Tests', () => {
     });
     
     mockFs.realpath.mockImplementation((path: string) => Promise.resolve(path));
+    mockFs.chmod.mockResolvedValue(undefined);
+    mockFs.lstat.mockImplementation(async (path: string) => ({
+      ...(await (mockFs.stat as any)(path)),
+      isSymbolicLink: () => false,
+    }));
+    mockFs.rm.mockImplementation((path: string) => {
+      Object.keys(memoryFs)
+        .filter(key => key === path || key.startsWith(path + '/'))
+        .forEach(key => delete memoryFs[key]);
+      return Promise.resolve();
+    });
+    
+    mockFs.open.mockImplementation((path: string) => {
+      const item = memoryFs[path];
+      if (typeof item !== 'string') {
+        const error: any = new Error('ENOENT: no such file or directory');
+        error.code = 'ENOENT';
+        return Promise.reject(error);
+      }
+      const data = Buffer.from(item, 'utf8');
+      return Promise.resolve({
+        read: (buffer: Buffer, offset: number, length: number, position: number) => {
+          const bytesRead = data.copy(buffer, offset, position, Math.min(data.length, position + length));
+          return Promise.resolve({ bytesRead, buffer });
+        },
+        close: () => Promise.resolve(),
+      });
+    });
   });
 
   describe('Tool Registration', () => {
@@ -238,19 +295,32 @@ describe('Filesystem Tools Integration Tests', () => {
       
       // Verify tool registrations
       const expectedTools = [
+        'read_file',
         'write_file',
         'create_directory',
         'get_file_info',
+        'get_files_info',
         'list_allowed_directories',
         'read_multiple_files',
         'copy_file',
         'append_file',
         'edit_file',
+        'edit_lines',
         'bulk_edit',
+        'apply_patch',
         'directory_tree',
         'delete_file',
         'rename_file',
+        'copy_directory',
+        'move_directory',
+        'delete_directory',
         'search_files_and_folders',
+        'list_changes',
+        'undo_last_change',
+        'restore_change',
+        'list_trash',
+        'restore_from_trash',
+        'empty_trash',
       ];
       
       expectedTools.forEach(toolName => {
@@ -270,6 +340,80 @@ describe('Filesystem Tools Integration Tests', () => {
     });
   });
 
+  describe('read_file Tool', () => {
+    let readFileTool: any;
+    const log = { info: jest.fn(), warn: jest.fn(), error: jest.fn(), debug: jest.fn() };
+
+    beforeEach(() => {
+      registerFilesystemTools(mockServer as any);
+      const readFileCall = (mockServer.addTool as jest.Mock).mock.calls.find(
+        call => call[0].name === 'read_file'
+      );
+      readFileTool = readFileCall[0];
+      memoryFs['/safe/lines.txt'] = 'one\ntwo\nthree\nfour\nfive\n';
+      mockGetPathFromOptions.mockReturnValue('/safe/lines.txt');
+    });
+
+    it('should return numbered lines with the total line count', async () => {
+      const result = await readFileTool.execute({ path: '/safe/lines.txt', mode: 'lines', maxBytes: 1024 }, { log });
+      
+      expect(result).toContain('(lines 1-5 of 5,');
+      expect(result).toContain('1\tone');
+      expect(result).toContain('5\tfive');
+      expect(result).not.toContain('Truncated');
+    });
+
+    it('should read a line range and give a continuation hint', async () => {
+      const result = await readFileTool.execute({ path: '/safe/lines.txt', mode: 'lines', offset: 2, limit: 2, maxBytes: 1024 }, { log });
+      
+      expect(result).toContain('(lines 2-3 of 5,');
+      expect(result).toContain('2\ttwo');
+      expect(result).toContain('3\tthree');
+      expect(result).not.toContain('1\tone');
+      expect(result).toContain('Call read_file with offset=4 to continue.');
+    });
+
+    it('should stop at maxBytes and point at the next line', async () => {
+      const result = await readFileTool.execute({ path: '/safe/lines.txt', mode: 'lines', maxBytes: 8 }, { log });
+      
+      expect(result).toContain('(lines 1-2 of 5,');
+      expect(result).toContain('Call read_file with offset=3 to continue.');
+    });
+
+    it('should read a byte range', async () => {
+      const result = await readFileTool.execute({ path: '/safe/lines.txt', mode: 'bytes', offset: 4, limit: 3, maxBytes: 1024 }, { log });
+      
+      expect(result).toContain('(bytes 4-7 of 24,');
+      expect(result).toContain('\ntwo');
+      expect(result).toContain("mode='bytes' and offset=7 to continue.");
+    });
+
+    it('should report only the mtime in byte mode instead of hashing the whole file', async () => {
+      mockFs.readFile.mockClear();
+      const result = await readFileTool.execute({ path: '/safe/lines.txt', mode: 'bytes', offset: 0, limit: 3, maxBytes: 1024 }, { log });
+
+      expect(result).toMatch(/\(bytes 0-3 of 24, .*mtime: \S+\)/);
+      expect(result).not.toContain('sha256');
+      expect(mockFs.readFile).not.toHaveBeenCalled();
+    });
+
+    it('should reject an offset past the end of the file', async () => {
+      await expect(readFileTool.execute({ path: '/safe/lines.txt', mode: 'lines', offset: 10, maxBytes: 1024 }, { log }))
+        .rejects.toThrow('offset 10 is beyond the end of the file (5 lines)');
+    });
+
+    it('should refuse line mode for very large files', async () => {
+      mockFs.stat.mockResolvedValueOnce({
+        isFile: () => true,
+        isDirectory: () => false,
+        size: 60 * 1024 * 1024,
+      });
+      
+      await expect(readFileTool.execute({ path: '/safe/lines.txt', mode: 'lines', maxBytes: 1024 }, { log }))
+        .rejects.toThrow("mode='bytes'");
+    });
+  });
+
   describe('write_file Tool', () => {
     let writeFileTool: any;
 
@@ -301,7 +445,7 @@ describe('Filesystem Tools Integration Tests', () => {
       
       expect(result).toBe(`File created successfully: ${filePath} (${content.length} characters)`);
       expect(memoryFs[filePath]).toBe(content);
-      expect(mockFs.writeFile).toHaveBeenCalledWith(filePath, content, 'utf-8');
+      expect(mockWriteFileAtomic).toHaveBeenCalledWith(filePath, content, 'utf-8');
     });
 
     it('should replace existing file content', async () => {
@@ -509,7 +653,7 @@ describe('Filesystem Tools Integration Tests', () => {
       const expectedFinalContent = originalContent + appendContent;
       expect(memoryFs[filePath]).toBe(expectedFinalContent);
       expect(result).toBe(expectedFinalContent);
-      expect(mockFs.appendFile).toHaveBeenCalledWith(filePath, appendContent, 'utf-8');
+      expect(mockAppendFileAtomic).toHaveBeenCalledWith(filePath, appendContent, 'utf-8');
     });
 
     it('should create new file if it does not exist', async () => {
@@ -626,6 +770,46 @@ describe('Filesystem Tools Integration Tests', () => {
       expect(info.permissions).toHaveProperty('user');
       expect(info.permissions).toHaveProperty('group');
       expect(info.permissions).toHaveProperty('others');
+      expect(info).not.toHaveProperty('content');
+      expect(mockFs.readFile).not.toHaveBeenCalled();
+      expect(mockFs.open).not.toHaveBeenCalled();
+    });
+
+    it('should describe file content only when includeContent is set', async () => {
+      const filePath = '/safe/existing-file.txt';
+      mockGetPathFromOptions.mockReturnValue(filePath);
+
+      const info = JSON.parse(await getFileInfoTool.execute({ path: filePath, includeContent: true }, { log: { info: jest.fn() } }));
+
+      expect(info.extension).toBe('.txt');
+      expect(info.content).toMatchObject({ mimeType: 'text/plain', isBinary: false, lineCount: 1 });
+      expect(info.content).not.toHaveProperty('hashes');
+    });
+
+    it('should describe file content and compute requested hashes', async () => {
+      const filePath = '/safe/existing-file.txt';
+      mockGetPathFromOptions.mockReturnValue(filePath);
+
+      const info = JSON.parse(await getFileInfoTool.execute({ path: filePath, hashes: ['sha256'] }, { log: { info: jest.fn() } }));
+
+      expect(info.content).toEqual({
+        mimeType: 'text/plain',
+        isBinary: false,
+        encoding: 'utf-8',
+        bom: false,
+        sampled: false,
+        lineCount: 1,
+        lineEndings: 'none',
+        finalNewline: false,
+        hashes: { sha256: createHash('sha256').update('existing content').digest('hex') },
+      });
+    });
+
+    it('should refuse hashes for directories', async () => {
+      mockGetPathFromOptions.mockReturnValue('/safe/directory');
+
+      await expect(getFileInfoTool.execute({ path: '/safe/directory', hashes: ['md5'] }, { log: { info: jest.fn() } }))
+        .rejects.toThrow('Hashes can only be computed for regular files');
     });
 
     it('should return directory information', async () => {
@@ -675,8 +859,8 @@ describe('Filesystem Tools Integration Tests', () => {
         paths: filePaths
       }, { log: { info: jest.fn(), warn: jest.fn(), error: jest.fn(), debug: jest.fn() } });
       
-      expect(result).toContain('/safe/existing-file.txt:\nexisting content');
-      expect(result).toContain('/safe/directory/subfile.txt:\nsubfile content');
+      expect(result).toMatch(/\/safe\/existing-file\.txt \(mtime: [^,]+, sha256: [0-9a-f]{64}\):\nexisting content/);
+      expect(result).toMatch(/\/safe\/directory\/subfile\.txt \(mtime: [^,]+, sha256: [0-9a-f]{64}\):\nsubfile content/);
       expect(result).toContain('---');
     });
 
@@ -689,10 +873,22 @@ describe('Filesystem Tools Integration Tests', () => {
         paths: filePaths
       }, { log: { info: jest.fn(), warn: jest.fn(), error: jest.fn(), debug: jest.fn() } });
       
-      expect(result).toContain('/safe/existing-file.txt:\nexisting content');
+      expect(result).toMatch(/\/safe\/existing-file\.txt \(mtime: [^,]+, sha256: [0-9a-f]{64}\):\nexisting content/);
       expect(result).toContain('/safe/non-existent.txt: Error -');
     });
 
+    it('should return binary files as base64 with a MIME type', async () => {
+      const binary = '\u0089PNG\r\n\u001a\n\u0000\u0000';
+      memoryFs['/safe/image.png'] = binary;
+      
+      const result = await readMultipleFilesTool.execute({
+        paths: ['/safe/image.png']
+      }, { log: { info: jest.fn(), warn: jest.fn(), error: jest.fn(), debug: jest.fn() } });
+      
+      expect(result).toContain('/safe/image.png (binary, ');
+      expect(result).toContain(Buffer.from(binary, 'utf8').toString('base64'));
+    });
+
     it('should reject more than 50 files', async () => {
       const tooManyPaths = Array(51).fill('/safe/file.txt');
       
@@ -745,6 +941,32 @@ describe('Filesystem Tools Integration Tests', () => {
       expect(mockFs.rename).toHaveBeenCalledWith(sourcePath, destPath);
     });
 
+    it('should fall back to copy, verify and delete when the rename crosses filesystems', async () => {
+      const sourcePath = '/safe/existing-file.txt';
+      const destPath = '/safe/directory/moved.txt';
+      const exdev: any = new Error('EXDEV: cross-device link not permitted');
+      exdev.code = 'EXDEV';
+      mockFs.rename.mockRejectedValueOnce(exdev);
+      mockMoveFileAcrossDevices.mockImplementation((source: any, destination: any) => {
+        memoryFs[destination] = memoryFs[source];
+        delete memoryFs[source];
+        return Promise.resolve();
+      });
+      mockValidatePath
+        .mockResolvedValueOnce(sourcePath)
+        .mockResolvedValueOnce(destPath);
+
+      const result = await renameFileTool.execute({
+        source_path: sourcePath,
+        destination_path: destPath
+      }, { log: { info: jest.fn() } });
+
+      expect(result).toContain('moved across filesystems: copied, verified and source removed');
+      expect(mockMoveFileAcrossDevices).toHaveBeenCalledWith(sourcePath, destPath);
+      expect(memoryFs[destPath]).toBe('existing content');
+      expect(memoryFs[sourcePath]).toBeUndefined();
+    });
+
     it('should throw error if source file does not exist', async () => {
       const sourcePath = '/safe/non-existent.txt';
       const destPath = '/safe/renamed.txt';
@@ -782,6 +1004,847 @@ describe('Filesystem Tools Integration Tests', () => {
     });
   });
 
+  describe('edit_file Tool (regex)', () => {
+    const context = { log: { info: jest.fn(), warn: jest.fn(), error: jest.fn(), debug: jest.fn() } };
+    const filePath = '/safe/calls.ts';
+    let editFileTool: any;
+
+    beforeEach(() => {
+      registerFilesystemTools(mockServer as any);
+      editFileTool = (mockServer.addTool as jest.Mock).mock.calls.find(
+        call => call[0].name === 'edit_file'
+      )[0];
+      memoryFs[filePath] = 'fetchUser(1, true);\nfetchUser(id, false);\nfetchUser(other);\n';
+      mockGetPathFromOptions.mockReturnValue(filePath);
+    });
+
+    it('should replace every match with numbered capture groups when the g flag is set', async () => {
+      await editFileTool.execute({
+        path: filePath,
+        edits: [{ oldText: 'fetchUser\\(([^,)]+)(?:, (\\w+))?\\)', newText: 'loadUser({ id: $1 })', regex: true, flags: 'g' }],
+        dryRun: false
+      }, context);
+
+      expect(memoryFs[filePath]).toBe('loadUser({ id: 1 });\nloadUser({ id: id });\nloadUser({ id: other });\n');
+    });
+
+    it('should support named groups and replace only the requested occurrence', async () => {
+      await editFileTool.execute({
+        path: filePath,
+        edits: [{ oldText: 'fetchUser\\((?<arg>\\w+)', newText: 'getUser($<arg>', regex: true, occurrence: 2 }],
+        dryRun: false
+      }, context);
+
+      expect(memoryFs[filePath]).toBe('fetchUser(1, true);\ngetUser(id, false);\nfetchUser(other);\n');
+    });
+
+    it('should fail when the occurrence exceeds the number of matches', async () => {
+      await expect(editFileTool.execute({
+        path: filePath,
+        edits: [{ oldText: 'fetchUser', newText: 'x', regex: true, occurrence: 4 }],
+        dryRun: false
+      }, context)).rejects.toThrow('targets occurrence 4, but /fetchUser/ only matched 3 time(s)');
+      expect(memoryFs[filePath]).toBe('fetchUser(1, true);\nfetchUser(id, false);\nfetchUser(other);\n');
+    });
+
+    it('should report invalid patterns', async () => {
+      await expect(editFileTool.execute({
+        path: filePath,
+        edits: [{ oldText: 'fetchUser(', newText: 'x', regex: true }],
+        dryRun: false
+      }, context)).rejects.toThrow('Invalid regular expression for edit at index 0');
+    });
+  });
+
+  describe('edit_file Tool (occurrences)', () => {
+    const context = { log: { info: jest.fn(), warn: jest.fn(), error: jest.fn(), debug: jest.fn() } };
+    const filePath = '/safe/config.txt';
+    const original = 'debug = true\nname = app\n  debug = true\nprice = $5\n';
+    let editFileTool: any;
+
+    beforeEach(() => {
+      registerFilesystemTools(mockServer as any);
+      editFileTool = (mockServer.addTool as jest.Mock).mock.calls.find(
+        call => call[0].name === 'edit_file'
+      )[0];
+      memoryFs[filePath] = original;
+      mockGetPathFromOptions.mockReturnValue(filePath);
+    });
+
+    it('should replace only the first occurrence by default', async () => {
+      await editFileTool.execute({
+        path: filePath,
+        edits: [{ oldText: 'debug = true', newText: 'debug = false' }],
+        dryRun: false
+      }, context);
+
+      expect(memoryFs[filePath]).toBe('debug = false\nname = app\n  debug = true\nprice = $5\n');
+    });
+
+    it('should replace every occurrence when replaceAll is set', async () => {
+      await editFileTool.execute({
+        path: filePath,
+        edits: [{ oldText: 'debug = true', newText: 'debug = false', replaceAll: true, expectedOccurrences: 2 }],
+        dryRun: false
+      }, context);
+
+      expect(memoryFs[filePath]).toBe('debug = false\nname = app\n  debug = false\nprice = $5\n');
+    });
+
+    it('should fail with the matching line numbers when the occurrence count differs', async () => {
+      await expect(editFileTool.execute({
+        path: filePath,
+        edits: [{ oldText: 'debug = true', newText: 'debug = false', expectedOccurrences: 1 }],
+        dryRun: false
+      }, context)).rejects.toThrow('expected 1 occurrence(s) but found 2, at line(s): 1, 3');
+      expect(memoryFs[filePath]).toBe(original);
+    });
+
+    it('should count and replace copies that only match with different indentation', async () => {
+      memoryFs[filePath] = 'start();\n  run();\n  start();\n      run();\n';
+      const edit = { oldText: 'start();\n  run();', newText: 'stop();\n  run();' };
+
+      await expect(editFileTool.execute({
+        path: filePath,
+        edits: [{ ...edit, expectedOccurrences: 1 }],
+        dryRun: false
+      }, context)).rejects.toThrow('expected 1 occurrence(s) but found 2, at line(s): 1, 3');
+
+      await editFileTool.execute({
+        path: filePath,
+        edits: [{ ...edit, replaceAll: true, expectedOccurrences: 2 }],
+        dryRun: false
+      }, context);
+
+      expect(memoryFs[filePath]).toBe('stop();\n  run();\n  stop();\n  run();\n');
+    });
+
+    it('should insert replacement text literally, including dollar signs', async () => {
+      await editFileTool.execute({
+        path: filePath,
+        edits: [{ oldText: 'price = $5', newText: 'price = $&$$' }],
+        dryRun: false
+      }, context);
+
+      expect(memoryFs[filePath]).toContain('price = $&$$\n');
+    });
+  });
+
+  describe('edit_lines Tool', () => {
+    const context = { log: { info: jest.fn(), warn: jest.fn(), error: jest.fn(), debug: jest.fn() } };
+    const filePath = '/safe/lines.txt';
+    const sha256 = (text: string) => createHash('sha256').update(text).digest('hex');
+    let editLinesTool: any;
+
+    beforeEach(() => {
+      registerFilesystemTools(mockServer as any);
+      editLinesTool = (mockServer.addTool as jest.Mock).mock.calls.find(
+        call => call[0].name === 'edit_lines'
+      )[0];
+      memoryFs[filePath] = 'one\ntwo\nthree\nfour\n';
+      mockGetPathFromOptions.mockReturnValue(filePath);
+    });
+
+    it('should replace a line range guarded by its hash and report the new hash', async () => {
+      const result = await editLinesTool.execute({
+        path: filePath,
+        operation: 'replace',
+        startLine: 2,
+        endLine: 3,
+        content: 'TWO\nTHREE\n',
+        expectedHash: sha256('two\nthree'),
+        dryRun: false
+      }, context);
+
+      expect(memoryFs[filePath]).toBe('one\nTWO\nTHREE\nfour\n');
+      expect(result).toContain('-two');
+      expect(result).toContain('+TWO');
+      expect(result).toContain(`New content of lines 2-3 has sha256 ${sha256('TWO\nTHREE')}`);
+    });
+
+    it('should accept the range hash reported by read_file for the same lines', async () => {
+      const readFileTool = (mockServer.addTool as jest.Mock).mock.calls.find(call => call[0].name === 'read_file')[0];
+      const read = await readFileTool.execute({ path: filePath, mode: 'lines', offset: 2, limit: 2, maxBytes: 1024 }, context);
+      const rangeHash = read.match(/range sha256: ([0-9a-f]{64})/)[1];
+      expect(rangeHash).toBe(sha256('two\nthree'));
+
+      await editLinesTool.execute({
+        path: filePath,
+        operation: 'replace',
+        startLine: 2,
+        endLine: 3,
+        content: 'TWO\nTHREE',
+        expectedHash: rangeHash,
+        dryRun: false
+      }, context);
+      expect(memoryFs[filePath]).toBe('one\nTWO\nTHREE\nfour\n');
+    });
+
+    it('should insert after and delete ranges', async () => {
+      await editLinesTool.execute({ path: filePath, operation: 'insert_after', startLine: 4, content: 'five', dryRun: false }, context);
+      expect(memoryFs[filePath]).toBe('one\ntwo\nthree\nfour\nfive\n');
+
+      await editLinesTool.execute({ path: filePath, operation: 'delete', startLine: 1, endLine: 2, dryRun: false }, context);
+      expect(memoryFs[filePath]).toBe('three\nfour\nfive\n');
+    });
+
+    it('should not write anything in dry run mode', async () => {
+      const result = await editLinesTool.execute({ path: filePath, operation: 'insert_before', startLine: 1, content: 'zero', dryRun: true }, context);
+
+      expect(result).toContain('+zero');
+      expect(memoryFs[filePath]).toBe('one\ntwo\nthree\nfour\n');
+    });
+
+    it('should reject a stale hash and show the current lines', async () => {
+      await expect(editLinesTool.execute({
+        path: filePath,
+        operation: 'replace',
+        startLine: 2,
+        content: 'x',
+        expectedHash: sha256('not two'),
+        dryRun: false
+      }, context)).rejects.toThrow(`found ${sha256('two')}`);
+      expect(memoryFs[filePath]).toBe('one\ntwo\nthree\nfour\n');
+    });
+
+    it('should reject ranges beyond the end of the file', async () => {
+      await expect(editLinesTool.execute({ path: filePath, operation: 'delete', startLine: 4, endLine: 5, dryRun: false }, context))
+        .rejects.toThrow('Line range 4-5 is outside the file (4 lines)');
+    });
+  });
+
+  describe('Optimistic concurrency guards', () => {
+    const context = { log: { info: jest.fn(), warn: jest.fn(), error: jest.fn(), debug: jest.fn() } };
+    const filePath = '/safe/existing-file.txt';
+    const sha256 = (text: string) => createHash('sha256').update(text).digest('hex');
+    const getTool = (name: string) =>
+      (mockServer.addTool as jest.Mock).mock.calls.find(call => call[0].name === name)[0];
+
+    beforeEach(() => {
+      clearChangeJournal();
+      registerFilesystemTools(mockServer as any);
+      mockGetPathFromOptions.mockReturnValue(filePath);
+    });
+
+    it('should report the file version from read_file', async () => {
+      const result = await getTool('read_file').execute({ path: filePath, mode: 'lines', maxBytes: 1024 }, context);
+
+      expect(result).toContain(`sha256: ${sha256('existing content')}`);
+      expect(result).toMatch(/mtime: \d{4}-\d{2}-\d{2}T/);
+    });
+
+    it('should write when the expected hash still matches', async () => {
+      await getTool('write_file').execute({ path: filePath, content: 'mine', expectedSha256: sha256('existing content') }, context);
+
+      expect(memoryFs[filePath]).toBe('mine');
+    });
+
+    it('should refuse a stale write and show what changed since the expected version', async () => {
+      const readVersion = sha256('existing content');
+      await getTool('write_file').execute({ path: filePath, content: 'theirs' }, context);
+
+      const error = await getTool('write_file')
+        .execute({ path: filePath, content: 'mine', expectedSha256: readVersion }, context)
+        .catch((e: Error) => e);
+
+      expect(error.message).toContain(`Conflict: ${filePath} changed since it was last read`);
+      expect(error.message).toContain(`sha256: ${sha256('theirs')}`);
+      expect(error.message).toMatch(/-existing content[\s\S]*\+theirs/);
+      expect(memoryFs[filePath]).toBe('theirs');
+    });
+
+    it('should refuse edits and deletes when the mtime differs', async () => {
+      const staleMtime = '2000-01-01T00:00:00.000Z';
+
+      await expect(getTool('edit_file').execute({
+        path: filePath,
+        edits: [{ oldText: 'existing', newText: 'edited' }],
+        dryRun: false,
+        expectedMtime: staleMtime
+      }, context)).rejects.toThrow('Conflict');
+      await expect(getTool('delete_file').execute({ path: filePath, expectedMtime: staleMtime }, context)).rejects.toThrow('Conflict');
+      expect(memoryFs[filePath]).toBe('existing content');
+    });
+
+    it('should skip bulk_edit files whose hash no longer matches', async () => {
+      const result = await getTool('bulk_edit').execute({
+        targets: [filePath, '/safe/directory/subfile.txt'],
+        edits: [{ oldText: 'content', newText: 'text' }],
+        expectedSha256ByPath: { [filePath]: sha256('something else') },
+        dryRun: false
+      }, context);
+
+      expect(result).toContain(`ERROR FOR ${filePath}`);
+      expect(memoryFs[filePath]).toBe('existing content');
+      expect(memoryFs['/safe/directory/subfile.txt']).toBe('subfile text');
+    });
+  });
+
+  describe('bulk_edit Tool (transactional)', () => {
+    const context = { log: { info: jest.fn(), warn: jest.fn(), error: jest.fn(), debug: jest.fn() } };
+    const targets = ['/safe/existing-file.txt', '/safe/directory/subfile.txt'];
+    let bulkEditTool: any;
+
+    beforeEach(() => {
+      registerFilesystemTools(mockServer as any);
+      bulkEditTool = (mockServer.addTool as jest.Mock).mock.calls.find(
+        call => call[0].name === 'bulk_edit'
+      )[0];
+    });
+
+    it('should apply edits to every file when all of them succeed', async () => {
+      const result = await bulkEditTool.execute({
+        targets,
+        edits: [{ oldText: 'content', newText: 'text' }],
+        transactional: true,
+        dryRun: false
+      }, context);
+
+      expect(result).toContain('Bulk edit transaction: all applied');
+      expect(memoryFs['/safe/existing-file.txt']).toBe('existing text');
+      expect(memoryFs['/safe/directory/subfile.txt']).toBe('subfile text');
+    });
+
+    it('should apply nothing and report blocking errors when any file fails validation', async () => {
+      const result = await bulkEditTool.execute({
+        targets,
+        edits: [{ oldText: 'existing', newText: 'replaced' }],
+        transactional: true,
+        dryRun: false
+      }, context);
+
+      expect(result).toContain('Bulk edit transaction: none applied');
+      expect(result).toContain('ERROR FOR /safe/directory/subfile.txt');
+      expect(memoryFs['/safe/existing-file.txt']).toBe('existing content');
+      expect(mockWriteFileAtomic).not.toHaveBeenCalled();
+    });
+
+    it('should roll back files already written when a commit write fails', async () => {
+      const writeImplementation = mockWriteFileAtomic.getMockImplementation()!;
+      mockWriteFileAtomic.mockImplementation((...args: any[]) =>
+        args[0] === '/safe/directory/subfile.txt'
+          ? Promise.reject(new Error('disk full'))
+          : (writeImplementation as any)(...args)
+      );
+
+      const result = await bulkEditTool.execute({
+        targets,
+        edits: [{ oldText: 'content', newText: 'text' }],
+        transactional: true,
+        dryRun: false
+      }, context);
+
+      expect(result).toContain('Bulk edit transaction: none applied');
+      expect(result).toContain('Commit failed: disk full');
+      expect(memoryFs['/safe/existing-file.txt']).toBe('existing content');
+      expect(memoryFs['/safe/directory/subfile.txt']).toBe('subfile content');
+    });
+
+    it('should never edit trashed copies matched by a glob target', async () => {
+      const trashedCopy = '/safe/.mcp-trash/1700000000000-abc/existing-file.txt';
+      memoryFs[trashedCopy] = 'existing content';
+      (mockGlob as jest.Mock<any>).mockResolvedValueOnce(['/safe/existing-file.txt', trashedCopy]);
+
+      const result = await bulkEditTool.execute({
+        targets: ['/safe/**/existing-file.txt'],
+        edits: [{ oldText: 'content', newText: 'text' }],
+        transactional: true,
+        dryRun: false
+      }, context);
+
+      expect(result).toContain('Bulk edit transaction: all applied');
+      expect(memoryFs['/safe/existing-file.txt']).toBe('existing text');
+      expect(memoryFs[trashedCopy]).toBe('existing content');
+      expect(mockGlob).toHaveBeenCalledWith('/safe/**/existing-file.txt', expect.objectContaining({
+        ignore: expect.arrayContaining(['/safe/.mcp-trash/**'])
+      }));
+    });
+  });
+
+  describe('Undo journal Tools', () => {
+    const context = { log: { info: jest.fn(), warn: jest.fn(), error: jest.fn(), debug: jest.fn() } };
+    const getTool = (name: string) =>
+      (mockServer.addTool as jest.Mock).mock.calls.find(call => call[0].name === name)[0];
+
+    beforeEach(() => {
+      clearChangeJournal();
+      registerFilesystemTools(mockServer as any);
+    });
+
+    it('should journal only the files a bulk_edit actually changed', async () => {
+      await getTool('bulk_edit').execute({
+        targets: ['/safe/existing-file.txt', '/safe/directory/subfile.txt'],
+        edits: [
+          { oldText: 'existing', newText: 'changed', conditions: { or: ['existing-file'] } },
+          { oldText: 'subfile', newText: 'subfile', conditions: { or: ['subfile'] } },
+        ],
+        dryRun: false
+      }, context);
+
+      const listing = await getTool('list_changes').execute({ limit: 20 }, context);
+
+      expect(listing).toContain('modified /safe/existing-file.txt');
+      expect(listing).not.toContain('/safe/directory/subfile.txt');
+      expect(mockWriteFileAtomic).toHaveBeenCalledTimes(1);
+    });
+
+    it('should restore a deleted file with undo_last_change', async () => {
+      const filePath = '/safe/existing-file.txt';
+      mockGetPathFromOptions.mockReturnValue(filePath);
+
+      await getTool('delete_file').execute({ path: filePath }, context);
+      expect(memoryFs[filePath]).toBeUndefined();
+
+      const result = await getTool('undo_last_change').execute({ force: false }, context);
+
+      expect(result).toContain(`restored ${filePath}`);
+      expect(memoryFs[filePath]).toBe('existing content');
+    });
+
+    it('should revert two separate edits with two consecutive undos', async () => {
+      const filePath = '/safe/existing-file.txt';
+      mockGetPathFromOptions.mockReturnValue(filePath);
+
+      await getTool('write_file').execute({ path: filePath, content: 'first' }, context);
+      await getTool('write_file').execute({ path: filePath, content: 'second' }, context);
+
+      await getTool('undo_last_change').execute({ force: false }, context);
+      expect(memoryFs[filePath]).toBe('first');
+      await getTool('undo_last_change').execute({ force: false }, context);
+      expect(memoryFs[filePath]).toBe('existing content');
+      await expect(getTool('undo_last_change').execute({ force: false }, context))
+        .rejects.toThrow('No changes to undo');
+    });
+
+    it('should list changes and remove a created file when its change is restored', async () => {
+      const filePath = '/safe/created.txt';
+      mockGetPathFromOptions.mockReturnValue(filePath);
+
+      await getTool('write_file').execute({ path: filePath, content: 'new' }, context);
+
+      const listing = await getTool('list_changes').execute({ limit: 20 }, context);
+      const changeId = listing.match(/change_\S+/)[0];
+      expect(listing).toContain('write_file');
+      expect(listing).toContain(`created  ${filePath}`);
+
+      const result = await getTool('restore_change').execute({ changeId, force: false }, context);
+
+      expect(result).toContain(`removed  ${filePath}`);
+      expect(memoryFs[filePath]).toBeUndefined();
+    });
+
+    it('should refuse to restore over later modifications unless forced', async () => {
+      const filePath = '/safe/existing-file.txt';
+      mockGetPathFromOptions.mockReturnValue(filePath);
+
+      await getTool('write_file').execute({ path: filePath, content: 'first' }, context);
+      memoryFs[filePath] = 'changed elsewhere';
+
+      await expect(getTool('undo_last_change').execute({ force: false }, context))
+        .rejects.toThrow('modified after the change was made');
+
+      await getTool('undo_last_change').execute({ force: true }, context);
+      expect(memoryFs[filePath]).toBe('existing content');
+    });
+
+    it('should report an unknown change ID', async () => {
+      await expect(getTool('restore_change').execute({ changeId: 'change_missing', force: false }, context))
+        .rejects.toThrow('No change found with ID: change_missing');
+    });
+  });
+
+  describe('apply_patch Tool', () => {
+    const context = { log: { info: jest.fn(), warn: jest.fn(), error: jest.fn(), debug: jest.fn() } };
+    const getTool = (name: string) =>
+      (mockServer.addTool as jest.Mock).mock.calls.find(call => call[0].name === name)[0];
+
+    beforeEach(() => {
+      clearChangeJournal();
+      registerFilesystemTools(mockServer as any);
+    });
+
+    it('should apply the diff printed by an edit_file dry run', async () => {
+      const filePath = '/safe/existing-file.txt';
+      mockGetPathFromOptions.mockReturnValue(filePath);
+      const preview = await getTool('edit_file').execute({
+        path: filePath,
+        edits: [{ oldText: 'existing', newText: 'patched' }],
+        dryRun: true
+      }, context);
+      expect(memoryFs[filePath]).toBe('existing content');
+
+      const result = await getTool('apply_patch').execute({ patch: preview }, context);
+
+      expect(result).toContain('Patch applied: 1 hunk(s) across 1 file(s)');
+      expect(result).toContain('✓ Hunk 1');
+      expect(memoryFs[filePath]).toBe('patched content');
+    });
+
+    it('should create and delete files from a git-style patch as one undoable change', async () => {
+      const patch = [
+        '--- /dev/null',
+        '+++ b/notes/new.txt',
+        '@@ -0,0 +1,2 @@',
+        '+first',
+        '+second',
+        '--- a/directory/subfile.txt',
+        '+++ /dev/null',
+        '@@ -1 +0,0 @@',
+        '-subfile content',
+        '\\ No newline at end of file',
+      ].join('\n');
+
+      const result = await getTool('apply_patch').execute({ patch, baseDirectory: '/safe' }, context);
+
+      expect(result).toContain('━━━ CREATE notes/new.txt ━━━');
+      expect(result).toContain('━━━ DELETE directory/subfile.txt ━━━');
+      expect(memoryFs['/safe/notes/new.txt']).toBe('first\nsecond\n');
+      expect(memoryFs['/safe/directory/subfile.txt']).toBeUndefined();
+
+      await getTool('undo_last_change').execute({ force: false }, context);
+      expect(memoryFs['/safe/notes/new.txt']).toBeUndefined();
+      expect(memoryFs['/safe/directory/subfile.txt']).toBe('subfile content');
+    });
+
+    it('should keep CRLF line endings of patched files', async () => {
+      memoryFs['/safe/crlf.txt'] = 'one\r\ntwo\r\nthree\r\n';
+      const patch = [
+        '--- a/crlf.txt',
+        '+++ b/crlf.txt',
+        '@@ -1,3 +1,3 @@',
+        ' one',
+        '-two',
+        '+TWO',
+        ' three',
+      ].join('\n');
+
+      const result = await getTool('apply_patch').execute({ patch, baseDirectory: '/safe' }, context);
+
+      expect(result).toContain('✓ Hunk 1');
+      expect(memoryFs['/safe/crlf.txt']).toBe('one\r\nTWO\r\nthree\r\n');
+    });
+
+    it('should write nothing when a hunk is rejected unless allowPartial is set', async () => {
+      const patch = [
+        '--- /safe/existing-file.txt',
+        '+++ /safe/existing-file.txt',
+        '@@ -1 +1 @@',
+        '-existing content',
+        '\\ No newline at end of file',
+        '+updated content',
+        '\\ No newline at end of file',
+        '--- /safe/directory/subfile.txt',
+        '+++ /safe/directory/subfile.txt',
+        '@@ -1 +1 @@',
+        '-content that is not there',
+        '+replacement',
+      ].join('\n');
+
+      const rejected = await getTool('apply_patch').execute({ patch }, context);
+
+      expect(rejected).toContain('Patch not applied: 1 of 2 hunk(s) rejected');
+      expect(rejected).toContain('✗ Hunk 1 @@ -1,1 +1,1 @@ rejected: context not found');
+      expect(mockWriteFileAtomic).not.toHaveBeenCalled();
+
+      const partial = await getTool('apply_patch').execute({ patch, allowPartial: true }, context);
+
+      expect(partial).toContain('Patch partially applied: 1 of 2 hunk(s)');
+      expect(memoryFs['/safe/existing-file.txt']).toBe('updated content');
+      expect(memoryFs['/safe/directory/subfile.txt']).toBe('subfile content');
+    });
+
+    it('should roll back written files when a later write fails', async () => {
+      const writeImplementation = mockWriteFileAtomic.getMockImplementation()!;
+      mockWriteFileAtomic.mockImplementation((...args: any[]) =>
+        args[0] === '/safe/directory/subfile.txt'
+          ? Promise.reject(new Error('disk full'))
+          : (writeImplementation as any)(...args)
+      );
+      const patch = [
+        '--- /safe/existing-file.txt',
+        '+++ /safe/existing-file.txt',
+        '@@ -1 +1 @@',
+        '-existing content',
+        '+updated content',
+        '--- /safe/directory/subfile.txt',
+        '+++ /safe/directory/subfile.txt',
+        '@@ -1 +1 @@',
+        '-subfile content',
+        '+updated subfile',
+      ].join('\n');
+
+      await expect(getTool('apply_patch').execute({ patch }, context))
+        .rejects.toThrow('Applying the patch failed (disk full); all files were rolled back');
+      expect(memoryFs['/safe/existing-file.txt']).toBe('existing content');
+    });
+
+    it('should roll back a file too large to journal from the bytes it was planned against', async () => {
+      const largeContent = 'header\n' + 'x'.repeat(6 * 1024 * 1024) + '\n';
+      memoryFs['/safe/large.txt'] = largeContent;
+      const writeImplementation = mockWriteFileAtomic.getMockImplementation()!;
+      mockWriteFileAtomic.mockImplementation((...args: any[]) =>
+        args[0] === '/safe/directory/subfile.txt'
+          ? Promise.reject(new Error('disk full'))
+          : (writeImplementation as any)(...args)
+      );
+      const patch = [
+        '--- /safe/large.txt',
+        '+++ /safe/large.txt',
+        '@@ -1 +1 @@',
+        '-header',
+        '+HEADER',
+        '--- /safe/directory/subfile.txt',
+        '+++ /safe/directory/subfile.txt',
+        '@@ -1 +1 @@',
+        '-subfile content',
+        '+updated subfile',
+      ].join('\n');
+
+      await expect(getTool('apply_patch').execute({ patch }, context))
+        .rejects.toThrow('Applying the patch failed (disk full); all files were rolled back');
+      expect(memoryFs['/safe/large.txt']).toBe(largeContent);
+    });
+
+    it('should report a conflict and write nothing when a file no longer has its expected sha256', async () => {
+      const patch = [
+        '--- /safe/existing-file.txt',
+        '+++ /safe/existing-file.txt',
+        '@@ -1 +1 @@',
+        '-existing content',
+        '+updated content',
+      ].join('\n');
+
+      const result = await getTool('apply_patch').execute({
+        patch,
+        expectedSha256ByPath: { '/safe/existing-file.txt': createHash('sha256').update('older content').digest('hex') },
+      }, context);
+
+      expect(result).toContain('Patch not applied');
+      expect(result).toContain('Conflict: /safe/existing-file.txt changed since it was last read');
+      expect(memoryFs['/safe/existing-file.txt']).toBe('existing content');
+    });
+  });
+
+  describe('Trash Tools', () => {
+    const context = { log: { info: jest.fn(), warn: jest.fn(), error: jest.fn(), debug: jest.fn() } };
+    const getTool = (name: string) =>
+      (mockServer.addTool as jest.Mock).mock.calls.find(call => call[0].name === name)[0];
+
+    beforeEach(() => {
+      registerFilesystemTools(mockServer as any);
+    });
+
+    it('should move a file into the trash instead of unlinking it', async () => {
+      const filePath = '/safe/existing-file.txt';
+      mockGetPathFromOptions.mockReturnValue(filePath);
+
+      const result = await getTool('delete_file').execute({ path: filePath, useTrash: true }, context);
+
+      const trashId = result.match(/trash_[a-z0-9]+_[a-f0-9]+/)[0];
+      expect(result).toContain('File moved to trash: /safe/existing-file.txt');
+      expect(mockFs.unlink).not.toHaveBeenCalled();
+      expect(memoryFs[filePath]).toBeUndefined();
+      expect(memoryFs[`/safe/.mcp-trash/${trashId}/data/existing-file.txt`]).toBe('existing content');
+      expect(JSON.parse(memoryFs[`/safe/.mcp-trash/${trashId}/meta.json`] as string))
+        .toMatchObject({ id: trashId, originalPath: filePath, type: 'file', tool: 'delete_file' });
+    });
+
+    it('should report an empty trash', async () => {
+      const result = await getTool('list_trash').execute({}, context);
+
+      expect(result).toContain('The trash is empty.');
+      expect(result).toContain('Trash: /safe/.mcp-trash');
+    });
+  });
+
+  describe('get_files_info Tool', () => {
+    const context = { log: { info: jest.fn(), warn: jest.fn(), error: jest.fn(), debug: jest.fn() } };
+    let getFilesInfoTool: any;
+
+    beforeEach(() => {
+      registerFilesystemTools(mockServer as any);
+      getFilesInfoTool = (mockServer.addTool as jest.Mock).mock.calls.find(
+        call => call[0].name === 'get_files_info'
+      )[0];
+    });
+
+    const globMatches = (matches: string[]) =>
+      mockGlobIterate.mockImplementation(async function* () { yield* matches; });
+
+    it('should list paths and glob matches in one table with per-path errors', async () => {
+      globMatches(['/safe/directory/subfile.txt']);
+
+      const result: string = await getFilesInfoTool.execute({
+        paths: ['/safe/existing-file.txt', '/safe/missing.txt', '/safe/directory/*.txt', '/safe/directory'],
+      }, context);
+      const lines = result.split('\n');
+
+      expect(lines[0]).toMatch(/^TYPE\s+SIZE\s+MODIFIED\s+MODE PATH$/);
+      expect(lines[1]).toMatch(/^file\s+16 Bytes\s+\S+Z\s+0644 \/safe\/existing-file\.txt$/);
+      expect(lines[2]).toMatch(/^error\s+-\s+-\s+-\s+\/safe\/missing\.txt: File or directory does not exist$/);
+      expect(lines[3]).toMatch(/^file\s+15 Bytes\s+\S+Z\s+0644 \/safe\/directory\/subfile\.txt$/);
+      expect(lines[4]).toMatch(/^directory\s+-\s+\S+Z\s+0755 \/safe\/directory$/);
+      expect(result).toContain('4 entries: 2 file(s), 1 directory(ies), 1 error(s)');
+      expect(mockGlobIterate).toHaveBeenCalledWith('*.txt', expect.objectContaining({ cwd: '/safe/directory', ignore: ['**/node_modules/**'] }));
+    });
+
+    it('should isolate validation failures and empty globs', async () => {
+      globMatches([]);
+      mockValidatePaths.mockImplementation((paths: string[]) =>
+        paths[0].startsWith('/etc') ? Promise.reject(new Error('Access denied - path outside allowed directories')) : Promise.resolve(paths));
+
+      const result: string = await getFilesInfoTool.execute({ paths: ['/etc/passwd', '/safe/*.log', '/safe/existing-file.txt'] }, context);
+
+      expect(result).toContain('/etc/passwd: Access denied - path outside allowed directories');
+      expect(result).toContain('/safe/*.log: No matches');
+      expect(result).toContain('3 entries: 1 file(s), 0 directory(ies), 2 error(s)');
+    });
+
+    it('should report a rejected glob match as its own error row', async () => {
+      globMatches(['/safe/existing-file.txt', '/safe/escape-link.txt']);
+      mockValidatePath.mockImplementation((requested: string) =>
+        requested === '/safe/escape-link.txt' ? Promise.reject(new Error('Access denied - symlink target outside allowed directories')) : Promise.resolve(requested));
+
+      const result: string = await getFilesInfoTool.execute({ paths: ['/safe/*.txt'] }, context);
+
+      expect(result).toMatch(/^file\s+16 Bytes\s+\S+Z\s+0644 \/safe\/existing-file\.txt$/m);
+      expect(result).toContain('/safe/escape-link.txt: Access denied - symlink target outside allowed directories');
+      expect(result).toContain('2 entries: 1 file(s), 0 directory(ies), 1 error(s)');
+    });
+
+    it('should stop walking a glob once the row limit is reached', async () => {
+      let yielded = 0;
+      mockGlobIterate.mockImplementation(async function* () {
+        while (true) {
+          yielded++;
+          yield `/safe/many/file-${String(yielded).padStart(5, '0')}.txt`;
+        }
+      });
+
+      const result: string = await getFilesInfoTool.execute({ paths: ['/safe/many/**/*.txt'] }, context);
+
+      expect(yielded).toBe(1001);
+      expect(result).toContain('1000 entries:');
+      expect(result).toContain('matching stopped after 1000 matches of /safe/many/**/*.txt');
+    });
+  });
+
+  describe('search_files_and_folders Tool', () => {
+    const context = { log: { info: jest.fn(), warn: jest.fn(), error: jest.fn(), debug: jest.fn() } };
+    const hour = 60 * 60 * 1000;
+    const entry = (fullPath: string, type: 'file' | 'directory', size: number, ageHours: number) => ({
+      name: fullPath.split('/').pop(),
+      size,
+      mtime: new Date(Date.now() - ageHours * hour),
+      isFile: () => type === 'file',
+      isDirectory: () => type === 'directory',
+      fullpath: () => fullPath,
+    });
+    let searchTool: any;
+
+    beforeEach(() => {
+      registerFilesystemTools(mockServer as any);
+      searchTool = (mockServer.addTool as jest.Mock).mock.calls.find(
+        call => call[0].name === 'search_files_and_folders'
+      )[0];
+      (mockGlob as jest.Mock<any>).mockResolvedValue([
+        entry('/safe/src', 'directory', 4096, 1),
+        entry('/safe/src/big.ts', 'file', 5000, 2),
+        entry('/safe/src/small.ts', 'file', 10, 3),
+        entry('/safe/src/old.ts', 'file', 9000, 72),
+        entry('/safe/README.md', 'file', 700, 1),
+      ]);
+    });
+
+    it('should filter by size, age and extension and sort largest first', async () => {
+      const result = JSON.parse(await searchTool.execute({
+        search_term: '*',
+        path: '/safe/',
+        extensions: ['.TS'],
+        min_size: 100,
+        modified_after: '24h',
+        sort_by: 'size',
+      }, context));
+
+      expect(result).toMatchObject({ total: 1, offset: 0, limit: 1000 });
+      expect(result.results).toEqual([expect.objectContaining({ path: '/safe/src/big.ts', type: 'file', size: 5000 })]);
+      expect(mockGlob).toHaveBeenCalledWith('**/***', expect.objectContaining({ stat: true }));
+    });
+
+    it('should page through name-sorted results and report the total', async () => {
+      const firstPage = JSON.parse(await searchTool.execute({ search_term: '*', path: '/safe/', limit: 2 }, context));
+      const secondPage = JSON.parse(await searchTool.execute({ search_term: '*', path: '/safe/', offset: 2, limit: 2 }, context));
+
+      expect(firstPage.total).toBe(5);
+      expect(firstPage.results.map((match: any) => match.path)).toEqual(['/safe/README.md', '/safe/src']);
+      expect(firstPage.results[1]).not.toHaveProperty('size');
+      expect(secondPage.results.map((match: any) => match.path)).toEqual(['/safe/src/big.ts', '/safe/src/old.ts']);
+    });
+
+    it('should leave the server trash out of results even when hidden entries are included', async () => {
+      (mockGlob as jest.Mock<any>).mockResolvedValue([
+        entry('/safe/README.md', 'file', 700, 1),
+        entry('/safe/.env', 'file', 10, 1),
+        entry('/safe/.mcp-trash', 'directory', 4096, 1),
+        entry('/safe/.mcp-trash/1700000000000-abc/README.md', 'file', 700, 1),
+      ]);
+
+      const result = JSON.parse(await searchTool.execute({ search_term: '*', path: '/safe/', include_hidden: true }, context));
+
+      expect(result.results.map((match: any) => match.path)).toEqual(['/safe/.env', '/safe/README.md']);
+      expect(mockGlob).toHaveBeenCalledWith('**/***', expect.objectContaining({ ignore: ['/safe/.mcp-trash', '/safe/.mcp-trash/**'] }));
+    });
+
+    it('should reject malformed time bounds and inverted ranges', async () => {
+      await expect(searchTool.execute({ search_term: 'a', path: '/safe/', modified_after: 'yesterday' }, context))
+        .rejects.toThrow('modified_after must be an ISO 8601 timestamp or a duration');
+      await expect(searchTool.execute({ search_term: 'a', path: '/safe/', min_size: 10, max_size: 5 }, context))
+        .rejects.toThrow('min_size (10) cannot be greater than max_size (5)');
+    });
+  });
+
+  describe('delete_directory Tool', () => {
+    const context = { log: { info: jest.fn(), warn: jest.fn(), error: jest.fn(), debug: jest.fn() } };
+    let deleteDirectoryTool: any;
+
+    beforeEach(() => {
+      registerFilesystemTools(mockServer as any);
+      deleteDirectoryTool = (mockServer.addTool as jest.Mock).mock.calls.find(
+        call => call[0].name === 'delete_directory'
+      )[0];
+    });
+
+    it('should require the exact entry count above the confirmation threshold', async () => {
+      const names = Array.from({ length: 150 }, (_, i) => `file-${i}.txt`);
+      names.forEach(name => { memoryFs[`/safe/directory/${name}`] = 'x'; });
+      mockFs.readdir.mockImplementation((dir: any) =>
+        Promise.resolve(dir === '/safe/directory' ? [...names, 'subfile.txt'] : [])
+      );
+      mockGetPathFromOptions.mockReturnValue('/safe/directory');
+
+      await expect(deleteDirectoryTool.execute({ path: '/safe/directory' }, context))
+        .rejects.toThrow('Re-run with confirmCount: 151');
+      await expect(deleteDirectoryTool.execute({ path: '/safe/directory', confirmCount: 150 }, context))
+        .rejects.toThrow('confirmCount 150 does not match');
+      expect(mockFs.rm).not.toHaveBeenCalled();
+
+      const result = await deleteDirectoryTool.execute({ path: '/safe/directory', confirmCount: 151 }, context);
+
+      expect(result).toContain('Directory deleted successfully: /safe/directory (151 files, 0 directories, 0 symlinks)');
+      expect(memoryFs['/safe/directory/subfile.txt']).toBeUndefined();
+    });
+
+    it('should refuse to delete an allowed root directory or a file', async () => {
+      mockGetPathFromOptions.mockReturnValue('/safe');
+      await expect(deleteDirectoryTool.execute({ path: '/safe' }, context))
+        .rejects.toThrow('Cannot delete an allowed root directory');
+
+      mockGetPathFromOptions.mockReturnValue('/safe/existing-file.txt');
+      await expect(deleteDirectoryTool.execute({ path: '/safe/existing-file.txt' }, context))
+        .rejects.toThrow('Not a directory');
+    });
+  });
+
   describe('Resource Template', () => {
     let resourceTemplate: any;
 
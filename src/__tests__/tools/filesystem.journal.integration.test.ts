@@ -0,0 +1,74 @@
+// src/__tests__/tools/filesystem.journal.integration.test.ts
+
+// Mock security module; like the real validatePath, paths are only accepted when their parent exists
+const mockValidatePath = jest.fn();
+jest.mock('../../utils/security.js', () => ({
+  validatePath: mockValidatePath,
+  validatePaths: jest.fn(),
+  allowedDirectories: ['/'],
+}));
+
+import * as fs from 'fs/promises';
+import * as os from 'os';
+import * as path from 'path';
+import { registerFilesystemTools } from '../../tools/filesystem';
+import { clearChangeJournal } from '../../utils/change-journal';
+
+describe('Undo journal Integration Tests (real filesystem)', () => {
+  const mockServer = {
+    addTool: jest.fn(),
+    addResourceTemplate: jest.fn(),
+  };
+  const mockContext = {
+    log: { info: jest.fn(), warn: jest.fn(), error: jest.fn(), debug: jest.fn() },
+  };
+  let tempDir: string;
+
+  const getTool = (name: string) => {
+    const call = mockServer.addTool.mock.calls.find(([tool]) => tool.name === name);
+    if (!call) throw new Error(`Tool not registered: ${name}`);
+    return call[0];
+  };
+
+  const contents = (relativePath: string) => fs.readFile(path.join(tempDir, relativePath), 'utf-8');
+
+  beforeEach(async () => {
+    jest.clearAllMocks();
+    clearChangeJournal();
+    tempDir = await fs.realpath(await fs.mkdtemp(path.join(os.tmpdir(), 'undo-journal-')));
+    mockValidatePath.mockImplementation(async (requested: string) => {
+      await fs.realpath(path.dirname(requested)).catch(() => {
+        throw new Error(`Parent directory does not exist: ${path.dirname(requested)}`);
+      });
+      return requested;
+    });
+    registerFilesystemTools(mockServer as any);
+  });
+
+  afterEach(async () => {
+    await fs.rm(tempDir, { recursive: true, force: true });
+  });
+
+  it('should restore both sides of an overwriting move_directory whose source was removed', async () => {
+    await fs.mkdir(path.join(tempDir, 'src/nested'), { recursive: true });
+    await fs.mkdir(path.join(tempDir, 'dest'));
+    await fs.writeFile(path.join(tempDir, 'src/nested/shared.txt'), 'from source');
+    await fs.writeFile(path.join(tempDir, 'src/only.txt'), 'only in source');
+    await fs.mkdir(path.join(tempDir, 'dest/nested'));
+    await fs.writeFile(path.join(tempDir, 'dest/nested/shared.txt'), 'original destination');
+
+    await getTool('move_directory').execute({
+      source_path: path.join(tempDir, 'src'),
+      destination_path: path.join(tempDir, 'dest'),
+      ifExists: 'overwrite',
+    }, mockContext);
+    await expect(fs.access(path.join(tempDir, 'src'))).rejects.toThrow();
+    expect(await contents('dest/nested/shared.txt')).toBe('from source');
+
+    const result = await getTool('undo_last_change').execute({ force: false }, mockContext);
+
+    expect(result).toContain('Restored change');
+    expect(await contents('dest/nested/shared.txt')).toBe('original destination');
+    expect(await contents('src/nested/shared.txt')).toBe('from source');
+  });
+});
@@ -62,6 +62,8 @@ describe('Terminal Tools Integration Tests', () => {
       const expectedTools = [
         'execute_command',
         'read_output',
+        'write_input',
+        'resize_terminal',
         'list_sessions',
         'force_terminate',
         'search_code',
@@ -198,6 +200,84 @@ describe('Terminal Tools Integration Tests', () => {
       });
     });
 
+    it('should run pty commands through script and render their output', async () => {
+      const mockChildProcess = new EventEmitter();
+      (mockChildProcess as any).stdout = new EventEmitter();
+      (mockChildProcess as any).stderr = new EventEmitter();
+      (mockChildProcess as any).pid = 1234;
+
+      mockSpawn.mockReturnValue(mockChildProcess);
+
+      const resultPromise = executeCommandTool.execute({
+        command: 'npm install',
+        timeout_ms: 5000,
+        pty: true,
+        cols: 100,
+        rows: 40,
+      }, { log: { info: jest.fn() } });
+
+      setImmediate(() => {
+        (mockChildProcess as any).stdout.emit('data', '\x1b[32madded\x1b[0m 3 packages\r\n10%\r100%\r\n');
+        mockChildProcess.emit('close', 0, null);
+      });
+
+      const resultData = JSON.parse(await resultPromise);
+
+      expect(mockSpawn).toHaveBeenCalledWith(
+        'script',
+        expect.arrayContaining([expect.stringContaining('stty cols 100 rows 40 2>/dev/null; npm install')]),
+        expect.objectContaining({
+          env: expect.objectContaining({ TERM: 'xterm-256color', COLUMNS: '100', LINES: '40' }),
+        })
+      );
+      expect(resultData).toMatchObject({
+        completed: true,
+        output: 'added 3 packages\n100%',
+        pty: { cols: 100, rows: 40 },
+      });
+    });
+
+    it('should run in a validated cwd with env overrides and an optional clean environment', async () => {
+      const mockChildProcess = new EventEmitter();
+      (mockChildProcess as any).stdout = new EventEmitter();
+      (mockChildProcess as any).stderr = new EventEmitter();
+      (mockChildProcess as any).pid = 1234;
+      mockSpawn.mockReturnValue(mockChildProcess);
+      mockValidatePath.mockResolvedValue('/safe/project');
+      process.env.TERMINAL_TEST_SECRET = 'secret';
+
+      try {
+        const run = async (args: Record<string, unknown>) => {
+          const resultPromise = executeCommandTool.execute({ command: 'npm test', timeout_ms: 5000, ...args }, { log: { info: jest.fn() } });
+          setImmediate(() => mockChildProcess.emit('close', 0, null));
+          return JSON.parse(await resultPromise);
+        };
+
+        const result = await run({ cwd: 'project', env: { NODE_ENV: 'test', HOME: null } });
+        expect(mockValidatePath).toHaveBeenCalledWith('project');
+        expect(result.workingDirectory).toBe('/safe/project');
+        let options = mockSpawn.mock.calls[0][2];
+        expect(options.cwd).toBe('/safe/project');
+        expect(options.env).toMatchObject({ NODE_ENV: 'test', TERMINAL_TEST_SECRET: 'secret' });
+        expect(options.env).not.toHaveProperty('HOME');
+
+        await run({ clean_env: true, env: { API_URL: 'http://localhost' } });
+        options = mockSpawn.mock.calls[1][2];
+        expect(options.env).toMatchObject({ PATH: process.env.PATH, API_URL: 'http://localhost' });
+        expect(options.env).not.toHaveProperty('TERMINAL_TEST_SECRET');
+      } finally {
+        delete process.env.TERMINAL_TEST_SECRET;
+      }
+
+      mockStat.mockResolvedValue({ isDirectory: () => false });
+      await expect(
+        executeCommandTool.execute({ command: 'ls', timeout_ms: 5000, cwd: 'package.json' }, { log: { info: jest.fn() } })
+      ).rejects.toThrow('Working directory is not a directory: /safe/project');
+      await expect(
+        executeCommandTool.execute({ command: 'ls', timeout_ms: 5000, env: { 'BAD-NAME': 'x' } }, { log: { info: jest.fn() } })
+      ).rejects.toThrow('Invalid environment variable name: BAD-NAME');
+    });
+
     it('should validate and reject dangerous commands', async () => {
       const dangerousCommands = [
         'rm -rf /',
@@ -321,6 +401,265 @@ describe('Terminal Tools Integration Tests', () => {
         }, { log: { info: jest.fn() } })
       ).rejects.toThrow('No active terminal session found with ID containing: 99999');
     });
+
+    it('should return only new output with a cursor, from a given cursor, or as a tail', async () => {
+      const mockChildProcess = new EventEmitter();
+      (mockChildProcess as any).stdout = new EventEmitter();
+      (mockChildProcess as any).stderr = new EventEmitter();
+      (mockChildProcess as any).pid = 5555;
+      mockSpawn.mockReturnValue(mockChildProcess);
+      const executeCommandTool = (mockServer.addTool as jest.Mock).mock.calls.find(
+        call => call[0].name === 'execute_command'
+      )[0];
+      const context = { log: { info: jest.fn() } };
+
+      const started = JSON.parse(await executeCommandTool.execute({ command: 'npm run build', timeout_ms: 100 }, context));
+      expect(started.cursor).toBe('0:0');
+
+      (mockChildProcess as any).stdout.emit('data', 'step 1\nstep 2\n');
+      (mockChildProcess as any).stderr.emit('data', 'warning\n');
+      const first = JSON.parse(await readOutputTool.execute({ pid: 5555 }, context));
+      expect(first).toMatchObject({ output: 'step 1\nstep 2', error: 'warning', since: '0:0', cursor: '14:8' });
+
+      (mockChildProcess as any).stdout.emit('data', 'step 3\n');
+      const second = JSON.parse(await readOutputTool.execute({ pid: 5555 }, context));
+      expect(second).toMatchObject({ output: 'step 3', error: '', since: '14:8', cursor: '21:8' });
+      const empty = JSON.parse(await readOutputTool.execute({ pid: 5555 }, context));
+      expect(empty).toMatchObject({ output: '', error: '', cursor: '21:8' });
+
+      const replay = JSON.parse(await readOutputTool.execute({ pid: 5555, since: '7:0' }, context));
+      expect(replay).toMatchObject({ output: 'step 2\nstep 3', error: 'warning' });
+      const tail = JSON.parse(await readOutputTool.execute({ pid: 5555, tail: 2 }, context));
+      expect(tail).toMatchObject({ output: 'step 2\nstep 3', error: 'warning', since: '0:0', cursor: '21:8' });
+
+      await expect(
+        readOutputTool.execute({ pid: 5555, since: 'latest' }, context)
+      ).rejects.toThrow('Invalid cursor: latest');
+    });
+
+    it('should report dropped bytes and spill the full output to the log file', async () => {
+      const realFs = jest.requireActual('fs') as typeof import('fs');
+      const os = jest.requireActual('os') as typeof import('os');
+      const path = jest.requireActual('path') as typeof import('path');
+      const tempDir = realFs.mkdtempSync(path.join(os.tmpdir(), 'terminal-log-'));
+      const logPath = path.join(tempDir, 'build.log');
+      mockValidatePath.mockResolvedValue(logPath);
+
+      const mockChildProcess = new EventEmitter();
+      (mockChildProcess as any).stdout = new EventEmitter();
+      (mockChildProcess as any).stderr = new EventEmitter();
+      (mockChildProcess as any).pid = 6666;
+      mockSpawn.mockReturnValue(mockChildProcess);
+      const executeCommandTool = (mockServer.addTool as jest.Mock).mock.calls.find(
+        call => call[0].name === 'execute_command'
+      )[0];
+      const context = { log: { info: jest.fn() } };
+
+      try {
+        const started = JSON.parse(await executeCommandTool.execute({
+          command: 'npm run build',
+          timeout_ms: 100,
+          max_output_bytes: 1024,
+          log_file: 'build.log',
+        }, context));
+        expect(mockValidatePath).toHaveBeenCalledWith('build.log');
+        expect(started.logFile).toBe(logPath);
+
+        const lines = Array.from({ length: 200 }, (_, index) => `line ${String(index).padStart(3, '0')}\n`).join('');
+        (mockChildProcess as any).stdout.emit('data', lines);
+        (mockChildProcess as any).stderr.emit('data', 'done\n');
+
+        const result = JSON.parse(await readOutputTool.execute({ pid: 6666, since: '0:0' }, context));
+        expect(result.droppedBytes).toEqual({ stdout: lines.length - 1024, stderr: 0 });
+        expect(result.since).toBe(`${lines.length - 1024}:0`);
+        expect(result.output.endsWith('line 199')).toBe(true);
+
+        mockChildProcess.emit('close', 0, null);
+        await new Promise(resolve => setTimeout(resolve, 50));
+        expect(realFs.readFileSync(logPath, 'utf8')).toBe(`${lines}done\n`);
+      } finally {
+        realFs.rmSync(tempDir, { recursive: true, force: true });
+      }
+    });
+
+    it('should report dropped bytes when a command completes within the timeout', async () => {
+      const mockChildProcess = new EventEmitter();
+      (mockChildProcess as any).stdout = new EventEmitter();
+      (mockChildProcess as any).stderr = new EventEmitter();
+      (mockChildProcess as any).pid = 6767;
+      mockSpawn.mockReturnValue(mockChildProcess);
+      const executeCommandTool = (mockServer.addTool as jest.Mock).mock.calls.find(
+        call => call[0].name === 'execute_command'
+      )[0];
+      const context = { log: { info: jest.fn() } };
+
+      const lines = Array.from({ length: 200 }, (_, index) => `line ${String(index).padStart(3, '0')}\n`).join('');
+      setTimeout(() => {
+        (mockChildProcess as any).stdout.emit('data', lines);
+        mockChildProcess.emit('close', 0, null);
+      }, 10);
+
+      const result = JSON.parse(await executeCommandTool.execute({
+        command: 'npm run build',
+        timeout_ms: 1000,
+        max_output_bytes: 1024,
+      }, context));
+
+      expect(result.completed).toBe(true);
+      expect(result.droppedBytes).toEqual({ stdout: lines.length - 1024, stderr: 0 });
+    });
+
+    it('should close the log file when the command cannot be started', async () => {
+      const realFs = jest.requireActual('fs') as typeof import('fs');
+      const os = jest.requireActual('os') as typeof import('os');
+      const path = jest.requireActual('path') as typeof import('path');
+      const tempDir = realFs.mkdtempSync(path.join(os.tmpdir(), 'terminal-log-'));
+      mockValidatePath.mockResolvedValue(path.join(tempDir, 'build.log'));
+      mockSpawn.mockImplementation(() => {
+        throw Object.assign(new Error('spawn /bin/missing ENOENT'), { code: 'ENOENT' });
+      });
+      const endSpy = jest.spyOn(realFs.WriteStream.prototype, 'end');
+      const executeCommandTool = (mockServer.addTool as jest.Mock).mock.calls.find(
+        call => call[0].name === 'execute_command'
+      )[0];
+
+      try {
+        await expect(executeCommandTool.execute({
+          command: 'npm run build',
+          log_file: 'build.log',
+        }, { log: { info: jest.fn() } })).rejects.toThrow('Shell not found');
+        expect(endSpy).toHaveBeenCalledTimes(1);
+      } finally {
+        endSpy.mockRestore();
+        realFs.rmSync(tempDir, { recursive: true, force: true });
+      }
+    });
+  });
+
+  describe('write_input and resize_terminal Tools', () => {
+    let executeCommandTool: any;
+    let writeInputTool: any;
+
+    const startInteractiveSession = async (options: Record<string, unknown> = {}) => {
+      const mockChildProcess = new EventEmitter();
+      (mockChildProcess as any).stdout = new EventEmitter();
+      (mockChildProcess as any).stderr = new EventEmitter();
+      (mockChildProcess as any).pid = 4321;
+      (mockChildProcess as any).kill = jest.fn();
+      (mockChildProcess as any).stdin = Object.assign(new EventEmitter(), {
+        writableEnded: false,
+        destroyed: false,
+        write: jest.fn((data: string, callback: (error?: Error) => void) => callback()),
+        end: jest.fn(function (this: any) { this.writableEnded = true; }),
+      });
+      mockSpawn.mockReturnValue(mockChildProcess);
+
+      await executeCommandTool.execute({ command: 'npm init', timeout_ms: 100, ...options }, { log: { info: jest.fn() } });
+      return mockChildProcess as any;
+    };
+
+    beforeEach(() => {
+      registerTerminalTools(mockServer as any);
+      const calls = (mockServer.addTool as jest.Mock).mock.calls;
+      executeCommandTool = calls.find(call => call[0].name === 'execute_command')[0];
+      writeInputTool = calls.find(call => call[0].name === 'write_input')[0];
+    });
+
+    it('should write input with a newline and return the output that follows', async () => {
+      const child = await startInteractiveSession();
+      child.stdout.emit('data', 'package name: ');
+      child.stdin.write.mockImplementation((data: string, callback: () => void) => {
+        callback();
+        setTimeout(() => child.stdout.emit('data', `got ${data.trim()}\nversion: `), 10);
+      });
+
+      const result = JSON.parse(await writeInputTool.execute({
+        pid: 4321,
+        input: 'my-package',
+        settle_ms: 50,
+      }, { log: { info: jest.fn() } }));
+
+      expect(child.stdin.write).toHaveBeenCalledWith('my-package\n', expect.any(Function));
+      expect(result).toMatchObject({
+        pid: 4321,
+        bytesWritten: 11,
+        control: null,
+        output: 'got my-package\nversion: ',
+        error: '',
+        isActive: true,
+      });
+    });
+
+    it('should deliver ctrl_c as SIGINT and ctrl_d as end of input', async () => {
+      const child = await startInteractiveSession();
+
+      await writeInputTool.execute({ pid: 4321, control: 'ctrl_c', settle_ms: 0 }, { log: { info: jest.fn() } });
+      expect(child.kill).toHaveBeenCalledWith('SIGINT');
+      expect(child.stdin.write).not.toHaveBeenCalled();
+
+      await writeInputTool.execute({ pid: 4321, input: 'exit', control: 'ctrl_d', settle_ms: 0 }, { log: { info: jest.fn() } });
+      expect(child.stdin.write).toHaveBeenCalledWith('exit\n', expect.any(Function));
+      expect(child.stdin.end).toHaveBeenCalled();
+
+      await expect(
+        writeInputTool.execute({ pid: 4321, input: 'more' }, { log: { info: jest.fn() } })
+      ).rejects.toThrow('no longer accepts input');
+    });
+
+    it('should send Enter and control keys as keystrokes in pty sessions', async () => {
+      const child = await startInteractiveSession({ pty: true });
+
+      await writeInputTool.execute({ pid: 4321, input: 'y', settle_ms: 0 }, { log: { info: jest.fn() } });
+      await writeInputTool.execute({ pid: 4321, control: 'ctrl_c', settle_ms: 0 }, { log: { info: jest.fn() } });
+
+      expect(child.stdin.write.mock.calls.map((call: any[]) => call[0])).toEqual(['y\r', '\x03']);
+      expect(child.kill).not.toHaveBeenCalled();
+      expect(child.stdin.end).not.toHaveBeenCalled();
+    });
+
+    it('should hold back an escape sequence split across pty reads until it is complete', async () => {
+      const child = await startInteractiveSession({ pty: true });
+      const readOutputTool = (mockServer.addTool as jest.Mock).mock.calls.find(call => call[0].name === 'read_output')[0];
+      const context = { log: { info: jest.fn() } };
+
+      child.stdout.emit('data', 'status: \x1b[3');
+      expect(JSON.parse(await readOutputTool.execute({ pid: 4321 }, context)).output).toBe('status:');
+      child.stdout.emit('data', '2mready\x1b[0m\r\n');
+      expect(JSON.parse(await readOutputTool.execute({ pid: 4321 }, context)).output).toBe('ready');
+
+      child.stdin.write.mockImplementation((data: string, callback: () => void) => {
+        callback();
+        child.stdout.emit('data', 'y\r\n\x1b]0;title');
+      });
+      const written = JSON.parse(await writeInputTool.execute({ pid: 4321, input: 'y', settle_ms: 20 }, context));
+      expect(written.output).toBe('y');
+      child.stdout.emit('data', '\x07done\r\n');
+      expect(JSON.parse(await readOutputTool.execute({ pid: 4321 }, context)).output).toBe('y\ndone');
+    });
+
+    it('should only resize pty sessions', async () => {
+      await startInteractiveSession();
+      const resizeTool = (mockServer.addTool as jest.Mock).mock.calls.find(call => call[0].name === 'resize_terminal')[0];
+
+      await expect(
+        resizeTool.execute({ pid: 4321, cols: 80, rows: 24 }, { log: { info: jest.fn() } })
+      ).rejects.toThrow('is not running in a pseudo-terminal');
+      await expect(
+        resizeTool.execute({ pid: 99999, cols: 80, rows: 24 }, { log: { info: jest.fn() } })
+      ).rejects.toThrow('No active terminal session found with ID containing: 99999');
+    });
+
+    it('should reject sessions that have exited or do not exist', async () => {
+      const child = await startInteractiveSession();
+      child.emit('close', 0, null);
+
+      await expect(
+        writeInputTool.execute({ pid: 4321, input: 'y' }, { log: { info: jest.fn() } })
+      ).rejects.toThrow('has exited');
+      await expect(
+        writeInputTool.execute({ pid: 99999, input: 'y' }, { log: { info: jest.fn() } })
+      ).rejects.toThrow('No active terminal session found with ID containing: 99999');
+    });
   });
 
   describe('list_sessions Tool', () => {
@@ -0,0 +1,108 @@
+// src/__tests__/tools/terminal.pty.integration.test.ts
+
+// Spy on child_process while still spawning real processes
+jest.mock('child_process', () => {
+  const actual = jest.requireActual('child_process');
+  return { ...actual, spawn: jest.fn(actual.spawn) };
+});
+
+// Mock security module; the commands run for real in a temporary directory
+const mockValidatePath = jest.fn();
+jest.mock('../../utils/security.js', () => ({
+  validatePath: mockValidatePath,
+  allowedDirectories: ['/safe/'],
+}));
+
+// Mock fastmcp UserError
+const mockUserError = class extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'UserError';
+  }
+};
+
+jest.mock('fastmcp', () => ({
+  UserError: mockUserError,
+}));
+
+import { spawn } from 'child_process';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import * as pty from '../../utils/pty';
+import { registerTerminalTools, clearAllTerminalSessions } from '../../tools/terminal';
+
+// PTY sessions run through util-linux `script`, so this suite needs a real Linux terminal stack
+const describeOnLinux = process.platform === 'linux' ? describe : describe.skip;
+
+describeOnLinux('Terminal Tools PTY Integration Tests (real processes)', () => {
+  const mockServer = {
+    addTool: jest.fn(),
+  };
+  const context = { log: { info: jest.fn() } };
+  let tempDir: string;
+
+  const getTool = (name: string) => {
+    const call = mockServer.addTool.mock.calls.find(([tool]) => tool.name === name);
+    if (!call) throw new Error(`Tool not registered: ${name}`);
+    return call[0];
+  };
+
+  const readOutput = async (pid: number, since?: string) => JSON.parse(await getTool('read_output').execute({ pid, since }, context));
+
+  const waitFor = async <T>(probe: () => Promise<T>, done: (value: T) => boolean): Promise<T> => {
+    const deadline = Date.now() + 5000;
+    let value = await probe();
+    while (!done(value) && Date.now() < deadline) {
+      await new Promise(resolve => setTimeout(resolve, 50));
+      value = await probe();
+    }
+    return value;
+  };
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    tempDir = fs.realpathSync(fs.mkdtempSync(path.join(os.tmpdir(), 'terminal-pty-')));
+    mockValidatePath.mockImplementation(async (requested: string) => requested);
+    registerTerminalTools(mockServer as any);
+  });
+
+  afterEach(() => {
+    clearAllTerminalSessions();
+    fs.rmSync(tempDir, { recursive: true, force: true });
+  });
+
+  it('should report the window size, resize the terminal and deliver ^C as a keystroke', async () => {
+    const findSpy = jest.spyOn(pty, 'findPtyDevice');
+    const resizeSpy = jest.spyOn(pty, 'resizePtyDevice');
+
+    await getTool('execute_command').execute({
+      command: 'stty size; while read line; do stty size; done',
+      pty: true,
+      cols: 100,
+      rows: 40,
+      timeout_ms: 500,
+      cwd: tempDir,
+    }, context);
+    expect(spawn).toHaveBeenCalledWith('script', expect.arrayContaining(['-c']), expect.anything());
+
+    const { sessions: [session] } = JSON.parse(await getTool('list_sessions').execute({}, context));
+    const initial = await waitFor(() => readOutput(session.pid, '0:0'), result => result.output.includes('40 100'));
+    expect(initial.output).toContain('40 100');
+
+    await getTool('resize_terminal').execute({ pid: session.pid, cols: 90, rows: 30 }, context);
+    expect(findSpy).toHaveBeenCalledWith(session.pid);
+    expect(resizeSpy).toHaveBeenCalledWith(expect.stringMatching(/^\/dev\/pts\/\d+$/), 90, 30);
+
+    const resized = await getTool('write_input').execute({ pid: session.pid, input: '', newline: true, settle_ms: 300, max_wait_ms: 5000 }, context);
+    expect(JSON.parse(resized).output).toContain('30 90');
+
+    await getTool('write_input').execute({ pid: session.pid, input: '', newline: false, control: 'ctrl_c', settle_ms: 0, max_wait_ms: 0 }, context);
+    const interrupted = await waitFor(() => readOutput(session.pid), result => !result.isActive);
+    expect(interrupted.isActive).toBe(false);
+    expect(interrupted.exitCode).not.toBe(0);
+
+    findSpy.mockRestore();
+    resizeSpy.mockRestore();
+  });
+});
@@ -0,0 +1,44 @@
+// src/__tests__/utils/ansi.test.ts
+
+import { ANSI_MAX_PENDING_SEQUENCE_LENGTH, completeSequencesLength, renderTerminalOutput, stripAnsi } from '../../utils/ansi';
+
+describe('stripAnsi', () => {
+  it('should remove CSI, OSC and two-byte escape sequences', () => {
+    expect(stripAnsi('\x1b[1;31mred\x1b[0m plain')).toBe('red plain');
+    expect(stripAnsi('\x1b]0;window title\x07text')).toBe('text');
+    expect(stripAnsi('\x1b]8;;https://example.com\x1b\\link\x1b]8;;\x1b\\')).toBe('link');
+    expect(stripAnsi('\x1b(Bkeep\x1b=')).toBe('keep');
+    expect(stripAnsi('no escapes\r\n')).toBe('no escapes\r\n');
+  });
+});
+
+describe('renderTerminalOutput', () => {
+  it('should collapse carriage-return redraws and apply erase-in-line', () => {
+    expect(renderTerminalOutput('10%\r50%\r100%\r\ndone\r\n')).toBe('100%\ndone');
+    expect(renderTerminalOutput('downloading 123 files\r\x1b[Kok\n')).toBe('ok');
+    expect(renderTerminalOutput('abcdef\rXY\n')).toBe('XYcdef');
+    expect(renderTerminalOutput('old\x1b[2K\rnew')).toBe('new');
+  });
+
+  it('should handle backspace, column moves and stray control characters', () => {
+    expect(renderTerminalOutput('ab\bc')).toBe('ac');
+    expect(renderTerminalOutput('name\x1b[10Gvalue')).toBe('name     value');
+    expect(renderTerminalOutput('\x07bell\x7f\tend')).toBe('bell\tend');
+  });
+});
+
+describe('completeSequencesLength', () => {
+  it('should stop before an escape sequence that is still being written', () => {
+    expect(completeSequencesLength('ok \x1b[3')).toBe(3);
+    expect(completeSequencesLength('ok \x1b')).toBe(3);
+    expect(completeSequencesLength('ok \x1b]0;title')).toBe(3);
+    expect(completeSequencesLength('ok \x1b(')).toBe(3);
+  });
+
+  it('should keep complete sequences and give up on overlong ones', () => {
+    const stray = '\x1b]' + 'x'.repeat(ANSI_MAX_PENDING_SEQUENCE_LENGTH);
+    for (const text of ['\x1b[32mok\x1b[0m', '\x1b]0;title\x07ok', '\x1b]8;;url\x1b\\', '\x1b(B', 'plain', stray]) {
+      expect(completeSequencesLength(text)).toBe(text.length);
+    }
+  });
+});
@@ -0,0 +1,113 @@
+// src/__tests__/utils/atomic-write.test.ts
+
+import * as fs from 'fs/promises';
+import * as os from 'os';
+import * as path from 'path';
+import { appendFileAtomic, moveFileAcrossDevices, writeFileAtomic } from '../../utils/atomic-write';
+
+describe('Atomic Write Utilities', () => {
+  let tempDir: string;
+
+  beforeEach(async () => {
+    tempDir = await fs.mkdtemp(path.join(os.tmpdir(), 'atomic-write-'));
+  });
+
+  afterEach(async () => {
+    await fs.rm(tempDir, { recursive: true, force: true });
+  });
+
+  const leftoverTempFiles = async () =>
+    (await fs.readdir(tempDir)).filter(name => name.endsWith('.tmp'));
+
+  describe('writeFileAtomic', () => {
+    it('should create a new file with the given content', async () => {
+      const target = path.join(tempDir, 'new.txt');
+
+      await writeFileAtomic(target, 'hello');
+
+      expect(await fs.readFile(target, 'utf-8')).toBe('hello');
+      expect(await leftoverTempFiles()).toEqual([]);
+    });
+
+    it('should replace an existing file and preserve its mode', async () => {
+      const target = path.join(tempDir, 'script.sh');
+      await fs.writeFile(target, 'old');
+      await fs.chmod(target, 0o751);
+
+      await writeFileAtomic(target, 'new');
+
+      expect(await fs.readFile(target, 'utf-8')).toBe('new');
+      expect((await fs.stat(target)).mode & 0o777).toBe(0o751);
+    });
+
+    it('should write buffers and honour string encodings', async () => {
+      const binaryTarget = path.join(tempDir, 'data.bin');
+      const latinTarget = path.join(tempDir, 'latin.txt');
+
+      await writeFileAtomic(binaryTarget, Buffer.from([0x00, 0xff, 0x10]));
+      await writeFileAtomic(latinTarget, 'café', 'latin1');
+
+      expect([...(await fs.readFile(binaryTarget))]).toEqual([0x00, 0xff, 0x10]);
+      expect([...(await fs.readFile(latinTarget))]).toEqual([0x63, 0x61, 0x66, 0xe9]);
+    });
+
+    it('should leave the original file untouched and clean up when the write fails', async () => {
+      const target = path.join(tempDir, 'keep.txt');
+      await fs.writeFile(target, 'original');
+
+      await expect(writeFileAtomic(path.join(tempDir, 'missing-dir', 'x.txt'), 'data')).rejects.toThrow();
+      expect(await fs.readFile(target, 'utf-8')).toBe('original');
+      expect(await leftoverTempFiles()).toEqual([]);
+    });
+  });
+
+  describe('appendFileAtomic', () => {
+    it('should append to an existing file and preserve its mode', async () => {
+      const target = path.join(tempDir, 'log.txt');
+      await fs.writeFile(target, 'line 1\n');
+      await fs.chmod(target, 0o640);
+
+      await appendFileAtomic(target, 'line 2\n');
+
+      expect(await fs.readFile(target, 'utf-8')).toBe('line 1\nline 2\n');
+      expect((await fs.stat(target)).mode & 0o777).toBe(0o640);
+      expect(await leftoverTempFiles()).toEqual([]);
+    });
+
+    it('should create the file when it does not exist', async () => {
+      const target = path.join(tempDir, 'fresh.txt');
+
+      await appendFileAtomic(target, 'first');
+
+      expect(await fs.readFile(target, 'utf-8')).toBe('first');
+    });
+  });
+
+  describe('moveFileAcrossDevices', () => {
+    it('should move content, mode and timestamps and remove the source', async () => {
+      const source = path.join(tempDir, 'tool.sh');
+      const destination = path.join(tempDir, 'moved.sh');
+      await fs.writeFile(source, '#!/bin/sh\n');
+      await fs.chmod(source, 0o750);
+      const mtime = new Date('2024-01-02T03:04:05.000Z');
+      await fs.utimes(source, mtime, mtime);
+
+      await moveFileAcrossDevices(source, destination);
+
+      const stats = await fs.stat(destination);
+      expect(await fs.readFile(destination, 'utf-8')).toBe('#!/bin/sh\n');
+      expect(stats.mode & 0o777).toBe(0o750);
+      expect(stats.mtime.getTime()).toBe(mtime.getTime());
+      await expect(fs.stat(source)).rejects.toMatchObject({ code: 'ENOENT' });
+      expect(await leftoverTempFiles()).toEqual([]);
+    });
+
+    it('should keep the source when the copy cannot be created', async () => {
+      const source = path.join(tempDir, 'keep.txt');
+      await fs.writeFile(source, 'data');
+
+      await expect(moveFileAcrossDevices(source, path.join(tempDir, 'missing-dir', 'x.txt'))).rejects.toThrow();
+      expect(await fs.readFile(source, 'utf-8')).toBe('data');
+    });
+  });
+});
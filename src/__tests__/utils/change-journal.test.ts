@@ -0,0 +1,134 @@
+// src/__tests__/utils/change-journal.test.ts
+
+import * as fs from 'fs/promises';
+import * as os from 'os';
+import * as path from 'path';
+import {
+  clearChangeJournal,
+  getLastChange,
+  listChanges,
+  recordChange,
+  restoreChange,
+  snapshotFile,
+} from '../../utils/change-journal';
+
+describe('Change Journal', () => {
+  let tempDir: string;
+
+  beforeEach(async () => {
+    tempDir = await fs.mkdtemp(path.join(os.tmpdir(), 'change-journal-'));
+    clearChangeJournal();
+  });
+
+  afterEach(async () => {
+    clearChangeJournal();
+    await fs.rm(tempDir, { recursive: true, force: true });
+  });
+
+  it('should snapshot existing and missing files', async () => {
+    const existing = path.join(tempDir, 'a.txt');
+    await fs.writeFile(existing, 'alpha');
+
+    const present = await snapshotFile(existing);
+    const missing = await snapshotFile(path.join(tempDir, 'missing.txt'));
+
+    expect(present.existed).toBe(true);
+    expect(present.content?.toString()).toBe('alpha');
+    expect(missing).toMatchObject({ existed: false, content: null, restorable: true });
+  });
+
+  it('should revert every file of a multi-file change in one restore', async () => {
+    const modified = path.join(tempDir, 'modified.sh');
+    const deleted = path.join(tempDir, 'deleted.txt');
+    const created = path.join(tempDir, 'created.txt');
+    await fs.writeFile(modified, 'before');
+    await fs.chmod(modified, 0o750);
+    await fs.writeFile(deleted, 'keep me');
+
+    const snapshots = await Promise.all([modified, deleted, created].map(snapshotFile));
+    await fs.writeFile(modified, 'after');
+    await fs.unlink(deleted);
+    await fs.writeFile(created, 'new');
+    const change = await recordChange('bulk_edit', 'test', snapshots);
+
+    expect(listChanges()[0].files.map(file => file.action)).toEqual(['modified', 'deleted', 'created']);
+
+    const result = await restoreChange(change!.id);
+
+    expect(await fs.readFile(modified, 'utf-8')).toBe('before');
+    expect((await fs.stat(modified)).mode & 0o777).toBe(0o750);
+    expect(await fs.readFile(deleted, 'utf-8')).toBe('keep me');
+    await expect(fs.stat(created)).rejects.toMatchObject({ code: 'ENOENT' });
+    expect(result.removedFiles).toEqual([created]);
+  });
+
+  it('should journal the restore itself so it can be redone', async () => {
+    const target = path.join(tempDir, 'file.txt');
+    await fs.writeFile(target, 'v1');
+    const snapshot = await snapshotFile(target);
+    await fs.writeFile(target, 'v2');
+    const change = await recordChange('write_file', 'test', [snapshot]);
+
+    const result = await restoreChange(change!.id);
+    expect(await fs.readFile(target, 'utf-8')).toBe('v1');
+    expect(getLastChange()).toBeUndefined();
+
+    await restoreChange(result.redoChangeId!);
+    expect(await fs.readFile(target, 'utf-8')).toBe('v2');
+  });
+
+  it('should walk back through earlier changes on repeated undo, skipping restores', async () => {
+    const target = path.join(tempDir, 'file.txt');
+    await fs.writeFile(target, 'v1');
+    let snapshot = await snapshotFile(target);
+    await fs.writeFile(target, 'v2');
+    const first = await recordChange('write_file', 'first', [snapshot]);
+    snapshot = await snapshotFile(target);
+    await fs.writeFile(target, 'v3');
+    const second = await recordChange('write_file', 'second', [snapshot]);
+
+    expect(getLastChange()?.id).toBe(second!.id);
+    await restoreChange(second!.id);
+    expect(getLastChange()?.id).toBe(first!.id);
+    await restoreChange(first!.id);
+    expect(await fs.readFile(target, 'utf-8')).toBe('v1');
+    expect(getLastChange()).toBeUndefined();
+  });
+
+  it('should undo a redone change again instead of an older one', async () => {
+    const first = path.join(tempDir, 'a.txt');
+    const second = path.join(tempDir, 'b.txt');
+    await fs.writeFile(first, 'a1');
+    await fs.writeFile(second, 'b1');
+    let snapshot = await snapshotFile(first);
+    await fs.writeFile(first, 'a2');
+    await recordChange('write_file', 'first', [snapshot]);
+    snapshot = await snapshotFile(second);
+    await fs.writeFile(second, 'b2');
+    const change = await recordChange('write_file', 'second', [snapshot]);
+
+    const undo = await restoreChange(getLastChange()!.id);
+    await restoreChange(undo.redoChangeId!);
+    expect(await fs.readFile(second, 'utf-8')).toBe('b2');
+
+    expect(getLastChange()?.id).toBe(change!.id);
+    await restoreChange(getLastChange()!.id);
+    expect(await fs.readFile(first, 'utf-8')).toBe('a2');
+    expect(await fs.readFile(second, 'utf-8')).toBe('b1');
+  });
+
+  it('should refuse conflicting restores and reject changes that were already undone', async () => {
+    const target = path.join(tempDir, 'file.txt');
+    await fs.writeFile(target, 'v1');
+    const snapshot = await snapshotFile(target);
+    await fs.writeFile(target, 'v2');
+    const change = await recordChange('edit_file', 'test', [snapshot]);
+    await fs.writeFile(target, 'v3');
+
+    await expect(restoreChange(change!.id)).rejects.toThrow('modified after the change was made');
+    expect(await fs.readFile(target, 'utf-8')).toBe('v3');
+
+    await restoreChange(change!.id, { force: true });
+    await expect(restoreChange(change!.id)).rejects.toThrow('already been undone');
+  });
+});
@@ -0,0 +1,128 @@
+// src/__tests__/utils/directory-operations.test.ts
+
+import * as fs from 'fs/promises';
+import * as os from 'os';
+import * as path from 'path';
+import {
+  executeDirectoryCopy,
+  planDirectoryCopy,
+  removeMovedEntries,
+  snapshotOverwrittenFiles,
+  walkDirectory,
+} from '../../utils/directory-operations';
+import { clearChangeJournal, recordChange, restoreChange } from '../../utils/change-journal';
+
+describe('Directory Operations', () => {
+  let tempDir: string;
+  let source: string;
+
+  beforeEach(async () => {
+    tempDir = await fs.mkdtemp(path.join(os.tmpdir(), 'directory-operations-'));
+    source = path.join(tempDir, 'src');
+    await fs.mkdir(path.join(source, 'nested'), { recursive: true });
+    await fs.writeFile(path.join(source, 'a.txt'), 'alpha');
+    await fs.writeFile(path.join(source, 'nested', 'b.sh'), 'beta');
+    await fs.chmod(path.join(source, 'nested', 'b.sh'), 0o750);
+    await fs.symlink('../a.txt', path.join(source, 'nested', 'link'));
+  });
+
+  afterEach(async () => {
+    await fs.rm(tempDir, { recursive: true, force: true });
+  });
+
+  it('should walk entries in order without following symlinks', async () => {
+    const entries = await walkDirectory(source);
+
+    expect(entries.map(entry => [entry.relativePath, entry.type])).toEqual([
+      ['a.txt', 'file'],
+      ['nested', 'directory'],
+      [path.join('nested', 'b.sh'), 'file'],
+      [path.join('nested', 'link'), 'symlink'],
+    ]);
+  });
+
+  it('should copy files, modes and symlinks into a new directory', async () => {
+    const destination = path.join(tempDir, 'copy');
+
+    const plan = await planDirectoryCopy(source, destination, 'error');
+    await executeDirectoryCopy(plan);
+
+    expect(plan.entries.every(entry => entry.action === 'create')).toBe(true);
+    expect(await fs.readFile(path.join(destination, 'nested', 'b.sh'), 'utf-8')).toBe('beta');
+    expect((await fs.stat(path.join(destination, 'nested', 'b.sh'))).mode & 0o777).toBe(0o750);
+    expect(await fs.readlink(path.join(destination, 'nested', 'link'))).toBe('../a.txt');
+  });
+
+  it('should apply merge and overwrite policies to an existing destination', async () => {
+    const destination = path.join(tempDir, 'existing');
+    await fs.mkdir(destination);
+    await fs.writeFile(path.join(destination, 'a.txt'), 'kept');
+
+    await expect(planDirectoryCopy(source, destination, 'error')).rejects.toThrow('Destination directory already exists');
+
+    const merge = await planDirectoryCopy(source, destination, 'merge');
+    await executeDirectoryCopy(merge);
+    expect(merge.entries.find(entry => entry.relativePath === 'a.txt')?.action).toBe('skip');
+    expect(await fs.readFile(path.join(destination, 'a.txt'), 'utf-8')).toBe('kept');
+    expect(await fs.readFile(path.join(destination, 'nested', 'b.sh'), 'utf-8')).toBe('beta');
+
+    const overwrite = await planDirectoryCopy(source, destination, 'overwrite');
+    await executeDirectoryCopy(overwrite);
+    expect(overwrite.entries.find(entry => entry.relativePath === 'nested')?.action).toBe('exists');
+    expect(await fs.readFile(path.join(destination, 'a.txt'), 'utf-8')).toBe('alpha');
+  });
+
+  it('should journal overwritten files so copies and moves can be undone', async () => {
+    clearChangeJournal();
+    const destination = path.join(tempDir, 'existing');
+    await fs.mkdir(destination);
+    await fs.writeFile(path.join(destination, 'a.txt'), 'kept');
+
+    const copy = await planDirectoryCopy(source, destination, 'overwrite');
+    const copySnapshots = await snapshotOverwrittenFiles(copy, false);
+    expect(copySnapshots.map(snapshot => snapshot.path)).toEqual([path.join(destination, 'a.txt')]);
+    await executeDirectoryCopy(copy);
+    const copyChange = await recordChange('copy_directory', 'test', copySnapshots);
+    expect(await fs.readFile(path.join(destination, 'a.txt'), 'utf-8')).toBe('alpha');
+
+    await restoreChange(copyChange!.id);
+    expect(await fs.readFile(path.join(destination, 'a.txt'), 'utf-8')).toBe('kept');
+
+    const move = await planDirectoryCopy(source, destination, 'overwrite');
+    const moveSnapshots = await snapshotOverwrittenFiles(move, true);
+    await executeDirectoryCopy(move);
+    await removeMovedEntries(move);
+    const moveChange = await recordChange('move_directory', 'test', moveSnapshots);
+    await expect(fs.stat(source)).rejects.toMatchObject({ code: 'ENOENT' });
+
+    await restoreChange(moveChange!.id);
+    expect(await fs.readFile(path.join(destination, 'a.txt'), 'utf-8')).toBe('kept');
+    expect(await fs.readFile(path.join(source, 'a.txt'), 'utf-8')).toBe('alpha');
+  });
+
+  it('should report type conflicts and refuse copies into the source', async () => {
+    const destination = path.join(tempDir, 'conflict');
+    await fs.mkdir(destination);
+    await fs.writeFile(path.join(destination, 'nested'), 'a file where the source has a directory');
+
+    const plan = await planDirectoryCopy(source, destination, 'overwrite');
+
+    expect(plan.conflicts).toEqual(['nested: source directory would replace a file']);
+    await expect(executeDirectoryCopy(plan)).rejects.toThrow('Cannot copy with 1 conflict(s)');
+    await expect(planDirectoryCopy(source, path.join(source, 'nested', 'inner'), 'error')).rejects.toThrow('inside it');
+  });
+
+  it('should remove moved entries and keep the ones skipped during a merge', async () => {
+    const destination = path.join(tempDir, 'target');
+    await fs.mkdir(destination);
+    await fs.writeFile(path.join(destination, 'a.txt'), 'kept');
+
+    const plan = await planDirectoryCopy(source, destination, 'merge');
+    await executeDirectoryCopy(plan);
+    const leftovers = await removeMovedEntries(plan);
+
+    expect(leftovers).toEqual(['a.txt']);
+    expect(await fs.readdir(source)).toEqual(['a.txt']);
+    expect(await fs.readFile(path.join(destination, 'nested', 'b.sh'), 'utf-8')).toBe('beta');
+  });
+});
@@ -0,0 +1,86 @@
+// src/__tests__/utils/directory-tree.test.ts
+
+import * as fs from 'fs/promises';
+import * as os from 'os';
+import * as path from 'path';
+import { collectDirectoryTree, renderAsciiTree } from '../../utils/directory-tree';
+
+describe('Directory tree', () => {
+  let tempDir: string;
+
+  beforeEach(async () => {
+    tempDir = await fs.mkdtemp(path.join(os.tmpdir(), 'tree-'));
+    await fs.mkdir(path.join(tempDir, 'src', 'utils'), { recursive: true });
+    await fs.mkdir(path.join(tempDir, 'node_modules', 'pkg'), { recursive: true });
+    await fs.mkdir(path.join(tempDir, 'docs'));
+    await fs.writeFile(path.join(tempDir, 'src', 'index.ts'), 'export {};');
+    await fs.writeFile(path.join(tempDir, 'src', 'utils', 'a.ts'), 'export const a = 1;');
+    await fs.writeFile(path.join(tempDir, 'docs', 'guide.md'), '# Guide');
+    await fs.writeFile(path.join(tempDir, 'node_modules', 'pkg', 'index.js'), '');
+    await fs.writeFile(path.join(tempDir, '.env'), 'SECRET=1');
+    await fs.writeFile(path.join(tempDir, 'README.md'), 'hello');
+  });
+
+  afterEach(async () => {
+    await fs.rm(tempDir, { recursive: true, force: true });
+  });
+
+  it('should render the default tree without hidden entries or node_modules', async () => {
+    const { root } = await collectDirectoryTree(tempDir);
+
+    expect(renderAsciiTree(root)).toBe([
+      path.basename(tempDir),
+      '├── docs',
+      '│   └── guide.md',
+      '├── src',
+      '│   ├── utils',
+      '│   │   └── a.ts',
+      '│   └── index.ts',
+      '└── README.md',
+    ].join('\n'));
+  });
+
+  it('should stop expanding at maxDepth and honor showHidden and exclude', async () => {
+    const { root } = await collectDirectoryTree(tempDir, { maxDepth: 1, showHidden: true, exclude: ['docs'] });
+
+    expect(root.children!.map(child => child.name)).toEqual(['node_modules', 'src', '.env', 'README.md']);
+    expect(root.children!.find(child => child.name === 'src')!.children).toBeUndefined();
+  });
+
+  it('should keep only directories that contain included files', async () => {
+    const { root } = await collectDirectoryTree(tempDir, { include: ['*.ts'] });
+
+    expect(renderAsciiTree(root).split('\n').slice(1)).toEqual([
+      '└── src',
+      '    ├── utils',
+      '    │   └── a.ts',
+      '    └── index.ts',
+    ]);
+  });
+
+  it('should elide entries beyond the per-directory and total caps', async () => {
+    const perDirectory = await collectDirectoryTree(tempDir, { maxEntriesPerDirectory: 1 });
+    expect(renderAsciiTree(perDirectory.root).split('\n').slice(1)).toEqual([
+      '├── docs',
+      '│   └── guide.md',
+      '└── … 2 more',
+    ]);
+    expect(perDirectory.truncated).toBe(false);
+
+    const total = await collectDirectoryTree(tempDir, { maxTotalEntries: 2 });
+    expect(total.totalEntries).toBe(2);
+    expect(total.truncated).toBe(true);
+    expect(total.root.omitted).toBe(2);
+  });
+
+  it('should collect sizes and modification times on request', async () => {
+    const { root } = await collectDirectoryTree(tempDir, { withSize: true, withModified: true, maxDepth: 1 });
+    const readme = root.children!.find(child => child.name === 'README.md')!;
+    const docs = root.children!.find(child => child.name === 'docs')!;
+
+    expect(readme.size).toBe(5);
+    expect(Date.parse(readme.modified!)).not.toBeNaN();
+    expect(docs.size).toBeUndefined();
+    expect(docs.modified).toBeDefined();
+  });
+});
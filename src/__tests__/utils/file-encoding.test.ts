@@ -0,0 +1,118 @@
+// src/__tests__/utils/file-encoding.test.ts
+
+import {
+  FileEncodingSchema,
+  decodeFileContent,
+  detectContentEncoding,
+  detectMimeType,
+  encodeFileContent,
+} from '../../utils/file-encoding';
+
+describe('detectContentEncoding', () => {
+  it('should detect plain UTF-8 text without a BOM', () => {
+    expect(detectContentEncoding(Buffer.from('héllo wörld', 'utf8'))).toEqual({
+      encoding: 'utf-8',
+      bom: false,
+      isBinary: false,
+    });
+  });
+
+  it('should detect a UTF-8 BOM', () => {
+    const buffer = Buffer.concat([Buffer.from([0xef, 0xbb, 0xbf]), Buffer.from('text')]);
+    expect(detectContentEncoding(buffer)).toEqual({ encoding: 'utf-8', bom: true, isBinary: false });
+  });
+
+  it('should detect UTF-16 BOMs in both byte orders', () => {
+    const le = Buffer.concat([Buffer.from([0xff, 0xfe]), Buffer.from('hi', 'utf16le')]);
+    const be = Buffer.concat([Buffer.from([0xfe, 0xff]), Buffer.from('hi', 'utf16le').swap16()]);
+
+    expect(detectContentEncoding(le).encoding).toBe('utf-16le');
+    expect(detectContentEncoding(be).encoding).toBe('utf-16be');
+  });
+
+  it('should classify content with NUL bytes as binary', () => {
+    expect(detectContentEncoding(Buffer.from([0x01, 0x00, 0x02])).isBinary).toBe(true);
+  });
+
+  it('should fall back to latin1 for invalid UTF-8 without NUL bytes', () => {
+    expect(detectContentEncoding(Buffer.from([0x63, 0x61, 0x66, 0xe9])).encoding).toBe('latin1');
+  });
+
+  it('should treat empty content as UTF-8 text', () => {
+    expect(detectContentEncoding(Buffer.alloc(0))).toEqual({ encoding: 'utf-8', bom: false, isBinary: false });
+  });
+});
+
+describe('detectMimeType', () => {
+  it('should recognise formats from magic bytes regardless of extension', () => {
+    const png = Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a, 0x00]);
+    expect(detectMimeType(png, '/safe/not-really.txt')).toBe('image/png');
+    expect(detectMimeType(Buffer.from('%PDF-1.7'), '/safe/doc')).toBe('application/pdf');
+  });
+
+  it('should fall back to the extension and then to generic types', () => {
+    expect(detectMimeType(Buffer.from('{}'), '/safe/data.json')).toBe('application/json');
+    expect(detectMimeType(Buffer.from('plain'), '/safe/README')).toBe('text/plain');
+    expect(detectMimeType(Buffer.from([0x01, 0x00]), '/safe/blob')).toBe('application/octet-stream');
+  });
+});
+
+describe('decodeFileContent', () => {
+  it('should strip a detected BOM from the decoded text', () => {
+    const buffer = Buffer.concat([Buffer.from([0xff, 0xfe]), Buffer.from('hello', 'utf16le')]);
+    const decoded = decodeFileContent(buffer, '/safe/file.txt');
+
+    expect(decoded.text).toBe('hello');
+    expect(decoded.encoding).toBe('utf-16le');
+    expect(decoded.bom).toBe(true);
+  });
+
+  it('should return binary content as base64 with its MIME type', () => {
+    const buffer = Buffer.from([0x1f, 0x8b, 0x08, 0x00]);
+    const decoded = decodeFileContent(buffer, '/safe/archive.gz');
+
+    expect(decoded.isBinary).toBe(true);
+    expect(decoded.mimeType).toBe('application/gzip');
+    expect(decoded.text).toBe(buffer.toString('base64'));
+  });
+
+  it('should honour an explicit encoding even for content that looks binary', () => {
+    const buffer = Buffer.from('hi', 'utf16le');
+    const decoded = decodeFileContent(buffer, '/safe/file.txt', 'utf-16le');
+
+    expect(decoded.isBinary).toBe(false);
+    expect(decoded.text).toBe('hi');
+  });
+
+  it('should return base64 when base64 is requested explicitly', () => {
+    const decoded = decodeFileContent(Buffer.from('text'), '/safe/file.txt', 'base64');
+    expect(decoded.text).toBe(Buffer.from('text').toString('base64'));
+  });
+});
+
+describe('encodeFileContent', () => {
+  it('should round-trip every text encoding including its BOM', () => {
+    const originals = [
+      Buffer.concat([Buffer.from([0xef, 0xbb, 0xbf]), Buffer.from('ünïcode', 'utf8')]),
+      Buffer.concat([Buffer.from([0xff, 0xfe]), Buffer.from('ünïcode', 'utf16le')]),
+      Buffer.concat([Buffer.from([0xfe, 0xff]), Buffer.from('ünïcode', 'utf16le').swap16()]),
+      Buffer.from('caf\xe9', 'latin1'),
+    ];
+
+    for (const original of originals) {
+      const decoded = decodeFileContent(original);
+      expect(encodeFileContent(decoded.text, decoded).equals(original)).toBe(true);
+    }
+  });
+
+  it('should refuse to encode binary content as text', () => {
+    expect(() => encodeFileContent('x', { encoding: 'binary', bom: false })).toThrow('Binary content cannot be re-encoded as text');
+  });
+});
+
+describe('FileEncodingSchema', () => {
+  it('should accept supported encodings and reject others', () => {
+    expect(FileEncodingSchema.safeParse('latin1').success).toBe(true);
+    expect(FileEncodingSchema.safeParse('ascii').success).toBe(false);
+  });
+});
@@ -0,0 +1,63 @@
+// src/__tests__/utils/file-inspection.test.ts
+
+import * as fs from 'fs/promises';
+import * as os from 'os';
+import * as path from 'path';
+import { createHash } from 'crypto';
+import { analyzeLines, inspectFileContent } from '../../utils/file-inspection';
+
+describe('analyzeLines', () => {
+  it('should count lines and classify line endings', () => {
+    expect(analyzeLines('')).toEqual({ lineCount: 0, lineEndings: 'none', finalNewline: false });
+    expect(analyzeLines('one')).toEqual({ lineCount: 1, lineEndings: 'none', finalNewline: false });
+    expect(analyzeLines('a\nb\n')).toEqual({ lineCount: 2, lineEndings: 'lf', finalNewline: true });
+    expect(analyzeLines('a\r\nb')).toEqual({ lineCount: 2, lineEndings: 'crlf', finalNewline: false });
+    expect(analyzeLines('a\rb\r')).toEqual({ lineCount: 2, lineEndings: 'cr', finalNewline: true });
+    expect(analyzeLines('a\r\nb\nc')).toEqual({ lineCount: 3, lineEndings: 'mixed', finalNewline: false });
+  });
+});
+
+describe('inspectFileContent', () => {
+  let tempDir: string;
+
+  beforeEach(async () => {
+    tempDir = await fs.mkdtemp(path.join(os.tmpdir(), 'inspect-'));
+  });
+
+  afterEach(async () => {
+    await fs.rm(tempDir, { recursive: true, force: true });
+  });
+
+  it('should describe text files and compute requested hashes', async () => {
+    const filePath = path.join(tempDir, 'notes.md');
+    const content = Buffer.concat([Buffer.from([0xef, 0xbb, 0xbf]), Buffer.from('# Title\r\nbody\r\n')]);
+    await fs.writeFile(filePath, content);
+
+    const info = await inspectFileContent(filePath, content.length, ['sha256', 'md5', 'sha256']);
+
+    expect(info).toEqual({
+      mimeType: 'text/markdown',
+      isBinary: false,
+      encoding: 'utf-8',
+      bom: true,
+      sampled: false,
+      lineCount: 2,
+      lineEndings: 'crlf',
+      finalNewline: true,
+      hashes: {
+        sha256: createHash('sha256').update(content).digest('hex'),
+        md5: createHash('md5').update(content).digest('hex'),
+      },
+    });
+  });
+
+  it('should sniff binary files from magic bytes without line statistics', async () => {
+    const filePath = path.join(tempDir, 'image.dat');
+    const content = Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a, 0x00, 0x00]);
+    await fs.writeFile(filePath, content);
+
+    const info = await inspectFileContent(filePath, content.length);
+
+    expect(info).toEqual({ mimeType: 'image/png', isBinary: true, encoding: 'binary', bom: false, sampled: false });
+  });
+});
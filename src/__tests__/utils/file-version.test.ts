@@ -0,0 +1,57 @@
+// src/__tests__/utils/file-version.test.ts
+
+import * as fs from 'fs/promises';
+import * as os from 'os';
+import * as path from 'path';
+import {
+  ExpectedVersionSchema,
+  fileVersionMatches,
+  formatFileVersion,
+  getFileVersion,
+  sha256Hex,
+} from '../../utils/file-version';
+
+describe('File Version Utilities', () => {
+  let tempDir: string;
+
+  beforeEach(async () => {
+    tempDir = await fs.mkdtemp(path.join(os.tmpdir(), 'file-version-'));
+  });
+
+  afterEach(async () => {
+    await fs.rm(tempDir, { recursive: true, force: true });
+  });
+
+  it('should report mtime, size and content hash', async () => {
+    const target = path.join(tempDir, 'a.txt');
+    await fs.writeFile(target, 'hello');
+    const stats = await fs.stat(target);
+
+    const version = await getFileVersion(target);
+
+    expect(version).toEqual({ mtime: stats.mtime, size: 5, sha256: sha256Hex('hello') });
+    expect(formatFileVersion(version!)).toBe(`mtime: ${stats.mtime.toISOString()}, sha256: ${sha256Hex('hello')}`);
+  });
+
+  it('should return null for missing files', async () => {
+    expect(await getFileVersion(path.join(tempDir, 'missing.txt'))).toBeNull();
+  });
+
+  it('should match expectations given as ISO strings, epoch milliseconds or hashes', () => {
+    const version = { mtime: new Date('2024-05-01T10:00:00.123Z'), size: 5, sha256: sha256Hex('hello') };
+
+    expect(fileVersionMatches(version, {})).toBe(true);
+    expect(fileVersionMatches(version, { expectedMtime: '2024-05-01T10:00:00.123Z' })).toBe(true);
+    expect(fileVersionMatches(version, { expectedMtime: version.mtime.getTime() })).toBe(true);
+    expect(fileVersionMatches(version, { expectedSha256: sha256Hex('hello').toUpperCase() })).toBe(true);
+    expect(fileVersionMatches(version, { expectedMtime: '2024-05-01T10:00:01.000Z' })).toBe(false);
+    expect(fileVersionMatches(version, { expectedSha256: sha256Hex('bye') })).toBe(false);
+  });
+
+  it('should reject unparseable mtimes and malformed hashes', () => {
+    const version = { mtime: new Date(), size: 0, sha256: sha256Hex('') };
+
+    expect(() => fileVersionMatches(version, { expectedMtime: 'yesterday' })).toThrow('expectedMtime is not a valid date');
+    expect(ExpectedVersionSchema.safeParse({ expectedSha256: 'abc' }).success).toBe(false);
+  });
+});
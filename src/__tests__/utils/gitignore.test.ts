@@ -0,0 +1,91 @@
+// src/__tests__/utils/gitignore.test.ts
+
+import * as fs from 'fs/promises';
+import * as os from 'os';
+import * as path from 'path';
+import { glob } from 'glob';
+import { createIgnoreMatcher, evaluateIgnoreRules, parseIgnoreRules, toGlobIgnore } from '../../utils/gitignore';
+
+describe('Gitignore engine', () => {
+  let tempDir: string;
+
+  const write = async (relativePath: string, content = '') => {
+    await fs.mkdir(path.dirname(path.join(tempDir, relativePath)), { recursive: true });
+    await fs.writeFile(path.join(tempDir, relativePath), content);
+  };
+
+  beforeEach(async () => {
+    tempDir = await fs.realpath(await fs.mkdtemp(path.join(os.tmpdir(), 'gitignore-')));
+  });
+
+  afterEach(async () => {
+    await fs.rm(tempDir, { recursive: true, force: true });
+  });
+
+  it('should parse comments, negations, escapes and directory-only rules', () => {
+    const rules = parseIgnoreRules('# comment\n\n*.log\n!keep.log\n\\#hash\nbuild/\n/root-only\ndocs/*.md   \n', '/repo');
+
+    expect(rules.map(rule => [rule.pattern, rule.negated, rule.directoryOnly, rule.anchored])).toEqual([
+      ['*.log', false, false, false],
+      ['keep.log', true, false, false],
+      ['#hash', false, false, false],
+      ['build', false, true, false],
+      ['root-only', false, false, true],
+      ['docs/*.md', false, false, true],
+    ]);
+  });
+
+  it('should let the last matching rule win and anchor slash patterns to their base', () => {
+    const rules = parseIgnoreRules('*.log\n!keep.log\n/root-only\nbuild/\n', '/repo');
+
+    expect(evaluateIgnoreRules(rules, '/repo/a/debug.log', false)).toBe(true);
+    expect(evaluateIgnoreRules(rules, '/repo/a/keep.log', false)).toBe(false);
+    expect(evaluateIgnoreRules(rules, '/repo/root-only', false)).toBe(true);
+    expect(evaluateIgnoreRules(rules, '/repo/a/root-only', false)).toBeUndefined();
+    expect(evaluateIgnoreRules(rules, '/repo/build', true)).toBe(true);
+    expect(evaluateIgnoreRules(rules, '/repo/build', false)).toBeUndefined();
+  });
+
+  it('should combine nested .gitignore, .ignore and .git/info/exclude files', async () => {
+    await fs.mkdir(path.join(tempDir, '.git', 'info'), { recursive: true });
+    await write('.git/info/exclude', 'secret.txt\n');
+    await write('.gitignore', 'dist/\n*.log\n');
+    await write('packages/app/.gitignore', '!important.log\ngenerated/\n');
+    await write('packages/app/.ignore', 'scratch.md\n');
+
+    const matcher = createIgnoreMatcher([tempDir]);
+    const at = (relativePath: string) => path.join(tempDir, relativePath);
+
+    expect(matcher.isIgnored(at('secret.txt'), false)).toBe(true);
+    expect(matcher.isIgnored(at('dist'), true)).toBe(true);
+    expect(matcher.isIgnored(at('dist/deep/bundle.js'), false)).toBe(true);
+    expect(matcher.isIgnored(at('bin/tool.sh'), false)).toBe(false);
+    expect(matcher.isIgnored(at('packages/app/debug.log'), false)).toBe(true);
+    expect(matcher.isIgnored(at('packages/app/important.log'), false)).toBe(false);
+    expect(matcher.isIgnored(at('important.log'), false)).toBe(true);
+    expect(matcher.isIgnored(at('packages/app/generated/x.ts'), false)).toBe(true);
+    expect(matcher.isIgnored(at('packages/app/scratch.md'), false)).toBe(true);
+    expect(matcher.isIgnored(at('.git/config'), false)).toBe(true);
+    expect(matcher.isIgnored(path.join(os.tmpdir(), 'elsewhere.log'), false)).toBe(false);
+  });
+
+  it('should never re-include files below an ignored directory', async () => {
+    await write('.gitignore', 'vendor/\n!vendor/keep.js\n');
+    const matcher = createIgnoreMatcher([tempDir]);
+
+    expect(matcher.isIgnored(path.join(tempDir, 'vendor', 'keep.js'), false)).toBe(true);
+  });
+
+  it('should prune ignored directories when used as a glob ignore', async () => {
+    await write('.gitignore', 'node_modules/\n*.tmp\n');
+    await write('src/index.ts');
+    await write('src/cache.tmp');
+    await write('bin/cli.js');
+    await write('node_modules/pkg/index.js');
+
+    const matcher = createIgnoreMatcher([tempDir]);
+    const files = await glob('**/*', { cwd: tempDir, nodir: true, dot: true, ignore: toGlobIgnore(matcher, tempDir) });
+
+    expect(files.map(file => file.split(path.sep).join('/')).sort()).toEqual(['.gitignore', 'bin/cli.js', 'src/index.ts']);
+  });
+});
@@ -0,0 +1,44 @@
+// src/__tests__/utils/glob-match.test.ts
+
+import { globToRegExp, hasGlobMagic, matchesAnyGlob, matchesGlob, splitGlobBase } from '../../utils/glob-match';
+
+describe('Glob matching', () => {
+  it('should keep * and ? inside a single path segment', () => {
+    expect(globToRegExp('*.ts').test('index.ts')).toBe(true);
+    expect(globToRegExp('*.ts').test('src/index.ts')).toBe(false);
+    expect(globToRegExp('file?.md').test('file1.md')).toBe(true);
+    expect(globToRegExp('file?.md').test('file10.md')).toBe(false);
+  });
+
+  it('should let ** span zero or more directories', () => {
+    expect(matchesGlob('src/a.ts', 'src/**/*.ts')).toBe(true);
+    expect(matchesGlob('src/deep/er/a.ts', 'src/**/*.ts')).toBe(true);
+    expect(matchesGlob('lib/a.ts', 'src/**/*.ts')).toBe(false);
+    expect(matchesGlob('src/deep/file', 'src/**')).toBe(true);
+  });
+
+  it('should support braces, character classes and escapes', () => {
+    expect(matchesGlob('a.json', '*.{json,yaml}')).toBe(true);
+    expect(matchesGlob('a.yml', '*.{json,yaml}')).toBe(false);
+    expect(matchesGlob('v2.txt', 'v[0-9].txt')).toBe(true);
+    expect(matchesGlob('va.txt', 'v[!0-9].txt')).toBe(true);
+    expect(matchesGlob('v1.txt', 'v[!0-9].txt')).toBe(false);
+    expect(matchesGlob('a*b', 'a\\*b')).toBe(true);
+    expect(matchesGlob('axb', 'a\\*b')).toBe(false);
+  });
+
+  it('should match slash-free patterns against the last segment only', () => {
+    expect(matchesGlob('packages/app/node_modules', 'node_modules')).toBe(true);
+    expect(matchesGlob('dist/bundle.js', '/dist/*.js')).toBe(true);
+    expect(matchesAnyGlob('docs/readme.md', ['*.ts', '*.md'])).toBe(true);
+    expect(matchesAnyGlob('docs/readme.md', [])).toBe(false);
+  });
+
+  it('should split a glob into its literal base directory and pattern', () => {
+    expect(hasGlobMagic('/safe/src/*.ts')).toBe(true);
+    expect(hasGlobMagic('/safe/src/index.ts')).toBe(false);
+    expect(splitGlobBase('/safe/src/**/*.ts')).toEqual({ base: '/safe/src', pattern: '**/*.ts' });
+    expect(splitGlobBase('/*.md')).toEqual({ base: '/', pattern: '*.md' });
+    expect(splitGlobBase('*.md')).toEqual({ base: '.', pattern: '*.md' });
+  });
+});
@@ -0,0 +1,43 @@
+// src/__tests__/utils/output-buffer.test.ts
+
+import { createOutputBuffer } from '../../utils/output-buffer';
+
+describe('createOutputBuffer', () => {
+  it('should keep the newest output within the byte cap and count what was dropped', () => {
+    const buffer = createOutputBuffer(10);
+    buffer.append('line 1\n');
+    buffer.append('line 2\n');
+
+    expect(buffer.slice()).toBe(' 1\nline 2\n');
+    expect(buffer.retainedBytes()).toBe(10);
+    expect(buffer.droppedBytes()).toBe(4);
+    expect([buffer.start(), buffer.end()]).toEqual([4, 14]);
+
+    buffer.append('0123456789abc');
+    expect(buffer.slice()).toBe('3456789abc');
+    expect(buffer.droppedBytes()).toBe(17);
+  });
+
+  it('should slice from absolute offsets, clamped to the retained output', () => {
+    const buffer = createOutputBuffer(8);
+    buffer.append('abcdef');
+    expect(buffer.slice(4)).toBe('ef');
+
+    buffer.append('ghij');
+    expect(buffer.slice(4)).toBe('efghij');
+    expect(buffer.slice(0)).toBe('cdefghij');
+    expect(buffer.slice(buffer.end())).toBe('');
+    expect(buffer.slice(4, 8)).toBe('efgh');
+    expect(buffer.slice(0, 3)).toBe('c');
+  });
+
+  it('should never split multi-byte characters when dropping', () => {
+    const buffer = createOutputBuffer(5);
+    buffer.append('ééé');
+
+    expect(buffer.slice()).toBe('éé');
+    expect(buffer.retainedBytes()).toBe(4);
+    expect(buffer.droppedBytes()).toBe(2);
+    expect(buffer.start()).toBe(1);
+  });
+});
@@ -0,0 +1,19 @@
+// src/__tests__/utils/pty.test.ts
+
+import { buildPtyLaunch } from '../../utils/pty';
+
+describe('buildPtyLaunch', () => {
+  it('should run the command through util-linux script on Linux with the window size set first', () => {
+    const launch = buildPtyLaunch('/bin/bash', 'npm init', 100, 40, 'linux');
+
+    expect(launch.file).toBe('script');
+    expect(launch.args).toEqual(['-q', '-f', '-e', '-c', 'stty cols 100 rows 40 2>/dev/null; npm init', '/dev/null']);
+    expect(launch.env).toEqual({ TERM: 'xterm-256color', COLUMNS: '100', LINES: '40', SHELL: '/bin/bash' });
+  });
+
+  it('should pass the shell explicitly to BSD script and reject unsupported platforms', () => {
+    expect(buildPtyLaunch('/bin/zsh', 'top', 80, 24, 'darwin').args)
+      .toEqual(['-q', '/dev/null', '/bin/zsh', '-c', 'stty cols 80 rows 24 2>/dev/null; top']);
+    expect(() => buildPtyLaunch('cmd', 'dir', 80, 24, 'win32')).toThrow('PTY mode is not supported on win32');
+  });
+});
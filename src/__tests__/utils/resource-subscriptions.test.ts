@@ -0,0 +1,144 @@
+// src/__tests__/utils/resource-subscriptions.test.ts
+
+import * as fs from 'fs/promises';
+import * as os from 'os';
+import * as path from 'path';
+import { Client } from '@modelcontextprotocol/sdk/client/index.js';
+import { InMemoryTransport } from '@modelcontextprotocol/sdk/inMemory.js';
+import { Server } from '@modelcontextprotocol/sdk/server/index.js';
+import { Transport } from '@modelcontextprotocol/sdk/shared/transport.js';
+import { ResourceUpdatedNotificationSchema } from '@modelcontextprotocol/sdk/types.js';
+import {
+  ResourceSubscriptions,
+  advertiseResourceSubscriptions,
+  createResourceSubscriptions,
+  enableResourceSubscriptions,
+  filePathFromResourceUri,
+} from '../../utils/resource-subscriptions';
+
+describe('filePathFromResourceUri', () => {
+  it('should decode file URIs and reject other schemes', () => {
+    expect(filePathFromResourceUri('file:///safe/a%20b.txt')).toBe('/safe/a b.txt');
+    expect(() => filePathFromResourceUri('https://example.com/a')).toThrow('Only file:// resources');
+    expect(() => filePathFromResourceUri('file:///safe/%E0')).toThrow('Invalid file resource URI');
+  });
+});
+
+describe('createResourceSubscriptions', () => {
+  let tempDir: string;
+  let subscriptions: ResourceSubscriptions | undefined;
+  let notified: string[];
+  let waiters: Array<() => void>;
+
+  const nextNotification = () => new Promise<void>((resolve, reject) => {
+    const timer = setTimeout(() => reject(new Error('No notification within 5s')), 5000);
+    waiters.push(() => {
+      clearTimeout(timer);
+      resolve();
+    });
+  });
+
+  const notify = (uri: string) => {
+    notified.push(uri);
+    waiters.splice(0).forEach(wake => wake());
+  };
+
+  beforeEach(async () => {
+    tempDir = await fs.realpath(await fs.mkdtemp(path.join(os.tmpdir(), 'resource-subscriptions-')));
+    notified = [];
+    waiters = [];
+  });
+
+  afterEach(async () => {
+    subscriptions?.close();
+    subscriptions = undefined;
+    await fs.rm(tempDir, { recursive: true, force: true });
+  });
+
+  it('should notify subscribed files only, including atomic replacements and deletes', async () => {
+    const watched = path.join(tempDir, 'watched.txt');
+    await fs.writeFile(watched, 'one');
+    await fs.writeFile(path.join(tempDir, 'other.txt'), 'x');
+    const uri = `file://${watched}`;
+    subscriptions = createResourceSubscriptions(notify, async requested => requested, 50);
+    await subscriptions.subscribe(uri);
+    expect(subscriptions.subscribedUris()).toEqual([uri]);
+
+    let notification = nextNotification();
+    await fs.writeFile(path.join(tempDir, 'other.txt'), 'changed');
+    await fs.writeFile(path.join(tempDir, 'watched.tmp'), 'two');
+    await fs.rename(path.join(tempDir, 'watched.tmp'), watched);
+    await notification;
+    expect(notified).toEqual([uri]);
+
+    notification = nextNotification();
+    await fs.unlink(watched);
+    await notification;
+    expect(notified).toEqual([uri, uri]);
+  });
+
+  it('should validate paths and stop notifying after unsubscribe', async () => {
+    const resolvePath = jest.fn(async (requested: string) => {
+      if (!requested.startsWith(tempDir)) throw new Error('Access denied - path outside allowed directories');
+      return requested;
+    });
+    subscriptions = createResourceSubscriptions(notify, resolvePath, 50);
+
+    await expect(subscriptions.subscribe('file:///etc/passwd')).rejects.toThrow('Access denied');
+    await expect(subscriptions.subscribe(`file://${tempDir}`)).rejects.toThrow('Path is a directory');
+    await expect(subscriptions.subscribe(`file://${tempDir}/missing/file.txt`)).rejects.toThrow('Parent directory does not exist');
+
+    const uri = `file://${tempDir}/later.txt`;
+    await subscriptions.subscribe(uri);
+    subscriptions.unsubscribe(uri);
+    expect(subscriptions.subscribedUris()).toEqual([]);
+
+    await fs.writeFile(path.join(tempDir, 'later.txt'), 'created');
+    await new Promise(resolve => setTimeout(resolve, 300));
+    expect(notified).toEqual([]);
+  });
+});
+
+describe('advertiseResourceSubscriptions and enableResourceSubscriptions', () => {
+  // Stands in for FastMCPSession: owns a real SDK server and connects it when the transport is ready
+  class TestSession {
+    readonly server = new Server({ name: 'test-server', version: '1.0.0' }, { capabilities: { resources: {} } });
+
+    async connect(transport: Transport): Promise<void> {
+      await this.server.connect(transport);
+    }
+  }
+
+  it('should advertise the capability in the handshake, answer subscriptions and send updates', async () => {
+    const tempDir = await fs.realpath(await fs.mkdtemp(path.join(os.tmpdir(), 'resource-subscriptions-')));
+    advertiseResourceSubscriptions(TestSession);
+    advertiseResourceSubscriptions(TestSession);
+
+    const session = new TestSession();
+    const client = new Client({ name: 'test-client', version: '1.0.0' });
+    const [clientTransport, serverTransport] = InMemoryTransport.createLinkedPair();
+    await session.connect(serverTransport);
+    await client.connect(clientTransport);
+
+    const subscriptions = enableResourceSubscriptions(session.server, async requested => requested);
+    try {
+      expect(client.getServerCapabilities()?.resources).toEqual({ subscribe: true });
+
+      const updated = new Promise<string>(resolve =>
+        client.setNotificationHandler(ResourceUpdatedNotificationSchema, notification => resolve(notification.params.uri)));
+      const uri = `file://${tempDir}/notes.md`;
+      await client.subscribeResource({ uri });
+      expect(subscriptions.subscribedUris()).toEqual([uri]);
+      await fs.writeFile(path.join(tempDir, 'notes.md'), 'hello');
+      await expect(updated).resolves.toBe(uri);
+
+      await client.unsubscribeResource({ uri });
+      expect(subscriptions.subscribedUris()).toEqual([]);
+      await expect(client.subscribeResource({ uri: 'https://example.com/a' })).rejects.toThrow('Only file:// resources');
+    } finally {
+      subscriptions.close();
+      await client.close();
+      await fs.rm(tempDir, { recursive: true, force: true });
+    }
+  });
+});
@@ -0,0 +1,100 @@
+// src/__tests__/utils/trash.test.ts
+
+import * as fs from 'fs/promises';
+import * as os from 'os';
+import * as path from 'path';
+import {
+  listTrash,
+  moveToTrash,
+  purgeTrash,
+  restoreFromTrash,
+} from '../../utils/trash';
+
+describe('Trash', () => {
+  let tempDir: string;
+  let trashDir: string;
+
+  beforeEach(async () => {
+    tempDir = await fs.mkdtemp(path.join(os.tmpdir(), 'trash-'));
+    trashDir = path.join(tempDir, '.mcp-trash');
+  });
+
+  afterEach(async () => {
+    await fs.rm(tempDir, { recursive: true, force: true });
+  });
+
+  it('should move files and directories into the trash with metadata', async () => {
+    const file = path.join(tempDir, 'notes.txt');
+    const dir = path.join(tempDir, 'project');
+    await fs.writeFile(file, 'hello');
+    await fs.mkdir(path.join(dir, 'src'), { recursive: true });
+    await fs.writeFile(path.join(dir, 'src', 'index.ts'), 'export {};');
+
+    const fileEntry = await moveToTrash(trashDir, file, 'delete_file');
+    const dirEntry = await moveToTrash(trashDir, dir, 'delete_directory');
+
+    await expect(fs.stat(file)).rejects.toMatchObject({ code: 'ENOENT' });
+    await expect(fs.stat(dir)).rejects.toMatchObject({ code: 'ENOENT' });
+    expect(fileEntry).toMatchObject({ originalPath: file, type: 'file', size: 5, tool: 'delete_file' });
+    expect(dirEntry).toMatchObject({ originalPath: dir, type: 'directory', size: 10 });
+    expect((await listTrash(trashDir)).map(entry => entry.id).sort()).toEqual([fileEntry.id, dirEntry.id].sort());
+  });
+
+  it('should restore an item to its original path, recreating parents', async () => {
+    const file = path.join(tempDir, 'nested', 'deep', 'a.txt');
+    await fs.mkdir(path.dirname(file), { recursive: true });
+    await fs.writeFile(file, 'alpha');
+    const entry = await moveToTrash(trashDir, file, 'delete_file');
+    await fs.rm(path.join(tempDir, 'nested'), { recursive: true });
+
+    const restored = await restoreFromTrash(trashDir, entry.id);
+
+    expect(restored.restoredTo).toBe(file);
+    expect(await fs.readFile(file, 'utf-8')).toBe('alpha');
+    expect(await listTrash(trashDir)).toEqual([]);
+  });
+
+  it('should refuse to restore over an existing path unless given a destination', async () => {
+    const file = path.join(tempDir, 'a.txt');
+    await fs.writeFile(file, 'old');
+    const entry = await moveToTrash(trashDir, file, 'delete_file');
+    await fs.writeFile(file, 'new');
+
+    await expect(restoreFromTrash(trashDir, entry.id)).rejects.toThrow('already exists');
+
+    const alternative = path.join(tempDir, 'a.restored.txt');
+    await restoreFromTrash(trashDir, entry.id, alternative);
+    expect(await fs.readFile(alternative, 'utf-8')).toBe('old');
+    expect(await fs.readFile(file, 'utf-8')).toBe('new');
+  });
+
+  it('should purge by age and by ID and reject malformed IDs', async () => {
+    const first = path.join(tempDir, 'first.txt');
+    const second = path.join(tempDir, 'second.txt');
+    await fs.writeFile(first, '1');
+    await fs.writeFile(second, '2');
+    const old = await moveToTrash(trashDir, first, 'delete_file');
+    const recent = await moveToTrash(trashDir, second, 'delete_file');
+
+    // Age the first entry by rewriting its metadata
+    const metaPath = path.join(trashDir, old.id, 'meta.json');
+    await fs.writeFile(metaPath, JSON.stringify({ ...old, deletedAt: new Date(Date.now() - 40 * 86400000).toISOString() }));
+
+    expect((await purgeTrash(trashDir, { olderThanDays: 30, dryRun: true })).map(entry => entry.id)).toEqual([old.id]);
+    expect(await listTrash(trashDir)).toHaveLength(2);
+
+    await purgeTrash(trashDir, { olderThanDays: 30 });
+    expect((await listTrash(trashDir)).map(entry => entry.id)).toEqual([recent.id]);
+
+    await expect(purgeTrash(trashDir, { ids: ['../etc'] })).rejects.toThrow('Invalid trash ID');
+    await purgeTrash(trashDir, { ids: [recent.id] });
+    expect(await listTrash(trashDir)).toEqual([]);
+  });
+
+  it('should refuse to trash the trash directory or a directory containing it', async () => {
+    await fs.mkdir(trashDir, { recursive: true });
+
+    await expect(moveToTrash(trashDir, trashDir, 'delete_directory')).rejects.toThrow('Cannot move the trash directory into itself');
+    await expect(moveToTrash(trashDir, tempDir, 'delete_directory')).rejects.toThrow('Cannot move the trash directory into itself');
+  });
+});
@@ -0,0 +1,84 @@
+// src/__tests__/utils/unified-patch.test.ts
+
+import { createTwoFilesPatch } from 'diff';
+import { applyHunks, parseUnifiedPatch } from '../../utils/unified-patch';
+
+const numbered = (count: number) => Array.from({ length: count }, (_, i) => `line ${i + 1}`).join('\n') + '\n';
+
+describe('Unified Patch Utilities', () => {
+  it('should parse fenced multi-file patches including creations and deletions', () => {
+    const patch = [
+      '````diff',
+      createTwoFilesPatch('/work/a.txt', '/work/a.txt', 'one\n', 'two\n', 'original', 'modified'),
+      '````',
+      '--- /dev/null',
+      '+++ b/src/new.txt',
+      '@@ -0,0 +1 @@',
+      '+created',
+      '--- a/old.txt',
+      '+++ /dev/null',
+      '@@ -1 +0,0 @@',
+      '-gone',
+    ].join('\n');
+
+    const filePatches = parseUnifiedPatch(patch);
+
+    expect(filePatches.map(({ oldPath, newPath }) => ({ oldPath, newPath }))).toEqual([
+      { oldPath: '/work/a.txt', newPath: '/work/a.txt' },
+      { oldPath: null, newPath: 'src/new.txt' },
+      { oldPath: 'old.txt', newPath: null },
+    ]);
+    expect(applyHunks('', filePatches[1].hunks, 0).content).toBe('created\n');
+    expect(applyHunks('gone\n', filePatches[2].hunks, 0).content).toBe('');
+  });
+
+  it('should apply hunks at an offset when the file has shifted', () => {
+    const original = numbered(30);
+    const modified = original.replace('line 20\n', 'line twenty\n');
+    const [filePatch] = parseUnifiedPatch(createTwoFilesPatch('f', 'f', original, modified));
+
+    const shifted = 'header 1\nheader 2\nheader 3\n' + original;
+    const { content, results } = applyHunks(shifted, filePatch.hunks, 0);
+
+    expect(content).toBe('header 1\nheader 2\nheader 3\n' + modified);
+    expect(results[0]).toMatchObject({ applied: true, offset: 3, fuzz: 0, line: 19 });
+  });
+
+  it('should only tolerate mismatched edge context with fuzz', () => {
+    const original = numbered(10);
+    const modified = original.replace('line 5\n', 'line five\n');
+    const [filePatch] = parseUnifiedPatch(createTwoFilesPatch('f', 'f', original, modified));
+    const drifted = original.replace('line 1\n', 'line one\n');
+
+    expect(applyHunks(drifted, filePatch.hunks, 0).results[0]).toMatchObject({ applied: false });
+
+    const { content, results } = applyHunks(drifted, filePatch.hunks, 1);
+    expect(content).toBe(drifted.replace('line 5\n', 'line five\n'));
+    expect(results[0]).toMatchObject({ applied: true, fuzz: 1 });
+  });
+
+  it('should reject unmatched hunks and still apply the others', () => {
+    const original = numbered(40);
+    const modified = original.replace('line 5\n', 'line five\n').replace('line 35\n', 'line thirty-five\n');
+    const [filePatch] = parseUnifiedPatch(createTwoFilesPatch('f', 'f', original, modified));
+    const diverged = original.replace('line 35\n', 'something else\n');
+
+    const { content, results } = applyHunks(diverged, filePatch.hunks, 2);
+
+    expect(results.map(result => result.applied)).toEqual([true, false]);
+    expect(results[1].reason).toContain('context not found');
+    expect(content).toBe(diverged.replace('line 5\n', 'line five\n'));
+  });
+
+  it('should honour missing-newline markers', () => {
+    const [removeNewline] = parseUnifiedPatch(createTwoFilesPatch('f', 'f', 'a\nb\n', 'a\nc'));
+    const [addNewline] = parseUnifiedPatch(createTwoFilesPatch('f', 'f', 'a\nc', 'a\nc\n'));
+
+    expect(applyHunks('a\nb\n', removeNewline.hunks, 0).content).toBe('a\nc');
+    expect(applyHunks('a\nc', addNewline.hunks, 0).content).toBe('a\nc\n');
+  });
+
+  it('should reject text without hunks', () => {
+    expect(() => parseUnifiedPatch('just some text')).toThrow('Patch does not contain any hunks');
+  });
+});
@@ -3,9 +3,10 @@
 // src/index.ts - Main FastMCP Server Entry Point with Modular Architecture
 import { FastMCP } from "fastmcp";
 import { getSecurityContext } from "./utils/security.js";
-import { registerFilesystemTools } from "./tools/filesystem.js";
+import { registerFileResourceSubscriptions, registerFilesystemTools } from "./tools/filesystem.js";
 import { registerProcessTools } from "./tools/process.js";
 import { registerTerminalTools } from "./tools/terminal.js";
+import { registerFileMonitoringTools } from "./tools/file-monitoring.js";
 
 /**
  * CONTRACT: Main server initialization with comprehensive modular architecture
@@ -46,7 +47,7 @@ async function initializeServer(): Promise<FastMCP> {
     instructions: `
 A comprehensive modular server for interacting with the local desktop environment.
 
-This server provides three main categories of tools:
+This server provides four main categories of tools:
 
 **📁 Filesystem Operations:**
 - File reading, writing, copying, moving, and deletion
@@ -67,6 +68,10 @@ This server provides three main categories of tools:
 - Session lifecycle tracking and cleanup
 - Advanced code search with ripgrep integration
 
+**👁️ File Monitoring:**
+- Debounced directory watchers with glob filters
+- Buffered create/modify/delete/rename events pulled by cursor
+
 All operations are secured with comprehensive boundary validation, 
 applied with enterprise-grade advanced programming techniques including:
 - Design by Contract with explicit preconditions/postconditions
@@ -110,6 +115,7 @@ async function registerAllTools(server: FastMCP): Promise<void> {
     // DEFENSIVE PROGRAMMING: Register each tool category with error isolation
     console.error("  📁 Registering filesystem tools...");
     registerFilesystemTools(server);
+    registerFileResourceSubscriptions(server);
     
     console.error("  ⚙️ Registering process management tools...");
     registerProcessTools(server);
@@ -117,6 +123,9 @@ async function registerAllTools(server: FastMCP): Promise<void> {
     console.error("  🖥️ Registering terminal operations tools...");
     registerTerminalTools(server);
     
+    console.error("  👁️ Registering file monitoring tools...");
+    registerFileMonitoringTools(server);
+    
     console.error("✅ All tool categories registered successfully");
     
     // CONTRACT: Verification of tool registration
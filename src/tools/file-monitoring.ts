@@ -0,0 +1,335 @@
+// src/tools/file-monitoring.ts
+import { FastMCP, UserError } from "fastmcp";
+import { z } from "zod";
+import * as fs from "fs/promises";
+import { validatePath } from "../utils/security.js";
+import { matchesAnyGlob } from "../utils/glob-match.js";
+import { FileWatcher, WatchEvent, WatchEventType, startFileWatcher } from "../utils/file-watcher.js";
+
+/**
+ * CONTRACT: Limits for file watches
+ *
+ * Invariants:
+ * - Memory per watch is bounded; a full buffer evicts the oldest events, which pollers see as 'missed'
+ */
+const WATCH_MAX_ACTIVE = 20;
+const WATCH_MAX_BUFFERED_EVENTS = 10000;
+const WATCH_DEFAULT_DEBOUNCE_MS = 200;
+const WATCH_DEFAULT_EXCLUDE = ['node_modules', '.git'];
+const POLL_DEFAULT_LIMIT = 500;
+const POLL_MAX_LIMIT = 5000;
+const POLL_MAX_WAIT_MS = 30000;
+
+const WatchEventTypeSchema = z.enum(['create', 'modify', 'delete', 'rename']);
+
+/**
+ * CONTRACT: Buffered event as returned to clients
+ *
+ * Invariants:
+ * - sequence increases by one per event across the watch's lifetime, starting at 1
+ */
+interface BufferedWatchEvent extends WatchEvent {
+  sequence: number;
+}
+
+/**
+ * CONTRACT: File watch state
+ *
+ * Invariants:
+ * - events is ordered by sequence and holds at most WATCH_MAX_BUFFERED_EVENTS entries
+ */
+interface FileWatch {
+  id: string;
+  root: string;
+  recursive: boolean;
+  include: string[];
+  exclude: string[];
+  eventTypes: Set<WatchEventType>;
+  watcher: FileWatcher;
+  events: BufferedWatchEvent[];
+  lastSequence: number;
+  createdAt: Date;
+  error: string | null;
+  waiters: Set<() => void>;
+}
+
+/**
+ * IMMUTABILITY: Watch storage with encapsulated state
+ */
+const fileWatches = new Map<string, FileWatch>();
+
+/**
+ * CONTRACT: Watch slots taken by watch_path calls that have not registered their watch yet
+ *
+ * Invariants:
+ * - fileWatches.size + pendingWatchSlots never exceeds WATCH_MAX_ACTIVE
+ */
+let pendingWatchSlots = 0;
+
+/**
+ * CONTRACT: Watch ID generation with uniqueness guarantees
+ */
+function generateWatchId(): string {
+  const timestamp = Date.now().toString(36);
+  const random = Math.random().toString(36).substr(2, 9);
+  return `watch_${timestamp}_${random}`;
+}
+
+function wakeWaiters(watch: FileWatch): void {
+  for (const wake of watch.waiters) wake();
+  watch.waiters.clear();
+}
+
+/**
+ * CONTRACT: Stop a watch and release its watcher
+ *
+ * Postconditions:
+ * - Pending long-polls return immediately
+ */
+function closeWatch(watchId: string): void {
+  const watch = fileWatches.get(watchId);
+  if (!watch) return;
+  watch.watcher.close();
+  wakeWaiters(watch);
+  fileWatches.delete(watchId);
+}
+
+/**
+ * CONTRACT: Clear all file watches (primarily for testing)
+ *
+ * Postconditions: All watchers closed and removed
+ */
+export function clearAllFileWatches(): void {
+  for (const watchId of [...fileWatches.keys()]) {
+    closeWatch(watchId);
+  }
+}
+
+/**
+ * CONTRACT: Filter and buffer freshly classified events
+ *
+ * Postconditions:
+ * - Only requested event types whose path (or, for renames, old path) matches include are kept
+ * - Waiting pollers are woken when anything was buffered
+ */
+function bufferEvents(watch: FileWatch, events: WatchEvent[]): void {
+  const matchesInclude = (relativePath: string | undefined): boolean =>
+    relativePath !== undefined && matchesAnyGlob(relativePath, watch.include);
+
+  let buffered = 0;
+  for (const event of events) {
+    if (!watch.eventTypes.has(event.type)) continue;
+    if (watch.include.length > 0 && !matchesInclude(event.relativePath) && !matchesInclude(event.oldRelativePath)) continue;
+    watch.events.push({ sequence: ++watch.lastSequence, ...event });
+    buffered++;
+  }
+
+  const overflow = watch.events.length - WATCH_MAX_BUFFERED_EVENTS;
+  if (overflow > 0) {
+    watch.events.splice(0, overflow);
+  }
+  if (buffered > 0) wakeWaiters(watch);
+}
+
+function findWatch(watchId: string): FileWatch {
+  const watch = fileWatches.get(watchId);
+  if (!watch) {
+    throw new UserError(`No active watch found with ID: ${watchId}`);
+  }
+  return watch;
+}
+
+/**
+ * CONTRACT: File monitoring tools registration function
+ *
+ * Preconditions:
+ * - server must be valid FastMCP instance
+ *
+ * Postconditions:
+ * - watch_path, poll_changes and unwatch_path registered
+ *
+ * Invariants:
+ * - Only directories inside the allowed directories can be watched
+ */
+export function registerFileMonitoringTools(server: FastMCP) {
+
+  // TOOL: watch_path - Start a debounced, buffered watcher
+  server.addTool({
+    name: "watch_path",
+    description: `Start watching a directory for changes. Create, modify, delete and rename events are debounced and buffered under a watch ID; fetch them with poll_changes and stop with unwatch_path.
+Arguments:
+* \`path\` (string, required): The directory to watch.
+* \`recursive\` (boolean, optional, default: true): Watch subdirectories as well.
+* \`include\` (array of strings, optional): Only report events for paths matching one of these globs. Globs are relative to the watched directory ('*.ts' matches at any depth, 'src/**/*.test.ts' matches the relative path).
+* \`exclude\` (array of strings, optional, default: ${JSON.stringify(WATCH_DEFAULT_EXCLUDE)}): Globs for files and directories to ignore entirely.
+* \`events\` (array of 'create' | 'modify' | 'delete' | 'rename', optional, default: all): Event types to report.
+* \`debounceMs\` (number, optional, default: ${WATCH_DEFAULT_DEBOUNCE_MS}): Quiet period before changes are reported (10 to 10000).
+Output: The watch ID, the number of tracked entries and the active filters. At most ${WATCH_MAX_ACTIVE} watches can be active at once; each buffers up to ${WATCH_MAX_BUFFERED_EVENTS} events.
+Security: Only directories within the pre-configured allowed directories can be watched.`,
+    parameters: z.object({
+      path: z.string().describe('Directory to watch'),
+      recursive: z.boolean().optional().default(true).describe('Watch subdirectories as well (default: true)'),
+      include: z.array(z.string()).optional().describe('Only report events for paths matching one of these globs'),
+      exclude: z.array(z.string()).optional().describe(`Globs for files and directories to ignore entirely (default: ${JSON.stringify(WATCH_DEFAULT_EXCLUDE)})`),
+      events: z.array(WatchEventTypeSchema).min(1).optional().describe('Event types to report (default: all)'),
+      debounceMs: z.number().int().min(10).max(10000).optional().default(WATCH_DEFAULT_DEBOUNCE_MS).describe(`Quiet period before changes are reported (default: ${WATCH_DEFAULT_DEBOUNCE_MS})`),
+    }),
+    execute: async (args, { log }) => {
+      const {
+        recursive = true,
+        include = [],
+        exclude = WATCH_DEFAULT_EXCLUDE,
+        events = WatchEventTypeSchema.options,
+        debounceMs = WATCH_DEFAULT_DEBOUNCE_MS,
+      } = args;
+
+      // DEFENSIVE PROGRAMMING: Reserve the slot before the first await so concurrent calls cannot overshoot the limit
+      if (fileWatches.size + pendingWatchSlots >= WATCH_MAX_ACTIVE) {
+        throw new UserError(`Too many active watches (maximum ${WATCH_MAX_ACTIVE}). Stop one with unwatch_path first.`);
+      }
+      pendingWatchSlots++;
+
+      try {
+        // SECURITY BOUNDARY: Only validated directories are watched
+        const root = await validatePath(args.path);
+        let stats;
+        try {
+          stats = await fs.stat(root);
+        } catch (error: any) {
+          if (error.code === 'ENOENT') {
+            throw new UserError(`Directory does not exist: ${args.path}`);
+          }
+          throw new UserError(`Cannot access ${args.path}: ${error.message}`);
+        }
+        if (!stats.isDirectory()) {
+          throw new UserError(`Path is not a directory: ${args.path}`);
+        }
+
+        const id = generateWatchId();
+        let watch: FileWatch | undefined;
+        const pending: WatchEvent[][] = [];
+
+        const watcher = await startFileWatcher(
+          root,
+          { recursive, debounceMs, exclude },
+          batch => watch ? bufferEvents(watch, batch) : pending.push(batch),
+          error => {
+            if (!watch) return;
+            watch.error = error.message;
+            wakeWaiters(watch);
+          }
+        );
+
+        watch = {
+          id,
+          root,
+          recursive,
+          include,
+          exclude,
+          eventTypes: new Set(events),
+          watcher,
+          events: [],
+          lastSequence: 0,
+          createdAt: new Date(),
+          error: null,
+          waiters: new Set(),
+        };
+        fileWatches.set(id, watch);
+        for (const batch of pending) bufferEvents(watch, batch);
+
+        log.info("Watch started", { watchId: id, root, trackedEntries: watcher.trackedEntries() });
+
+        return [
+          `Watching ${root} (watch ID: ${id})`,
+          `Recursive: ${recursive}; tracking ${watcher.trackedEntries()} entries`,
+          `Events: ${[...watch.eventTypes].join(', ')}`,
+          include.length > 0 ? `Include: ${include.join(', ')}` : null,
+          exclude.length > 0 ? `Exclude: ${exclude.join(', ')}` : null,
+          `Use poll_changes with watchId "${id}" and cursor 0 to fetch events.`,
+        ].filter(line => line !== null).join('\n');
+      } finally {
+        pendingWatchSlots--;
+      }
+    },
+  });
+
+  // TOOL: poll_changes - Pull buffered events after a cursor
+  server.addTool({
+    name: "poll_changes",
+    description: `Fetch buffered change events of a watch created with watch_path.
+Arguments:
+* \`watchId\` (string, required): The watch ID returned by watch_path.
+* \`cursor\` (number, optional, default: 0): Return events with a sequence greater than this. Pass the cursor of the previous result to get only new events.
+* \`limit\` (number, optional, default: ${POLL_DEFAULT_LIMIT}): Maximum events to return (up to ${POLL_MAX_LIMIT}).
+* \`waitMs\` (number, optional, default: 0): Wait up to this long (maximum ${POLL_MAX_WAIT_MS}) for the first event when none is buffered yet.
+Output: JSON with the events (sequence, type, path, relativePath, isDirectory, oldPath for renames, timestamp), the cursor to pass next time, \`hasMore\`, and \`missed\`, the number of events evicted from the buffer before they could be returned. \`error\` is set when the watcher failed.
+Security: Only returns events of watches started within the allowed directories.`,
+    parameters: z.object({
+      watchId: z.string().describe('Watch ID returned by watch_path'),
+      cursor: z.number().int().min(0).optional().default(0).describe('Return events after this sequence number (default: 0, everything buffered)'),
+      limit: z.number().int().min(1).max(POLL_MAX_LIMIT).optional().default(POLL_DEFAULT_LIMIT).describe(`Maximum events to return (default: ${POLL_DEFAULT_LIMIT})`),
+      waitMs: z.number().int().min(0).max(POLL_MAX_WAIT_MS).optional().default(0).describe(`Wait up to this long for new events (default: 0, maximum: ${POLL_MAX_WAIT_MS})`),
+    }),
+    execute: async (args) => {
+      const { watchId, cursor = 0, limit = POLL_DEFAULT_LIMIT, waitMs = 0 } = args;
+      const watch = findWatch(watchId);
+
+      if (cursor > watch.lastSequence) {
+        throw new UserError(`Cursor ${cursor} is ahead of the latest event (${watch.lastSequence})`);
+      }
+
+      if (waitMs > 0 && watch.lastSequence === cursor && !watch.error) {
+        await new Promise<void>(resolve => {
+          const timer = setTimeout(() => {
+            watch.waiters.delete(wake);
+            resolve();
+          }, waitMs);
+          const wake = () => {
+            clearTimeout(timer);
+            resolve();
+          };
+          watch.waiters.add(wake);
+        });
+      }
+
+      const oldestBuffered = watch.events.length > 0 ? watch.events[0].sequence : watch.lastSequence + 1;
+      const missed = Math.max(0, oldestBuffered - cursor - 1);
+      const available = watch.events.filter(event => event.sequence > cursor);
+      const returned = available.slice(0, limit);
+      const nextCursor = returned.length > 0 ? returned[returned.length - 1].sequence : Math.max(cursor, oldestBuffered - 1);
+
+      const result: Record<string, unknown> = {
+        watchId,
+        root: watch.root,
+        cursor: nextCursor,
+        events: returned,
+        hasMore: available.length > returned.length,
+        missed,
+      };
+      if (watch.error) result.error = watch.error;
+
+      return JSON.stringify(result, null, 2);
+    },
+  });
+
+  // TOOL: unwatch_path - Stop a watch
+  server.addTool({
+    name: "unwatch_path",
+    description: `Stop a watch created with watch_path and discard its buffered events.
+Arguments:
+* \`watchId\` (string, required): The watch ID returned by watch_path.
+Output: A confirmation with the watched directory and the number of events recorded.
+Security: Only affects watches created by this server.`,
+    parameters: z.object({
+      watchId: z.string().describe('Watch ID returned by watch_path'),
+    }),
+    execute: async (args, { log }) => {
+      const watch = findWatch(args.watchId);
+      closeWatch(watch.id);
+
+      log.info("Watch stopped", { watchId: watch.id, root: watch.root });
+
+      return `Stopped watching ${watch.root} (watch ID: ${watch.id}). ${watch.lastSequence} event(s) recorded.`;
+    },
+  });
+}
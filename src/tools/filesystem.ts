@@ -1,12 +1,25 @@
 // src/tools/filesystem.ts
-import { FastMCP, UserError } from "fastmcp";
+import { FastMCP, FastMCPSession, UserError } from "fastmcp";
 import { z } from "zod";
 import * as fs from "fs/promises";
 import * as path from "path";
-import { glob } from 'glob';
+import { glob, globIterate } from 'glob';
 import { createTwoFilesPatch, diffLines } from 'diff';
+import { createHash } from "crypto";
 import { validatePath, validatePaths } from "../utils/security.js";
 import { PathArgumentSchema, getPathFromOptions, validatePathOptions } from "../utils/path-helpers.js";
+import { DecodedContent, FileEncoding, FileEncodingSchema, decodeFileContent, encodeFileContent } from "../utils/file-encoding.js";
+import { appendFileAtomic, moveFileAcrossDevices, writeFileAtomic } from "../utils/atomic-write.js";
+import { FileSnapshot, findJournaledContent, getChange, getLastChange, listChanges, recordChange, restoreChange, snapshotFile } from "../utils/change-journal.js";
+import { ExpectedVersion, ExpectedVersionSchema, FILE_VERSION_MAX_HASH_BYTES, fileVersionMatches, formatFileVersion, getFileVersion, hasVersionExpectation } from "../utils/file-version.js";
+import { FilePatch, HunkResult, applyHunks, parseUnifiedPatch } from "../utils/unified-patch.js";
+import { TRASH_DEFAULT_RETENTION_DAYS, TRASH_DIRECTORY_ENV, TRASH_DIRECTORY_NAME, TRASH_RETENTION_DAYS_ENV, TrashEntry, getTrashRetentionDays, listTrash, moveToTrash, purgeTrash, restoreFromTrash } from "../utils/trash.js";
+import { CopyAction, DIRECTORY_DELETE_CONFIRM_THRESHOLD, DirectoryConflictPolicySchema, DirectoryCopyPlan, DirectoryEntry, DirectoryEntryType, executeDirectoryCopy, formatEntryListing, planDirectoryCopy, removeMovedEntries, snapshotOverwrittenFiles, walkDirectory } from "../utils/directory-operations.js";
+import { FILE_INSPECTION_MAX_ANALYZE_BYTES, FileContentInfo, FileHashAlgorithmSchema, analyzeLines, inspectFileContent } from "../utils/file-inspection.js";
+import { hasGlobMagic, splitGlobBase } from "../utils/glob-match.js";
+import { IgnoreMatcher, createIgnoreMatcher, toGlobIgnore } from "../utils/gitignore.js";
+import { ResourceSubscriptions, advertiseResourceSubscriptions, enableResourceSubscriptions } from "../utils/resource-subscriptions.js";
+import { DIRECTORY_TREE_DEFAULT_MAX_ENTRIES_PER_DIRECTORY, DIRECTORY_TREE_DEFAULT_MAX_TOTAL_ENTRIES, DirectoryTreeNode, collectDirectoryTree, renderAsciiTree } from "../utils/directory-tree.js";
 
 /**
  * CONTRACT: File editing utility functions with immutability principles
@@ -117,6 +130,273 @@ function createUnifiedDiff(originalContent: string, newContent: string, filepath
   );
 }
 
+/**
+ * CONTRACT: A single find-and-replace operation accepted by edit_file and bulk_edit
+ *
+ * Invariants:
+ * - When regex is true, the old text is a pattern and the new text a replacement template
+ * - flags and occurrence only apply to regex edits
+ * - replaceAll replaces every match instead of the first; expectedOccurrences fails the edit
+ *   unless the number of matches is exactly that count
+ * - For plain edits, matches are exact occurrences plus indentation-insensitive line matches
+ *   elsewhere in the file
+ */
+interface FileEditOperation {
+  oldText?: string;
+  newText?: string;
+  old_string?: string;
+  new_string?: string;
+  regex?: boolean;
+  flags?: string;
+  occurrence?: number;
+  replaceAll?: boolean;
+  expectedOccurrences?: number;
+  context?: {
+    before?: string;
+    after?: string;
+  };
+}
+
+/**
+ * IMMUTABILITY: Pure function returning the offsets of every non-overlapping occurrence
+ *
+ * Invariants:
+ * - An empty needle matches once, at offset 0 (inserting at the start of the file)
+ */
+function findExactOccurrences(content: string, needle: string): number[] {
+  if (needle.length === 0) {
+    return [0];
+  }
+  const offsets: number[] = [];
+  for (let offset = content.indexOf(needle); offset !== -1; offset = content.indexOf(needle, offset + needle.length)) {
+    offsets.push(offset);
+  }
+  return offsets;
+}
+
+/**
+ * IMMUTABILITY: Pure function for 1-based line number of a character offset
+ */
+function lineNumberAt(content: string, offset: number): number {
+  let line = 1;
+  for (let i = content.indexOf('\n'); i !== -1 && i < offset; i = content.indexOf('\n', i + 1)) {
+    line++;
+  }
+  return line;
+}
+
+/**
+ * IMMUTABILITY: Pure function returning the start line of every indentation-insensitive match
+ *
+ * Postconditions:
+ * - A match is a run of lines equal to oldLines after trimming, with context checked
+ *   against the lines directly before and after it
+ * - Matches never overlap: scanning resumes after each matched block
+ */
+function findFlexibleOccurrences(contentLines: string[], oldLines: string[], context?: FileEditOperation['context']): number[] {
+  const matches: number[] = [];
+
+  for (let i = 0; i <= contentLines.length - oldLines.length; i++) {
+    const isMatch = oldLines.every((oldLine, j) => oldLine.trim() === contentLines[i + j].trim());
+    if (!isMatch) continue;
+
+    // DEFENSIVE PROGRAMMING: Context validation if specified
+    if (context?.before) {
+      const beforeLine = i > 0 ? contentLines[i - 1] : undefined;
+      if (!beforeLine || !beforeLine.includes(context.before)) continue;
+    }
+    if (context?.after) {
+      const afterLine = contentLines[i + oldLines.length];
+      if (!afterLine || !afterLine.includes(context.after)) continue;
+    }
+
+    matches.push(i);
+    i += oldLines.length - 1;
+  }
+
+  return matches;
+}
+
+/**
+ * IMMUTABILITY: Pure function re-indenting replacement text to the block it replaces
+ *
+ * Postconditions:
+ * - The first line takes the indentation of matchedFirstLine; later lines keep their
+ *   indentation relative to the corresponding line of oldLines
+ */
+function reindentReplacement(matchedFirstLine: string, oldLines: string[], newText: string): string {
+  const originalIndent = matchedFirstLine.match(/^\s*/)?.[0] || '';
+  return newText.split('\n').map((line, j) => {
+    if (j === 0) return originalIndent + line.trimStart();
+    const oldIndent = oldLines[j]?.match(/^\s*/)?.[0] || '';
+    const newIndent = line.match(/^\s*/)?.[0] || '';
+    if (oldIndent && newIndent) {
+      const relativeIndent = newIndent.length - oldIndent.length;
+      return originalIndent + ' '.repeat(Math.max(0, relativeIndent)) + line.trimStart();
+    }
+    return line;
+  }).join('\n');
+}
+
+/**
+ * CONTRACT: expectedOccurrences guard
+ *
+ * Postconditions:
+ * - Throws a UserError listing the line of every match when the count differs from edit.expectedOccurrences
+ */
+function assertOccurrenceCount(edit: FileEditOperation, index: number, matchLines: number[]): void {
+  if (edit.expectedOccurrences === undefined || edit.expectedOccurrences === matchLines.length) {
+    return;
+  }
+  throw new UserError(
+    `Edit at index ${index} expected ${edit.expectedOccurrences} occurrence(s) but found ${matchLines.length}, ` +
+    `at line(s): ${matchLines.join(', ')}. Make the search text more specific or adjust expectedOccurrences.`
+  );
+}
+
+/**
+ * CONTRACT: Accepted regex flags for regex edits ('g' means replace every match)
+ */
+const REGEX_EDIT_FLAGS_PATTERN = /^[gimsuy]*$/;
+
+/**
+ * IMMUTABILITY: Pure function for replacement template expansion
+ *
+ * Postconditions:
+ * - Expands the same tokens as String.prototype.replace: $$, $&, $`, $', $1-$99 and $<name>
+ * - Tokens referring to groups that do not exist are left as literal text
+ */
+function expandReplacement(template: string, match: RegExpMatchArray): string {
+  const input = match.input ?? '';
+  const start = match.index ?? 0;
+  const groupCount = match.length - 1;
+
+  return template.replace(/\$(\$|&|`|'|<([^>]*)>|(\d{1,2}))/g, (token, kind: string, name?: string, digits?: string) => {
+    if (kind === '$') return '$';
+    if (kind === '&') return match[0];
+    if (kind === '`') return input.slice(0, start);
+    if (kind === "'") return input.slice(start + match[0].length);
+    if (name !== undefined) {
+      return match.groups ? match.groups[name] ?? '' : token;
+    }
+
+    const groupNumber = parseInt(digits as string, 10);
+    if (groupNumber >= 1 && groupNumber <= groupCount) {
+      return match[groupNumber] ?? '';
+    }
+    // "$12" with fewer than 12 groups means group 1 followed by a literal "2"
+    const singleDigit = parseInt((digits as string)[0], 10);
+    if ((digits as string).length === 2 && singleDigit >= 1 && singleDigit <= groupCount) {
+      return (match[singleDigit] ?? '') + (digits as string)[1];
+    }
+    return token;
+  });
+}
+
+/**
+ * IMMUTABILITY: Pure function for context checks around a match
+ *
+ * Postconditions:
+ * - Returns true when the line before the match contains `before` and the line
+ *   after the match contains `after` (each only checked when provided)
+ */
+function matchesEditContext(content: string, start: number, end: number, context?: FileEditOperation['context']): boolean {
+  if (!context) return true;
+
+  if (context.before) {
+    const lineStart = content.lastIndexOf('\n', start - 1) + 1;
+    const beforeLine = lineStart > 0 ? content.slice(content.lastIndexOf('\n', lineStart - 2) + 1, lineStart - 1) : undefined;
+    if (beforeLine === undefined || !beforeLine.includes(context.before)) {
+      return false;
+    }
+  }
+
+  if (context.after) {
+    const endsAtLineBreak = end > start && content[end - 1] === '\n';
+    const nextLineStart = endsAtLineBreak ? end : content.indexOf('\n', end) + 1;
+    if (nextLineStart === 0 || nextLineStart > content.length) {
+      return false;
+    }
+    const nextLineEnd = content.indexOf('\n', nextLineStart);
+    const afterLine = content.slice(nextLineStart, nextLineEnd === -1 ? undefined : nextLineEnd);
+    if (!afterLine.includes(context.after)) {
+      return false;
+    }
+  }
+
+  return true;
+}
+
+/**
+ * IMMUTABILITY: Pure function applying one regex edit
+ *
+ * Preconditions:
+ * - edit.regex is true; the old text is a JavaScript regular expression source
+ *
+ * Postconditions:
+ * - With the 'g' flag or replaceAll every match is replaced; otherwise only the Nth match (default 1st)
+ * - Matches failing the edit's context check are not counted
+ * - Throws a UserError for invalid patterns, no matches, or an out-of-range occurrence
+ */
+function applyRegexEdit(content: string, edit: FileEditOperation, index: number): string {
+  const pattern = edit.oldText ?? edit.old_string ?? '';
+  const replacement = normalizeLineEndings(edit.newText ?? edit.new_string ?? '');
+  const flags = edit.flags ?? '';
+
+  if (!REGEX_EDIT_FLAGS_PATTERN.test(flags) || new Set(flags).size !== flags.length) {
+    throw new UserError(`Invalid regex flags "${flags}" for edit at index ${index}. Allowed flags: g, i, m, s, u, y (each at most once).`);
+  }
+
+  const replaceAll = flags.includes('g') || edit.replaceAll === true;
+  if (replaceAll && edit.occurrence !== undefined) {
+    throw new UserError(`Edit at index ${index} cannot combine replaceAll or the 'g' flag with occurrence; use one or the other.`);
+  }
+
+  let regex: RegExp;
+  try {
+    regex = new RegExp(pattern, flags.includes('g') ? flags : flags + 'g');
+  } catch (error: any) {
+    throw new UserError(`Invalid regular expression for edit at index ${index}: ${error.message}`);
+  }
+
+  const matches = Array.from(content.matchAll(regex))
+    .filter(match => matchesEditContext(content, match.index ?? 0, (match.index ?? 0) + match[0].length, edit.context));
+
+  if (matches.length === 0) {
+    throw new UserError(`Regular expression /${pattern}/${flags} did not match anything for edit at index ${index}${edit.context ? ' (with the given context)' : ''}.`);
+  }
+
+  assertOccurrenceCount(edit, index, matches.map(match => lineNumberAt(content, match.index ?? 0)));
+
+  const occurrence = edit.occurrence ?? 1;
+  if (!replaceAll && occurrence > matches.length) {
+    throw new UserError(`Edit at index ${index} targets occurrence ${occurrence}, but /${pattern}/${flags} only matched ${matches.length} time(s).`);
+  }
+
+  const selected = replaceAll ? matches : [matches[occurrence - 1]];
+  let result = '';
+  let lastIndex = 0;
+  for (const match of selected) {
+    const start = match.index ?? 0;
+    result += content.slice(lastIndex, start) + expandReplacement(replacement, match);
+    lastIndex = start + match[0].length;
+  }
+  return result + content.slice(lastIndex);
+}
+
+/**
+ * CONTRACT: Result of computing edits for one file without writing it
+ *
+ * Invariants:
+ * - updated is encoded with the same encoding and BOM as original
+ */
+interface PreparedFileEdit {
+  original: Buffer;
+  updated: Buffer;
+  diff: string;
+  hasChanges: boolean;
+}
+
 /**
  * CONTRACT: Advanced file editing function with comprehensive validation and context-based matching
  * 
@@ -125,12 +405,15 @@ function createUnifiedDiff(originalContent: string, newContent: string, filepath
  * - edits must be non-empty array with valid edit objects
  * - dryRun must be boolean
  * - context conditions (before/after) must be valid strings when provided
+ * - encoding, when provided, must be a text encoding (binary files cannot be edited)
  * 
  * Postconditions:
  * - File is modified according to edits (unless dryRun=true)
  * - Returns formatted diff showing all changes
  * - Original file preserved on any error
  * - Context conditions properly evaluated when specified
+ * - File is written back in its original encoding, with its BOM preserved
+ * - The write is atomic: a crash leaves either the old or the new content
  * 
  * Invariants:
  * - Edit operations are applied sequentially
@@ -140,18 +423,42 @@ function createUnifiedDiff(originalContent: string, newContent: string, filepath
  */
 async function applyFileEdits(
   filePath: string,
-  edits: Array<{
-    oldText?: string;
-    newText?: string;
-    old_string?: string;
-    new_string?: string;
-    context?: {
-      before?: string;
-      after?: string;
-    };
-  }>,
-  dryRun = false
+  edits: FileEditOperation[],
+  dryRun = false,
+  encoding?: FileEncoding
 ): Promise<string> {
+  if (typeof dryRun !== 'boolean') {
+    throw new UserError('dryRun must be a boolean value');
+  }
+
+  const prepared = await prepareFileEdits(filePath, edits, encoding);
+
+  // Write file atomically if not dry run, preserving the original encoding
+  if (!dryRun) {
+    await writeFileAtomic(filePath, prepared.updated);
+  }
+
+  return prepared.diff;
+}
+
+/**
+ * CONTRACT: Edit computation without side effects
+ *
+ * Preconditions:
+ * - Same as applyFileEdits, minus dryRun
+ *
+ * Postconditions:
+ * - Returns the original bytes, the re-encoded modified bytes and the formatted diff
+ * - Throws a UserError describing the first edit that cannot be matched
+ *
+ * Invariants:
+ * - Never writes to disk, so callers can stage many files before committing any of them
+ */
+async function prepareFileEdits(
+  filePath: string,
+  edits: FileEditOperation[],
+  encoding?: FileEncoding
+): Promise<PreparedFileEdit> {
   // DEFENSIVE PROGRAMMING: Input validation
   if (typeof filePath !== 'string' || filePath.trim().length === 0) {
     throw new UserError('File path must be a non-empty string');
@@ -160,13 +467,18 @@ async function applyFileEdits(
   if (!Array.isArray(edits) || edits.length === 0) {
     throw new UserError('Edits must be a non-empty array');
   }
-  
-  if (typeof dryRun !== 'boolean') {
-    throw new UserError('dryRun must be a boolean value');
+
+  if (encoding === 'base64') {
+    throw new UserError("Edits require a text encoding; 'base64' is only supported for reading and writing whole files");
   }
 
-  // Read and normalize file content
-  const content = normalizeLineEndings(await fs.readFile(filePath, 'utf-8'));
+  // Read, decode and normalize file content
+  const original = await fs.readFile(filePath);
+  const decoded = decodeFileContent(original, filePath, encoding);
+  if (decoded.isBinary) {
+    throw new UserError(`Cannot edit binary file (${decoded.mimeType}): ${filePath}. Pass an explicit text 'encoding' if the file is text.`);
+  }
+  const content = normalizeLineEndings(decoded.text);
   let modifiedContent = content;
 
   // Apply each edit sequentially
@@ -179,163 +491,251 @@ async function applyFileEdits(
       throw new UserError(`Invalid edit operation at index ${index}: Missing required text/string pair.`);
     }
     
+    if (edit.regex) {
+      modifiedContent = applyRegexEdit(modifiedContent, edit, index);
+      continue;
+    }
+    
     const normalizedOld = normalizeLineEndings(oldTextToUse);
     const normalizedNew = normalizeLineEndings(newTextToUse);
 
-    // Try exact match first
-    if (modifiedContent.includes(normalizedOld)) {
-      modifiedContent = modifiedContent.replace(normalizedOld, normalizedNew);
-      continue;
-    }
+    // Exact matches (honouring context when given) plus indentation-insensitive line matches
+    // that do not overlap them, so expectedOccurrences and replaceAll see every copy
+    const exactMatches = findExactOccurrences(modifiedContent, normalizedOld)
+      .filter(offset => matchesEditContext(modifiedContent, offset, offset + normalizedOld.length, edit.context));
+    const occurrences = exactMatches.map(offset => ({
+      start: offset,
+      end: offset + normalizedOld.length,
+      line: lineNumberAt(modifiedContent, offset),
+      replacement: normalizedNew,
+      exact: true,
+    }));
 
-    // Flexible line-by-line matching with indentation preservation and context validation
     const oldLines = normalizedOld.split('\n');
     const contentLines = modifiedContent.split('\n');
-    let matchFound = false;
-
-    for (let i = 0; i <= contentLines.length - oldLines.length; i++) {
-      const potentialMatch = contentLines.slice(i, i + oldLines.length);
-      const isMatch = oldLines.every((oldLine, j) => {
-        const contentLine = potentialMatch[j];
-        return oldLine.trim() === contentLine.trim();
-      });
-
-      if (isMatch) {
-        // DEFENSIVE PROGRAMMING: Context validation if specified
-        if (edit.context) {
-          let contextMatch = true;
-          
-          // Check before context
-          if (edit.context.before) {
-            const beforeLine = i > 0 ? contentLines[i - 1] : undefined;
-            if (!beforeLine || !beforeLine.includes(edit.context.before)) {
-              contextMatch = false;
-            }
-          }
-          
-          // Check after context
-          if (edit.context.after) {
-            const afterLineIndex = i + oldLines.length;
-            const afterLine = afterLineIndex < contentLines.length ? contentLines[afterLineIndex] : undefined;
-            if (!afterLine || !afterLine.includes(edit.context.after)) {
-              contextMatch = false;
-            }
-          }
-          
-          // Skip this match if context doesn't match
-          if (!contextMatch) {
-            continue;
-          }
-        }
-
-        const originalIndent = contentLines[i].match(/^\s*/)?.[0] || '';
-        const newLines = normalizedNew.split('\n').map((line, j) => {
-          if (j === 0) return originalIndent + line.trimStart();
-          const oldIndent = oldLines[j]?.match(/^\s*/)?.[0] || '';
-          const newIndent = line.match(/^\s*/)?.[0] || '';
-          if (oldIndent && newIndent) {
-            const relativeIndent = newIndent.length - oldIndent.length;
-            return originalIndent + ' '.repeat(Math.max(0, relativeIndent)) + line.trimStart();
-          }
-          return line;
-        });
+    let lineStart = 0;
+    const lineStarts = contentLines.map(line => {
+      const start = lineStart;
+      lineStart += line.length + 1;
+      return start;
+    });
+    // Blank search text would match every blank line, so it only falls back when nothing matched exactly
+    const flexibleMatches = exactMatches.length > 0 && normalizedOld.trim().length === 0
+      ? []
+      : findFlexibleOccurrences(contentLines, oldLines, edit.context);
+    for (const i of flexibleMatches) {
+      const lastLine = i + oldLines.length - 1;
+      const start = lineStarts[i];
+      const end = lineStarts[lastLine] + contentLines[lastLine].length;
+      if (exactMatches.some(offset => offset < end && start < offset + normalizedOld.length)) continue;
+      occurrences.push({ start, end, line: i + 1, replacement: reindentReplacement(contentLines[i], oldLines, normalizedNew), exact: false });
+    }
+    occurrences.sort((a, b) => a.start - b.start);
 
-        contentLines.splice(i, oldLines.length, ...newLines);
-        modifiedContent = contentLines.join('\n');
-        matchFound = true;
-        break;
+    if (occurrences.length > 0) {
+      assertOccurrenceCount(edit, index, occurrences.map(occurrence => occurrence.line));
+      // Without replaceAll an exact match is preferred over an indentation-insensitive one
+      const targets = edit.replaceAll ? occurrences : [occurrences.find(occurrence => occurrence.exact) ?? occurrences[0]];
+      // Splice by offset, last match first, so "$" sequences in the new text stay literal
+      for (const target of [...targets].reverse()) {
+        modifiedContent = modifiedContent.slice(0, target.start) + target.replacement + modifiedContent.slice(target.end);
       }
+      continue;
     }
 
-    if (!matchFound) {
-      // FUZZY MATCHING: Use diff library to find similar lines
-      const contentLines = modifiedContent.split('\n');
-      const searchLines = normalizedOld.split('\n');
-      
-      // Find lines with character-level similarity using diff
-      const diffResult = diffLines(normalizedOld, modifiedContent);
-      
-      // Extract similar lines that were changed or removed
-      const similarLines: string[] = [];
-      const contextLines: string[] = [];
-      
-      for (const part of diffResult) {
-        if (part.removed || part.added) {
-          const lines = part.value.trim().split('\n').filter(line => line.trim().length > 0);
-          if (part.removed) {
-            // These are lines that were "removed" which means they exist in search but not in content
-            // We want lines that are similar to our search
-            for (const line of lines) {
-              const trimmedLine = line.trim();
-              if (trimmedLine.length > 0) {
-                contextLines.push(`Expected: ${trimmedLine}`);
-              }
+    // FUZZY MATCHING: Use diff library to find similar lines
+    const searchLines = normalizedOld.split('\n');
+    
+    // Find lines with character-level similarity using diff
+    const diffResult = diffLines(normalizedOld, modifiedContent);
+    
+    // Extract similar lines that were changed or removed
+    const similarLines: string[] = [];
+    const contextLines: string[] = [];
+    
+    for (const part of diffResult) {
+      if (part.removed || part.added) {
+        const lines = part.value.trim().split('\n').filter(line => line.trim().length > 0);
+        if (part.removed) {
+          // These are lines that were "removed" which means they exist in search but not in content
+          // We want lines that are similar to our search
+          for (const line of lines) {
+            const trimmedLine = line.trim();
+            if (trimmedLine.length > 0) {
+              contextLines.push(`Expected: ${trimmedLine}`);
             }
-          } else if (part.added) {
-            // These are lines that were "added" which means they exist in content but not in search
-            // These are potential matches
-            for (const line of lines) {
-              const trimmedLine = line.trim();
-              if (trimmedLine.length > 0) {
-                similarLines.push(trimmedLine);
-              }
+          }
+        } else if (part.added) {
+          // These are lines that were "added" which means they exist in content but not in search
+          // These are potential matches
+          for (const line of lines) {
+            const trimmedLine = line.trim();
+            if (trimmedLine.length > 0) {
+              similarLines.push(trimmedLine);
             }
           }
         }
       }
+    }
+    
+    // Look for close matches using simple string similarity
+    const allContentLines = contentLines.map(line => line.trim()).filter(line => line.length > 0);
+    const searchLine = searchLines[0]?.trim() || normalizedOld.trim();
+    
+    if (searchLine.length > 0) {
+      const possibleMatches = allContentLines
+        .map(line => ({
+          line,
+          similarity: calculateStringSimilarity(searchLine, line)
+        }))
+        .filter(match => match.similarity > 0.3) // 30% similarity threshold
+        .sort((a, b) => b.similarity - a.similarity)
+        .slice(0, 12); // Top 12 matches
       
-      // Look for close matches using simple string similarity
-      const allContentLines = contentLines.map(line => line.trim()).filter(line => line.length > 0);
-      const searchLine = searchLines[0]?.trim() || normalizedOld.trim();
-      
-      if (searchLine.length > 0) {
-        const possibleMatches = allContentLines
-          .map(line => ({
-            line,
-            similarity: calculateStringSimilarity(searchLine, line)
-          }))
-          .filter(match => match.similarity > 0.3) // 30% similarity threshold
-          .sort((a, b) => b.similarity - a.similarity)
-          .slice(0, 12); // Top 12 matches
-        
-        for (const match of possibleMatches) {
-          if (!similarLines.includes(match.line)) {
-            similarLines.push(match.line);
-          }
+      for (const match of possibleMatches) {
+        if (!similarLines.includes(match.line)) {
+          similarLines.push(match.line);
         }
       }
-      
-      // Prepare helpful error message with similar lines
-      let errorMessage = `Could not find exact or flexible match for edit at index ${index}:\n${normalizedOld}`;
-      
-      if (similarLines.length > 0) {
-        errorMessage += '\n\nFound similar lines that might be what you\'re looking for:';
-        for (let i = 0; i < Math.min(12, similarLines.length); i++) {
-          errorMessage += `\n${i + 1}. "${similarLines[i]}"`;
-        }
-        errorMessage += '\n\nPlease verify the exact text you want to replace and try again.';
-      } else {
-        errorMessage += '\n\nNo similar lines found. Please check the file content and ensure the text to replace exists.';
+    }
+    
+    // Prepare helpful error message with similar lines
+    let errorMessage = `Could not find exact or flexible match for edit at index ${index}:\n${normalizedOld}`;
+    
+    if (similarLines.length > 0) {
+      errorMessage += '\n\nFound similar lines that might be what you\'re looking for:';
+      for (let i = 0; i < Math.min(12, similarLines.length); i++) {
+        errorMessage += `\n${i + 1}. "${similarLines[i]}"`;
       }
-      
-      throw new UserError(errorMessage);
+      errorMessage += '\n\nPlease verify the exact text you want to replace and try again.';
+    } else {
+      errorMessage += '\n\nNo similar lines found. Please check the file content and ensure the text to replace exists.';
     }
+    
+    throw new UserError(errorMessage);
   }
 
-  // Generate diff with proper formatting
-  const diff = createUnifiedDiff(content, modifiedContent, filePath);
+  return {
+    original,
+    updated: encodeFileContent(modifiedContent, decoded),
+    diff: formatDiffBlock(createUnifiedDiff(content, modifiedContent, filePath)),
+    hasChanges: modifiedContent !== content,
+  };
+}
+
+/**
+ * IMMUTABILITY: Pure function wrapping a unified diff in a markdown code fence
+ *
+ * Invariants:
+ * - The fence is longer than any backtick run inside the diff, so it can never be closed early
+ */
+function formatDiffBlock(diff: string): string {
   let numBackticks = 3;
   while (diff.includes('`'.repeat(numBackticks))) {
     numBackticks++;
   }
-  const formattedDiff = `${'`'.repeat(numBackticks)}diff\n${diff}${'`'.repeat(numBackticks)}\n\n`;
+  return `${'`'.repeat(numBackticks)}diff\n${diff}${'`'.repeat(numBackticks)}\n\n`;
+}
 
-  // Write file if not dry run
-  if (!dryRun) {
-    await fs.writeFile(filePath, modifiedContent, 'utf-8');
+/**
+ * CONTRACT: Line-range operations supported by edit_lines
+ */
+type LineEditOperation = 'replace' | 'insert_before' | 'insert_after' | 'delete';
+
+/**
+ * IMMUTABILITY: Pure function for content hashing of a line range
+ *
+ * Invariants:
+ * - The range text is the selected lines joined with \n, without a trailing newline
+ */
+function hashLineRange(lines: string[], startLine: number, endLine: number): string {
+  return createHash('sha256').update(lines.slice(startLine - 1, endLine).join('\n')).digest('hex');
+}
+
+/**
+ * IMMUTABILITY: Pure function for splitting normalized content into lines
+ *
+ * Postconditions:
+ * - A trailing newline does not produce an extra empty line; it is reported separately
+ * - Empty content has zero lines
+ */
+function splitContentLines(content: string): { lines: string[]; trailingNewline: boolean } {
+  if (content.length === 0) {
+    return { lines: [], trailingNewline: false };
+  }
+  const trailingNewline = content.endsWith('\n');
+  return { lines: (trailingNewline ? content.slice(0, -1) : content).split('\n'), trailingNewline };
+}
+
+/**
+ * CONTRACT: Apply one line-range operation to normalized content
+ *
+ * Preconditions:
+ * - 1 <= startLine <= endLine <= number of lines (inserting into an empty file allows line 1)
+ * - expectedHash, when given, is the sha256 of the range as computed by hashLineRange
+ *
+ * Postconditions:
+ * - Returns the modified content; the file's trailing newline state is preserved
+ * - Throws a UserError with the current range content when the hash does not match
+ */
+function applyLineEdit(
+  content: string,
+  operation: LineEditOperation,
+  startLine: number,
+  endLine: number,
+  newText: string,
+  expectedHash?: string
+): string {
+  const { lines, trailingNewline } = splitContentLines(content);
+
+  const insertingIntoEmptyFile = lines.length === 0 && startLine === 1 && endLine === 1 && operation.startsWith('insert');
+  if (!insertingIntoEmptyFile && (endLine > lines.length || startLine > endLine)) {
+    throw new UserError(`Line range ${startLine}-${endLine} is outside the file (${lines.length} lines)`);
+  }
+
+  if (expectedHash !== undefined && !insertingIntoEmptyFile) {
+    const actualHash = hashLineRange(lines, startLine, endLine);
+    if (actualHash !== expectedHash.toLowerCase()) {
+      throw new UserError(
+        `Content of lines ${startLine}-${endLine} does not match expectedHash (expected ${expectedHash}, found ${actualHash}). ` +
+        `Current content:\n${formatNumberedLines(lines.slice(startLine - 1, endLine), startLine)}`
+      );
+    }
+  }
+
+  const { lines: newLines } = splitContentLines(normalizeLineEndings(newText));
+  const updated = [...lines];
+  switch (operation) {
+    case 'replace':
+      updated.splice(startLine - 1, endLine - startLine + 1, ...newLines);
+      break;
+    case 'delete':
+      updated.splice(startLine - 1, endLine - startLine + 1);
+      break;
+    case 'insert_before':
+      updated.splice(startLine - 1, 0, ...newLines);
+      break;
+    case 'insert_after':
+      updated.splice(insertingIntoEmptyFile ? 0 : endLine, 0, ...newLines);
+      break;
   }
 
-  return formattedDiff;
+  if (updated.length === 0) {
+    return '';
+  }
+  return updated.join('\n') + (trailingNewline || lines.length === 0 ? '\n' : '');
+}
+
+/**
+ * CONTRACT: Gitignore matcher bounded by the allowed directories
+ *
+ * Postconditions:
+ * - Boundaries are resolved the same way validatePath resolves paths, so validated paths line up
+ */
+async function createGitignoreMatcher(): Promise<IgnoreMatcher> {
+  const { allowedDirectories } = await import("../utils/security.js");
+  const boundaries = await Promise.all(allowedDirectories.map((dir: string) => fs.realpath(dir).catch(() => dir)));
+  return createIgnoreMatcher(boundaries);
 }
 
 /**
@@ -345,6 +745,7 @@ async function applyFileEdits(
  * - targets must be non-empty array of strings
  * - all target paths must be validated through security boundaries
  * - ignorePatterns must be valid array of strings or undefined
+ * - respectGitignore lets .gitignore/.ignore rules decide about node_modules and bin; the other defaults stay
  * 
  * Postconditions:
  * - Returns Set of absolute file paths for deduplication
@@ -356,11 +757,12 @@ async function applyFileEdits(
  * - File discovery is deterministic for same inputs
  * - Security boundaries are never violated
  * - Error isolation prevents one target from affecting others
- * - Default ignore patterns are always applied
+ * - Default ignore patterns (hidden files included) are always applied, minus node_modules/bin with respectGitignore
  */
 async function discoverTargetFiles(
   targets: string[], 
-  ignorePatterns: string[] = []
+  ignorePatterns: string[] = [],
+  respectGitignore = false
 ): Promise<Set<string>> {
   // DEFENSIVE PROGRAMMING: Input validation
   if (!Array.isArray(targets) || targets.length === 0) {
@@ -443,8 +845,16 @@ async function discoverTargetFiles(
     '**/.*'
   ];
   
-  // IMMUTABILITY: Combine default and user patterns
-  const allIgnorePatterns = [...defaultIgnorePatterns, ...ignorePatterns];
+  // IMMUTABILITY: Combine default and user patterns; gitignore rules decide about dependencies and build outputs
+  const gitignoreReplacedPatterns = ['**/node_modules/**', '**/bin/**'];
+  const allIgnorePatterns = [
+    ...(respectGitignore ? defaultIgnorePatterns.filter(pattern => !gitignoreReplacedPatterns.includes(pattern)) : defaultIgnorePatterns),
+    ...ignorePatterns
+  ];
+  const gitignore = respectGitignore ? await createGitignoreMatcher() : null;
+  const trash = await getTrashExclusion();
+  const globIgnore = (cwd: string) =>
+    gitignore ? toGlobIgnore(trash.exclude(gitignore), cwd, allIgnorePatterns) : [...allIgnorePatterns, ...trash.globIgnore];
   
   // IMMUTABILITY: Use Set for automatic deduplication
   const allTargetFiles = new Set<string>();
@@ -460,7 +870,7 @@ async function discoverTargetFiles(
         
         if (stats?.isFile()) {
           // Direct file target - check if it should be ignored using glob patterns
-          let shouldIgnore = false;
+          let shouldIgnore = trash.contains(validTarget) || (gitignore?.isIgnored(validTarget, false) ?? false);
           for (const pattern of allIgnorePatterns) {
             try {
               // Use glob to test if file matches ignore pattern
@@ -489,10 +899,12 @@ async function discoverTargetFiles(
             nodir: true, 
             absolute: true,
             dot: true,
-            ignore: allIgnorePatterns
+            ignore: globIgnore(validTarget)
           });
           for (const file of files) {
-            targetFiles.add(file);
+            if (!trash.contains(file)) {
+              targetFiles.add(file);
+            }
           }
         } else {
           // Assume it's a glob pattern
@@ -500,13 +912,15 @@ async function discoverTargetFiles(
             nodir: true, 
             absolute: true,
             dot: true,
-            ignore: allIgnorePatterns
+            ignore: globIgnore(process.cwd())
           });
           for (const file of files) {
             // SECURITY BOUNDARY: Validate each discovered file
             try {
               const validFile = await validatePath(file);
-              targetFiles.add(validFile);
+              if (!trash.contains(validFile)) {
+                targetFiles.add(validFile);
+              }
             } catch (e) {
               // Skip files outside allowed directories
               continue;
@@ -531,15 +945,674 @@ async function discoverTargetFiles(
       }
     }
   }
-  
-  // CONTRACT: Postcondition verification
-  for (const filePath of allTargetFiles) {
-    if (!path.isAbsolute(filePath)) {
-      throw new UserError(`Postcondition violated: non-absolute path discovered: ${filePath}`);
+  
+  // CONTRACT: Postcondition verification
+  for (const filePath of allTargetFiles) {
+    if (!path.isAbsolute(filePath)) {
+      throw new UserError(`Postcondition violated: non-absolute path discovered: ${filePath}`);
+    }
+  }
+  
+  return allTargetFiles;
+}
+
+/**
+ * CONTRACT: Staging limit for transactional bulk edits
+ *
+ * Invariants:
+ * - Original and modified contents of every staged file are held in memory until commit
+ */
+const BULK_EDIT_TRANSACTION_MAX_FILES = 10000;
+
+/**
+ * CONTRACT: Outcome of an all-or-nothing bulk edit
+ *
+ * Invariants:
+ * - committed is true only if every changed file was written
+ * - errors is empty whenever committed is true
+ */
+interface BulkEditTransactionResult {
+  committed: boolean;
+  staged: Array<{ file: string; diff: string; hasChanges: boolean }>;
+  errors: Array<{ file: string; error: string }>;
+  snapshots: FileSnapshot[];
+}
+
+/**
+ * CONTRACT: All-or-nothing multi-file edit
+ *
+ * Preconditions:
+ * - files must be discovered absolute paths; each is re-validated here
+ *
+ * Postconditions:
+ * - If any file fails validation or matching, no file is written
+ * - If a write fails during commit, every file written so far is restored to its original bytes
+ * - A file modified by someone else between staging and commit aborts the commit
+ * - A file whose content differs from its entry in expectedSha256ByPath is a blocking error
+ *
+ * Invariants:
+ * - Files are committed sequentially so a rollback knows exactly what was written
+ */
+async function runBulkEditTransaction(
+  files: string[],
+  selectEdits: (file: string) => FileEditOperation[],
+  dryRun: boolean,
+  encoding?: FileEncoding,
+  expectedSha256ByPath: Map<string, string> = new Map()
+): Promise<BulkEditTransactionResult> {
+  const BATCH_SIZE = 1000;
+  const staged: Array<{ file: string; validFile: string; prepared: PreparedFileEdit }> = [];
+  const errors: Array<{ file: string; error: string }> = [];
+
+  // PHASE 1: Validate every edit against every file and stage the new contents
+  for (let i = 0; i < files.length; i += BATCH_SIZE) {
+    const batch = files.slice(i, i + BATCH_SIZE);
+    const results = await Promise.allSettled(batch.map(async (file) => {
+      const validFile = await validatePath(file);
+      const stats = await fs.stat(validFile);
+      if (!stats.isFile()) {
+        throw new UserError(`Not a regular file: ${file}`);
+      }
+      const applicableEdits = selectEdits(file);
+      if (applicableEdits.length === 0) {
+        return null;
+      }
+      await assertExpectedVersion(validFile, { expectedSha256: expectedSha256ByPath.get(validFile) });
+      return { file, validFile, prepared: await prepareFileEdits(validFile, applicableEdits, encoding) };
+    }));
+
+    results.forEach((result, index) => {
+      if (result.status === 'rejected') {
+        const error = result.reason instanceof Error ? result.reason.message : String(result.reason);
+        errors.push({ file: batch[index], error });
+      } else if (result.value) {
+        staged.push(result.value);
+      }
+    });
+  }
+
+  const stagedSummary = staged.map(({ file, prepared }) => ({ file, diff: prepared.diff, hasChanges: prepared.hasChanges }));
+  if (errors.length > 0 || dryRun) {
+    return { committed: false, staged: stagedSummary, errors, snapshots: [] };
+  }
+
+  // PHASE 2: Commit sequentially, rolling back everything written so far on the first failure
+  const changed = staged.filter(entry => entry.prepared.hasChanges);
+  const snapshots: FileSnapshot[] = [];
+  const written: typeof changed = [];
+
+  for (const entry of changed) {
+    try {
+      const current = await fs.readFile(entry.validFile);
+      if (!Buffer.from(current).equals(Buffer.from(entry.prepared.original))) {
+        throw new UserError('File was modified by another process after the edits were validated');
+      }
+      snapshots.push(await snapshotFile(entry.validFile));
+      await writeFileAtomic(entry.validFile, entry.prepared.updated);
+      written.push(entry);
+    } catch (error: any) {
+      const errorMessage = error instanceof Error ? error.message : String(error);
+
+      const rollbackFailures: string[] = [];
+      for (const done of written.reverse()) {
+        try {
+          await writeFileAtomic(done.validFile, done.prepared.original);
+        } catch (rollbackError: any) {
+          rollbackFailures.push(`${done.file}: ${rollbackError instanceof Error ? rollbackError.message : String(rollbackError)}`);
+        }
+      }
+
+      if (rollbackFailures.length > 0) {
+        throw new UserError(
+          `Transactional bulk edit failed while committing ${entry.file} (${errorMessage}) and these files could not be rolled back:\n` +
+          rollbackFailures.map(failure => `  - ${failure}`).join('\n')
+        );
+      }
+
+      return { committed: false, staged: stagedSummary, errors: [{ file: entry.file, error: `Commit failed: ${errorMessage}` }], snapshots: [] };
+    }
+  }
+
+  return { committed: true, staged: stagedSummary, errors: [], snapshots };
+}
+
+/**
+ * CONTRACT: Outcome of applying one file section of a patch, before anything is written
+ *
+ * Invariants:
+ * - sourcePath is null for creations, targetPath is null for deletions
+ * - updated is null for deletions and for files with an error
+ * - original holds the source bytes read while planning (null for creations), so a failed
+ *   commit can roll back files of any size
+ * - error covers problems with the file itself; rejected hunks are reported in hunks
+ */
+interface PatchedFilePlan {
+  label: string;
+  kind: 'create' | 'modify' | 'delete' | 'rename';
+  sourcePath: string | null;
+  targetPath: string | null;
+  original: Buffer | null;
+  updated: Buffer | null;
+  hunks: HunkResult[];
+  error?: string;
+}
+
+/**
+ * CONTRACT: Apply one file section of a patch in memory
+ *
+ * Preconditions:
+ * - resolvePatchPath maps patch paths to absolute candidates; they are validated here
+ *
+ * Postconditions:
+ * - Never writes; never throws for per-file problems (they are reported in `error`)
+ * - A source file whose content differs from its entry in expectedSha256ByPath is an error
+ * - Original encoding and BOM are preserved; new files are written as UTF-8
+ * - A deletion only succeeds when the patched content is empty, i.e. the patch removed every line
+ */
+async function planFilePatch(
+  filePatch: FilePatch,
+  resolvePatchPath: (patchPath: string) => string,
+  fuzz: number,
+  expectedSha256ByPath: Map<string, string> = new Map()
+): Promise<PatchedFilePlan> {
+  const kind = !filePatch.oldPath ? 'create'
+    : !filePatch.newPath ? 'delete'
+    : filePatch.oldPath !== filePatch.newPath ? 'rename' : 'modify';
+  const plan: PatchedFilePlan = {
+    label: filePatch.newPath ?? filePatch.oldPath!,
+    kind,
+    sourcePath: null,
+    targetPath: null,
+    original: null,
+    updated: null,
+    hunks: [],
+  };
+
+  try {
+    plan.sourcePath = filePatch.oldPath ? await validatePath(resolvePatchPath(filePatch.oldPath)) : null;
+    plan.targetPath = filePatch.newPath ? await validatePath(resolvePatchPath(filePatch.newPath)) : null;
+
+    let decoded: DecodedContent | null = null;
+    if (plan.sourcePath) {
+      const stats = await fs.stat(plan.sourcePath).catch((error: any) => {
+        throw new UserError(error.code === 'ENOENT' ? `File does not exist: ${filePatch.oldPath}` : `Cannot access file: ${error.message}`);
+      });
+      if (!stats.isFile()) {
+        throw new UserError(`Not a regular file: ${filePatch.oldPath}`);
+      }
+      await assertExpectedVersion(plan.sourcePath, { expectedSha256: expectedSha256ByPath.get(plan.sourcePath) });
+      plan.original = await fs.readFile(plan.sourcePath);
+      decoded = decodeFileContent(plan.original, plan.sourcePath);
+      if (decoded.isBinary) {
+        throw new UserError(`Cannot patch binary file (${decoded.mimeType}): ${filePatch.oldPath}`);
+      }
+    }
+    if (plan.targetPath && plan.targetPath !== plan.sourcePath && await getFileVersion(plan.targetPath)) {
+      throw new UserError(`File already exists: ${filePatch.newPath}`);
+    }
+
+    const { content, results } = applyHunks(decoded ? normalizeLineEndings(decoded.text) : '', filePatch.hunks, fuzz);
+    // Hunks are applied to LF text; CRLF files are converted back so only patched lines change
+    const crlf = decoded !== null && analyzeLines(decoded.text).lineEndings === 'crlf';
+    plan.hunks = results;
+
+    if (kind === 'delete') {
+      if (content.length > 0 && results.every(result => result.applied)) {
+        throw new UserError('File still has content after removing the patched lines; it does not match the deletion patch');
+      }
+    } else {
+      plan.updated = encodeFileContent(crlf ? content.replace(/\n/g, '\r\n') : content, decoded ?? { encoding: 'utf-8', bom: false });
+    }
+  } catch (error: any) {
+    plan.error = error instanceof Error ? error.message : String(error);
+    plan.updated = null;
+  }
+
+  return plan;
+}
+
+/**
+ * IMMUTABILITY: Pure function for the per-file apply_patch report
+ */
+function formatPatchPlan(plan: PatchedFilePlan): string {
+  const lines = [`━━━ ${plan.kind.toUpperCase()} ${plan.label} ━━━`];
+  if (plan.error) {
+    lines.push(`  ✗ ${plan.error}`);
+  }
+  for (const result of plan.hunks) {
+    if (!result.applied) {
+      lines.push(`  ✗ Hunk ${result.hunk} ${result.header} rejected: ${result.reason}`);
+      continue;
+    }
+    const notes = [
+      ...(result.offset ? [`offset ${result.offset > 0 ? '+' : ''}${result.offset} lines`] : []),
+      ...(result.fuzz ? [`fuzz ${result.fuzz}`] : []),
+    ];
+    lines.push(`  ✓ Hunk ${result.hunk} ${result.header} applied at line ${result.line}${notes.length > 0 ? ` (${notes.join(', ')})` : ''}`);
+  }
+  return lines.join('\n');
+}
+
+/**
+ * IMMUTABILITY: Pure function for entry-type tallies in directory tool reports
+ */
+function countEntryTypes(entries: DirectoryEntry[]): string {
+  const count = (type: DirectoryEntryType) => entries.filter(entry => entry.type === type).length;
+  return `${count('file')} files, ${count('directory')} directories, ${count('symlink')} symlinks`;
+}
+
+/**
+ * IMMUTABILITY: Pure function for the copy_directory / move_directory report
+ */
+function describeCopyPlan(plan: DirectoryCopyPlan, heading: string, includeListing: boolean): string {
+  const tally = (action: CopyAction) => plan.entries.filter(entry => entry.action === action).length;
+  const lines = [
+    `${heading}: ${plan.entries.length} entries (${countEntryTypes(plan.entries)})`,
+    `  • Created: ${tally('create')}`,
+    `  • Overwritten: ${tally('overwrite')}`,
+    `  • Skipped (destination kept): ${tally('skip')}`,
+  ];
+  if (plan.conflicts.length > 0) {
+    lines.push(`  • Conflicts: ${plan.conflicts.length}`, formatEntryListing(plan.conflicts.map(conflict => `    ✗ ${conflict}`)));
+  }
+  if (includeListing && plan.entries.length > 0) {
+    lines.push('', formatEntryListing(plan.entries.map(entry =>
+      `  ${entry.action.padEnd(9)} ${entry.relativePath}${entry.type === 'directory' ? '/' : ''}`
+    )));
+  }
+  return lines.join('\n');
+}
+
+/**
+ * SECURITY BOUNDARY: Allowed root directories may be written into, but never moved or deleted
+ */
+async function assertNotAllowedRoot(validPath: string, operation: string): Promise<void> {
+  const { allowedDirectories } = await import("../utils/security.js");
+  if (allowedDirectories.some((dir: string) => path.relative(dir, validPath) === '')) {
+    throw new UserError(`Cannot ${operation} an allowed root directory: ${validPath}`);
+  }
+}
+
+/**
+ * CONTRACT: Server trash directory
+ *
+ * Postconditions:
+ * - Returns MCP_FILESYSTEM_TRASH_DIR, or .mcp-trash in the first allowed directory
+ * - Throws a UserError when the configured directory is outside the allowed directories
+ */
+async function resolveTrashDirectory(): Promise<string> {
+  const { allowedDirectories } = await import("../utils/security.js");
+  const configured = process.env[TRASH_DIRECTORY_ENV] || path.join(allowedDirectories[0], TRASH_DIRECTORY_NAME);
+  try {
+    return await validatePath(configured);
+  } catch (error: any) {
+    throw new UserError(`Trash directory ${configured} is not usable (${error.message}). Set ${TRASH_DIRECTORY_ENV} to a directory inside an allowed directory.`);
+  }
+}
+
+/**
+ * CONTRACT: Keep the server trash out of file discovery
+ *
+ * Postconditions:
+ * - contains() is true for the trash directory and everything below it, so trashed copies are never
+ *   edited, searched or listed, whatever the hidden-file, ignore and gitignore settings are
+ * - globIgnore prunes the trash from glob walks; it is empty when the trash path has glob syntax in it
+ *   (contains() still filters the results)
+ * - exclude() wraps an ignore matcher (or none) so that it also ignores the trash
+ * - An unusable trash configuration excludes nothing and never fails discovery
+ */
+interface TrashExclusion {
+  contains(absolutePath: string): boolean;
+  globIgnore: string[];
+  exclude(matcher: IgnoreMatcher | null): IgnoreMatcher;
+}
+
+async function getTrashExclusion(): Promise<TrashExclusion> {
+  const trashDir = await resolveTrashDirectory().catch(() => null);
+  const contains = (absolutePath: string): boolean =>
+    trashDir !== null && (absolutePath === trashDir || absolutePath.startsWith(trashDir + path.sep));
+  const trashGlob = trashDir?.split(path.sep).join('/');
+
+  return {
+    contains,
+    globIgnore: trashGlob && !hasGlobMagic(trashGlob) && !/[()!+@\\]/.test(trashGlob) ? [trashGlob, `${trashGlob}/**`] : [],
+    exclude: (matcher) => ({
+      isIgnored: (absolutePath, isDirectory) => contains(absolutePath) || (matcher?.isIgnored(absolutePath, isDirectory) ?? false)
+    })
+  };
+}
+
+/**
+ * CONTRACT: Trash an already validated path and purge expired entries
+ *
+ * Postconditions:
+ * - Purging is best-effort and never fails the delete
+ */
+async function moveToServerTrash(validPath: string, tool: string): Promise<TrashEntry> {
+  const trashDir = await resolveTrashDirectory();
+  const entry = await moveToTrash(trashDir, validPath, tool);
+  await purgeTrash(trashDir, { olderThanDays: getTrashRetentionDays() }).catch(() => undefined);
+  return entry;
+}
+
+/**
+ * IMMUTABILITY: Pure function for one list_trash / empty_trash line
+ */
+function formatTrashEntry(entry: TrashEntry): string {
+  return `${entry.id}  ${entry.deletedAt}  ${entry.type.padEnd(9)} ${formatBytes(entry.size).padStart(10)}  ${entry.originalPath}`;
+}
+
+/**
+ * CONTRACT: Page size limits for search_files_and_folders
+ */
+const SEARCH_DEFAULT_LIMIT = 1000;
+const SEARCH_MAX_LIMIT = 10000;
+
+/**
+ * CONTRACT: One search_files_and_folders result
+ *
+ * Invariants:
+ * - size is only present for files
+ */
+interface SearchMatch {
+  path: string;
+  type: 'file' | 'directory';
+  size?: number;
+  modified: string;
+}
+
+/**
+ * CONTRACT: get_file_info result
+ *
+ * Invariants:
+ * - extension is only present for files that have one
+ * - content is only present for regular files when content inspection was requested
+ */
+interface FileInfoMetadata {
+  path: string;
+  realPath?: string;
+  type: string;
+  size: number;
+  sizeHuman: string;
+  permissions: {
+    octal: string;
+    user: FilePermissionBits;
+    group: FilePermissionBits;
+    others: FilePermissionBits;
+  };
+  timestamps: { created: string; modified: string; accessed: string; changed: string };
+  system: { inode: number; device: number; links: number; uid: number; gid: number };
+  extension?: string;
+  content?: FileContentInfo;
+}
+
+interface FilePermissionBits {
+  read: boolean;
+  write: boolean;
+  execute: boolean;
+}
+
+const SEARCH_DURATION_UNITS: Record<string, number> = { m: 60_000, h: 3_600_000, d: 86_400_000, w: 604_800_000 };
+
+/**
+ * CONTRACT: Parse a modified_after / modified_before bound
+ *
+ * Postconditions:
+ * - Accepts ISO 8601 timestamps or durations back from now ("30m", "24h", "7d", "2w")
+ * - Returns epoch milliseconds; throws a UserError naming the argument for anything else
+ */
+function parseSearchTimeBound(value: string, argument: string, now = Date.now()): number {
+  const duration = /^(\d+(?:\.\d+)?)\s*([mhdw])$/i.exec(value.trim());
+  if (duration) {
+    return now - Number(duration[1]) * SEARCH_DURATION_UNITS[duration[2].toLowerCase()];
+  }
+  const timestamp = Date.parse(value);
+  if (Number.isNaN(timestamp)) {
+    throw new UserError(`${argument} must be an ISO 8601 timestamp or a duration like "24h" or "7d": ${value}`);
+  }
+  return timestamp;
+}
+
+/**
+ * IMMUTABILITY: Pure mapping from stat results to the type names reported by get_file_info
+ */
+function describeFileType(stats: { isFile(): boolean; isDirectory(): boolean; isSymbolicLink(): boolean; isBlockDevice(): boolean; isCharacterDevice(): boolean; isFIFO(): boolean; isSocket(): boolean }): string {
+  if (stats.isFile()) return 'file';
+  if (stats.isDirectory()) return 'directory';
+  if (stats.isSymbolicLink()) return 'symlink';
+  if (stats.isBlockDevice()) return 'block_device';
+  if (stats.isCharacterDevice()) return 'character_device';
+  if (stats.isFIFO()) return 'fifo';
+  if (stats.isSocket()) return 'socket';
+  return 'unknown';
+}
+
+/**
+ * CONTRACT: Limits for get_files_info
+ *
+ * Invariants:
+ * - A glob walk stops as soon as GET_FILES_INFO_MAX_ENTRIES matches were found
+ * - node_modules is skipped unless the pattern names it
+ */
+const GET_FILES_INFO_MAX_ENTRIES = 1000;
+const GET_FILES_INFO_DEFAULT_IGNORE = ['**/node_modules/**'];
+
+/**
+ * CONTRACT: Size limits for single-file reads
+ *
+ * Invariants:
+ * - Line-mode reads load the whole file, so they are refused above READ_FILE_MAX_LINE_MODE_SIZE
+ * - Byte-mode reads only load the requested slice and have no file size limit
+ */
+const READ_FILE_DEFAULT_LINE_LIMIT = 2000;
+const READ_FILE_DEFAULT_MAX_BYTES = 256 * 1024; // 256KB of returned content
+const READ_FILE_MAX_BYTES = 10 * 1024 * 1024; // 10MB hard ceiling per call
+const READ_FILE_MAX_LINE_MODE_SIZE = 50 * 1024 * 1024; // 50MB
+
+/**
+ * CONTRACT: Accepted shape of base64 content for binary writes (whitespace allowed)
+ */
+const BASE64_PATTERN = /^[A-Za-z0-9+/\s]*={0,2}\s*$/;
+
+/**
+ * IMMUTABILITY: Pure function for line-numbered output
+ *
+ * Preconditions:
+ * - lines must be an array of strings
+ * - startLine must be a positive integer (1-based)
+ *
+ * Postconditions:
+ * - Returns lines prefixed with right-aligned line numbers and a tab
+ *
+ * Invariants:
+ * - Line content is never modified
+ * - Number column width is consistent within one call
+ */
+function formatNumberedLines(lines: string[], startLine: number): string {
+  const width = String(startLine + lines.length - 1).length;
+  return lines
+    .map((line, index) => `${String(startLine + index).padStart(width, ' ')}\t${line}`)
+    .join('\n');
+}
+
+/**
+ * CONTRACT: Line-range selection with output size cap
+ *
+ * Preconditions:
+ * - text is the decoded file content
+ * - offset is a 1-based line number, limit a positive line count
+ * - maxBytes must be a positive integer
+ *
+ * Postconditions:
+ * - Returns at most `limit` lines starting at `offset`, numbered from `offset`
+ * - Returned content never exceeds `maxBytes` (UTF-8) except for the line-number gutter
+ * - nextOffset is set when more lines remain after the returned range
+ *
+ * Invariants:
+ * - Input text is never modified
+ * - totalLines counts a trailing newline as terminating the last line, not starting a new one
+ */
+function selectLineRange(
+  text: string,
+  offset: number,
+  limit: number,
+  maxBytes: number
+): { text: string; startLine: number; endLine: number; totalLines: number; nextOffset?: number; lineTruncated: boolean } {
+  const content = normalizeLineEndings(text);
+  const allLines = content.split('\n');
+  if (allLines.length > 1 && allLines[allLines.length - 1] === '') {
+    allLines.pop();
+  }
+  const totalLines = content.length === 0 ? 0 : allLines.length;
+
+  if (totalLines === 0) {
+    return { text: '', startLine: 0, endLine: 0, totalLines, lineTruncated: false };
+  }
+
+  if (offset > totalLines) {
+    throw new UserError(`offset ${offset} is beyond the end of the file (${totalLines} lines)`);
+  }
+
+  // DEFENSIVE PROGRAMMING: Accumulate lines until the line or byte budget is exhausted
+  const selected: string[] = [];
+  let usedBytes = 0;
+  let lineTruncated = false;
+  const lastWanted = Math.min(totalLines, offset + limit - 1);
+
+  for (let lineNumber = offset; lineNumber <= lastWanted; lineNumber++) {
+    const line = allLines[lineNumber - 1];
+    const lineBytes = Buffer.byteLength(line, 'utf8') + 1;
+
+    if (usedBytes + lineBytes > maxBytes) {
+      if (selected.length === 0) {
+        // A single line larger than the budget is cut rather than returned empty
+        selected.push(Buffer.from(line, 'utf8').subarray(0, maxBytes).toString('utf8'));
+        lineTruncated = true;
+      }
+      break;
+    }
+
+    selected.push(line);
+    usedBytes += lineBytes;
+  }
+
+  const endLine = offset + selected.length - 1;
+  return {
+    text: formatNumberedLines(selected, offset),
+    startLine: offset,
+    endLine,
+    totalLines,
+    nextOffset: endLine < totalLines ? endLine + 1 : undefined,
+    lineTruncated,
+  };
+}
+
+/**
+ * CONTRACT: Byte-range file reading without loading the whole file
+ *
+ * Preconditions:
+ * - filePath must be validated and refer to a regular file
+ * - offset is a 0-based byte position, length a positive byte count
+ *
+ * Postconditions:
+ * - Returns the raw bytes in [offset, offset + length) clipped to the file size
+ * - File handle is always closed
+ *
+ * Invariants:
+ * - The file is never modified
+ * - Memory use is bounded by `length`, not by the file size
+ */
+async function readFileBytes(filePath: string, offset: number, length: number): Promise<Buffer> {
+  const handle = await fs.open(filePath, 'r');
+  try {
+    const buffer = Buffer.alloc(length);
+    const { bytesRead } = await handle.read(buffer, 0, length, offset);
+    return buffer.subarray(0, bytesRead);
+  } finally {
+    await handle.close();
+  }
+}
+
+/**
+ * CONTRACT: Optimistic concurrency guard for mutating tools
+ *
+ * Preconditions:
+ * - filePath must already be validated against the allowed directories
+ *
+ * Postconditions:
+ * - Returns when no expectation is given or the file still matches it
+ * - Otherwise throws a conflict UserError with the current version and a diff: from the
+ *   expected version when the undo journal still holds it, else from the current content
+ *   to proposedContent
+ *
+ * Invariants:
+ * - Never modifies the file
+ */
+async function assertExpectedVersion(filePath: string, expected: ExpectedVersion, proposedContent?: string): Promise<void> {
+  if (!hasVersionExpectation(expected)) {
+    return;
+  }
+
+  const current = await getFileVersion(filePath);
+  if (!current) {
+    throw new UserError(`Conflict: ${filePath} no longer exists, but a specific version of it was expected. Re-read it and retry.`);
+  }
+  if (fileVersionMatches(current, expected)) {
+    return;
+  }
+
+  const expectedParts = [
+    expected.expectedMtime !== undefined ? `mtime: ${expected.expectedMtime}` : null,
+    expected.expectedSha256 !== undefined ? `sha256: ${expected.expectedSha256.toLowerCase()}` : null,
+  ].filter(part => part !== null);
+  let message = `Conflict: ${filePath} changed since it was last read.\n  Expected: ${expectedParts.join(', ')}\n  Current:  ${formatFileVersion(current)}`;
+
+  if (current.size <= FILE_VERSION_MAX_HASH_BYTES) {
+    const currentText = decodeFileContent(await fs.readFile(filePath), filePath);
+    const base = expected.expectedSha256 ? findJournaledContent(filePath, expected.expectedSha256) : null;
+    const baseText = base ? decodeFileContent(base, filePath) : null;
+
+    if (!currentText.isBinary && baseText && !baseText.isBinary) {
+      message += `\n\nChanges since the expected version:\n${formatDiffBlock(createUnifiedDiff(baseText.text, currentText.text, filePath))}`;
+    } else if (!currentText.isBinary && proposedContent !== undefined) {
+      message += `\n\nThis call would change the current content as follows:\n${formatDiffBlock(createUnifiedDiff(currentText.text, proposedContent, filePath))}`;
+    } else {
+      message += '\n\n';
     }
+  } else {
+    message += '\n\n';
   }
-  
-  return allTargetFiles;
+
+  throw new UserError(`${message}Re-read the file and retry with its current mtime/sha256.`);
+}
+
+/**
+ * CONTRACT: Resource subscriptions for the file://{path} template
+ *
+ * Preconditions:
+ * - Called before the server starts, so every session is seen on connect
+ *
+ * Postconditions:
+ * - Each session advertises resources.subscribe in its initialize response
+ * - Each session answers resources/subscribe and resources/unsubscribe and receives
+ *   notifications/resources/updated when a subscribed file changes on disk
+ * - A session's watchers are closed when it disconnects
+ */
+export function registerFileResourceSubscriptions(server: FastMCP) {
+  const sessionSubscriptions = new Map<object, ResourceSubscriptions>();
+
+  // CONTRACT: The capability has to be part of the handshake, which happens before "connect" fires
+  advertiseResourceSubscriptions(FastMCPSession);
+
+  server.on("connect", ({ session }) => {
+    // SECURITY BOUNDARY: Subscribed paths pass the same validation as resource reads
+    sessionSubscriptions.set(session, enableResourceSubscriptions(session.server, validatePath));
+  });
+
+  server.on("disconnect", ({ session }) => {
+    sessionSubscriptions.get(session)?.close();
+    sessionSubscriptions.delete(session);
+  });
 }
 
 /**
@@ -597,12 +1670,158 @@ export function registerFilesystemTools(server: FastMCP) {
     },
   });
 
+  // TOOL: read_file - Single file reading with line/byte ranges and size caps
+  server.addTool({
+    name: "read_file",
+    description: `Reads a slice of a single file, so large files can be read piece by piece without exhausting the context window.
+Arguments:
+* \`path\` / \`file_path\` / \`filepath\` (string, required): The full path of the file to read. Provide exactly one of these.
+* \`mode\` (enum, optional, default: 'lines'): 'lines' reads by line number, 'bytes' reads by byte position. Use 'bytes' for files larger than 50MB.
+* \`offset\` (number, optional): Where to start. In 'lines' mode this is a 1-based line number (default 1); in 'bytes' mode a 0-based byte offset (default 0).
+* \`limit\` (number, optional): How much to read. In 'lines' mode a line count (default ${READ_FILE_DEFAULT_LINE_LIMIT}); in 'bytes' mode a byte count (default \`maxBytes\`).
+* \`maxBytes\` (number, optional, default: ${READ_FILE_DEFAULT_MAX_BYTES}): Upper bound on the amount of content returned, at most ${READ_FILE_MAX_BYTES}.
+* \`encoding\` (enum, optional): 'utf-8', 'utf-16le', 'latin1' or 'base64'. If omitted, the encoding is detected from the BOM and content, and binary files are returned as base64 in 'bytes' mode.
+Output: A header line with the range read, the file totals and the file's version (\`mtime\` and \`sha256\`, to pass as \`expectedMtime\`/\`expectedSha256\` to mutating tools; 'bytes' mode reports only \`mtime\` so it never reads the whole file), followed by the content. In 'lines' mode the header also gives the \`range sha256\` of the lines shown (to pass as edit_lines \`expectedHash\` for the same range), and every line is prefixed with its line number and a tab. When more content remains, the output ends with a hint giving the \`offset\` to pass to continue reading.
+Security: Can only read files within pre-configured allowed directories.`,
+    parameters: z.object({
+      path: z.string().optional().describe('The primary path for the operation.'),
+      file_path: z.string().optional().describe('Alternative argument for the path.'),
+      filepath: z.string().optional().describe('Alternative argument for the path.'),
+      mode: z.enum(['lines', 'bytes']).optional().default('lines')
+        .describe("Read by 'lines' (line numbers) or 'bytes' (byte positions). Defaults to 'lines'."),
+      offset: z.number().int().min(0).optional()
+        .describe("Start position: 1-based line number in 'lines' mode, 0-based byte offset in 'bytes' mode."),
+      limit: z.number().int().positive().optional()
+        .describe("Number of lines ('lines' mode) or bytes ('bytes' mode) to read."),
+      maxBytes: z.number().int().positive().max(READ_FILE_MAX_BYTES).optional().default(READ_FILE_DEFAULT_MAX_BYTES)
+        .describe(`Maximum bytes of content to return. Defaults to ${READ_FILE_DEFAULT_MAX_BYTES}.`),
+      encoding: FileEncodingSchema.optional()
+        .describe('Content encoding. Detected from the BOM and content when omitted.'),
+    }),
+    execute: async (args, { log }) => {
+      const pathToUse = getPathFromOptions(args);
+      const validPath = await validatePath(pathToUse);
+      const { mode, maxBytes, encoding } = args;
+
+      // DEFENSIVE PROGRAMMING: Verify file exists and is a regular file
+      let fileStats;
+      try {
+        fileStats = await fs.stat(validPath);
+      } catch (e: any) {
+        if (e.code === 'ENOENT') {
+          throw new UserError(`File does not exist: ${pathToUse}`);
+        }
+        if (e.code === 'EACCES') {
+          throw new UserError(`Permission denied reading file: ${pathToUse}`);
+        }
+        throw new UserError(`Cannot access file: ${e.message}`);
+      }
+
+      if (!fileStats.isFile()) {
+        if (fileStats.isDirectory()) {
+          throw new UserError(`Path is a directory, not a file: ${pathToUse}`);
+        }
+        throw new UserError(`Target is not a regular file: ${pathToUse}`);
+      }
+
+      try {
+        if (mode === 'bytes') {
+          const offset = args.offset ?? 0;
+          const length = Math.min(args.limit ?? maxBytes, maxBytes);
+
+          if (offset > fileStats.size) {
+            throw new UserError(`offset ${offset} is beyond the end of the file (${fileStats.size} bytes)`);
+          }
+
+          const slice = await readFileBytes(validPath, offset, length);
+          const end = offset + slice.length;
+          const decoded = decodeFileContent(slice, validPath, encoding);
+          const encodingLabel = decoded.isBinary ? `binary ${decoded.mimeType}, base64` : decoded.encoding;
+          // Memory stays bounded by length: the version is the mtime only, never a whole-file hash
+          const versionLabel = `, mtime: ${fileStats.mtime.toISOString()}`;
+          const header = `File: ${pathToUse} (bytes ${offset}-${end} of ${fileStats.size}, ${formatBytes(fileStats.size)}, ${encodingLabel}${versionLabel})`;
+          let output = `${header}\n${decoded.text}`;
+
+          if (end < fileStats.size) {
+            output += `\n\n[Truncated: showing bytes ${offset}-${end} of ${fileStats.size}. Call read_file with mode='bytes' and offset=${end} to continue.]`;
+          }
+
+          log.info('File slice read successfully', { path: pathToUse, mode, offset, bytesRead: slice.length });
+          return output;
+        }
+
+        // DEFENSIVE PROGRAMMING: Line mode needs the whole file in memory
+        if (fileStats.size > READ_FILE_MAX_LINE_MODE_SIZE) {
+          throw new UserError(
+            `File is too large to read by lines (${formatBytes(fileStats.size)}, limit ${formatBytes(READ_FILE_MAX_LINE_MODE_SIZE)}). ` +
+            `Call read_file with mode='bytes' and offset/limit to read it in slices.`
+          );
+        }
+
+        const raw = await fs.readFile(validPath);
+        const decoded = decodeFileContent(raw, validPath, encoding);
+        if (decoded.isBinary) {
+          throw new UserError(
+            `File is binary (${decoded.mimeType}) and cannot be read by lines. ` +
+            `Call read_file with mode='bytes' to read it as base64.`
+          );
+        }
+
+        const offset = Math.max(1, args.offset ?? 1);
+        const limit = args.limit ?? READ_FILE_DEFAULT_LINE_LIMIT;
+        const result = selectLineRange(decoded.text, offset, limit, maxBytes);
+
+        const version = await getFileVersion(validPath, raw);
+        const versionLabel = version ? `, ${formatFileVersion(version)}` : '';
+
+        if (result.totalLines === 0) {
+          return `File: ${pathToUse} (empty file, 0 lines${versionLabel})`;
+        }
+
+        // The range hash is what edit_lines expects as expectedHash for exactly these lines
+        const rangeHash = hashLineRange(splitContentLines(normalizeLineEndings(decoded.text)).lines, result.startLine, result.endLine);
+        const header = `File: ${pathToUse} (lines ${result.startLine}-${result.endLine} of ${result.totalLines}, ${formatBytes(fileStats.size)}, ${decoded.encoding}${versionLabel}, range sha256: ${rangeHash})`;
+        let output = `${header}\n${result.text}`;
+
+        if (result.lineTruncated) {
+          output += `\n\n[Line ${result.startLine} exceeds maxBytes and was cut. Call read_file with mode='bytes' to read it in full.]`;
+        }
+        if (result.nextOffset !== undefined) {
+          output += `\n\n[Truncated: showing lines ${result.startLine}-${result.endLine} of ${result.totalLines}. Call read_file with offset=${result.nextOffset} to continue.]`;
+        }
+
+        log.info('File lines read successfully', {
+          path: pathToUse,
+          mode,
+          startLine: result.startLine,
+          endLine: result.endLine,
+          totalLines: result.totalLines
+        });
+
+        return output;
+
+      } catch (error: any) {
+        if (error instanceof UserError) {
+          throw error;
+        }
+        if (error.code === 'EACCES') {
+          throw new UserError(`Permission denied reading file: ${pathToUse}`);
+        }
+        const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+        throw new UserError(`Failed to read file: ${errorMessage}`);
+      }
+    },
+  });
+
   // TOOL: write_file - Complete file content replacement
   server.addTool({
     name: "write_file",
-    description: `Completely replace file contents. Best for large changes (>20% of file) or when edit_block fails. Use with caution as it will overwrite existing files. Only works within allowed directories. IMPORTANT: Always use absolute paths (starting with '/' or drive letter like 'C:\\') for reliability. Relative paths may fail as they depend on the current working directory. Tilde paths (~/...) might not work in all contexts. Unless the user explicitly asks for relative paths, use absolute paths.`,
+    description: `Completely replace file contents. Best for large changes (>20% of file) or when edit_block fails. Use with caution as it will overwrite existing files; pass \`expectedMtime\` or \`expectedSha256\` from read_file to abort with a conflict error (current hash plus a diff) if the file changed since you read it. Only works within allowed directories. Set \`encoding\` to 'utf-16le' or 'latin1' to write text in that encoding, or to 'base64' to write binary content supplied as base64. IMPORTANT: Always use absolute paths (starting with '/' or drive letter like 'C:\\') for reliability. Relative paths may fail as they depend on the current working directory. Tilde paths (~/...) might not work in all contexts. Unless the user explicitly asks for relative paths, use absolute paths.`,
     parameters: z.object({
       content: z.string().describe('The complete content to write to the file'),
+      encoding: FileEncodingSchema.optional().default('utf-8')
+        .describe("Encoding of the written file. Use 'base64' when content is base64-encoded binary data. Defaults to 'utf-8'."),
+      ...ExpectedVersionSchema.shape,
       path: z.string().optional().describe('The primary path for the operation.'),
       file_path: z.string().optional().describe('Alternative argument for the path.'),
       filepath: z.string().optional().describe('Alternative argument for the path.')
@@ -610,6 +1829,7 @@ export function registerFilesystemTools(server: FastMCP) {
     execute: async (args, { log }) => {
       const pathToUse = getPathFromOptions(args);
       const validPath = await validatePath(pathToUse);
+      const { encoding = 'utf-8' } = args;
       
       // DEFENSIVE PROGRAMMING: Content validation
       if (typeof args.content !== 'string') {
@@ -620,6 +1840,13 @@ export function registerFilesystemTools(server: FastMCP) {
         throw new UserError('Content exceeds maximum size limit (10MB)');
       }
       
+      if (encoding === 'base64' && !BASE64_PATTERN.test(args.content)) {
+        throw new UserError("Content is not valid base64 (required when encoding is 'base64')");
+      }
+      
+      // CONCURRENCY GUARD: Refuse to overwrite a version the caller has not seen
+      await assertExpectedVersion(validPath, args, encoding === 'base64' ? undefined : args.content);
+      
       try {
         // Check if file exists for logging
         let fileExists = false;
@@ -630,15 +1857,17 @@ export function registerFilesystemTools(server: FastMCP) {
           if (e.code !== 'ENOENT') throw e;
         }
         
-        // Write content atomically
-        await fs.writeFile(validPath, args.content, 'utf-8');
+        // Write content atomically (temp file + fsync + rename), journaling the prior state
+        const snapshot = await snapshotFile(validPath);
+        await writeFileAtomic(validPath, args.content, encoding);
         
         const action = fileExists ? 'replaced' : 'created';
-        log.info(`File ${action} successfully`, { path: pathToUse, size: args.content.length });
+        const change = await recordChange('write_file', `File ${action}`, [snapshot]);
+        log.info(`File ${action} successfully`, { path: pathToUse, size: args.content.length, encoding, changeId: change?.id });
         
-        // CONTRACT: Postcondition verification
-        const writtenContent = await fs.readFile(validPath, 'utf-8');
-        if (writtenContent !== args.content) {
+        // CONTRACT: Postcondition verification (compared as bytes so base64 formatting differences don't matter)
+        const writtenContent = await fs.readFile(validPath, encoding);
+        if (!Buffer.from(writtenContent, encoding).equals(Buffer.from(args.content, encoding))) {
           throw new UserError('Postcondition violated: written content does not match input');
         }
         
@@ -712,11 +1941,18 @@ export function registerFilesystemTools(server: FastMCP) {
   // TOOL: get_file_info - Detailed file/directory metadata retrieval
   server.addTool({
     name: "get_file_info",
-    description: `Retrieve detailed metadata about a file or directory including size, creation time, last modified time, permissions, and type. Only works within allowed directories. IMPORTANT: Always use absolute paths (starting with '/' or drive letter like 'C:\\') for reliability. Relative paths may fail as they depend on the current working directory. Tilde paths (~/...) might not work in all contexts. Unless the user explicitly asks for relative paths, use absolute paths.`,
+    description: `Retrieve detailed metadata about a file or directory including size, creation time, last modified time, permissions, and type. Only works within allowed directories. IMPORTANT: Always use absolute paths (starting with '/' or drive letter like 'C:\\') for reliability. Relative paths may fail as they depend on the current working directory. Tilde paths (~/...) might not work in all contexts. Unless the user explicitly asks for relative paths, use absolute paths.
+With \`includeContent\` (or \`hashes\`) a regular file is read and a \`content\` object describes the bytes: \`mimeType\` (sniffed from magic bytes, falling back to the extension), \`isBinary\`, detected \`encoding\` and \`bom\`, and for text files \`lineCount\`, \`lineEndings\` ('lf', 'crlf', 'cr', 'mixed' or 'none') and \`finalNewline\`. Files over ${formatBytes(FILE_INSPECTION_MAX_ANALYZE_BYTES)} are classified from their first bytes (\`sampled: true\`) without line statistics.
+Arguments:
+* \`path\` / \`file_path\` / \`filepath\` (string, required): The file or directory to inspect.
+* \`hashes\` (array of 'sha256' | 'md5', optional): Content hashes to compute over the whole file, reported in \`content.hashes\`. Implies \`includeContent\`. Useful to verify copies.
+* \`includeContent\` (boolean, optional, default: false): Read the file to describe its content. Without it only stat data is returned and the file is not opened.`,
     parameters: z.object({
       path: z.string().optional().describe('The primary path for the operation.'),
       file_path: z.string().optional().describe('Alternative argument for the path.'),
-      filepath: z.string().optional().describe('Alternative argument for the path.')
+      filepath: z.string().optional().describe('Alternative argument for the path.'),
+      hashes: z.array(FileHashAlgorithmSchema).max(2).optional().describe('Content hashes to compute (sha256, md5)'),
+      includeContent: z.boolean().optional().default(false).describe('Read the file to inspect its content (MIME type, encoding, lines)')
     }),
     execute: async (args) => {
       const pathToUse = getPathFromOptions(args);
@@ -727,22 +1963,7 @@ export function registerFilesystemTools(server: FastMCP) {
         const realPath = await fs.realpath(validPath);
         
         // Determine file type
-        let fileType = 'unknown';
-        if (stats.isFile()) {
-          fileType = 'file';
-        } else if (stats.isDirectory()) {
-          fileType = 'directory';
-        } else if (stats.isSymbolicLink()) {
-          fileType = 'symlink';
-        } else if (stats.isBlockDevice()) {
-          fileType = 'block_device';
-        } else if (stats.isCharacterDevice()) {
-          fileType = 'character_device';
-        } else if (stats.isFIFO()) {
-          fileType = 'fifo';
-        } else if (stats.isSocket()) {
-          fileType = 'socket';
-        }
+        const fileType = describeFileType(stats);
         
         // Format permissions
         const mode = stats.mode;
@@ -766,7 +1987,7 @@ export function registerFilesystemTools(server: FastMCP) {
         };
         
         // Build comprehensive metadata object
-        const metadata = {
+        const metadata: FileInfoMetadata = {
           path: pathToUse,
           realPath: realPath !== validPath ? realPath : undefined,
           type: fileType,
@@ -792,13 +2013,25 @@ export function registerFilesystemTools(server: FastMCP) {
         if (fileType === 'file') {
           const ext = path.extname(pathToUse).toLowerCase();
           if (ext) {
-            (metadata as any).extension = ext;
+            metadata.extension = ext;
           }
         }
+
+        // Content inspection reads the file, so it is opt-in and only applies to regular files
+        const hashes = args.hashes ?? [];
+        if (hashes.length > 0 && fileType !== 'file') {
+          throw new UserError(`Hashes can only be computed for regular files: ${pathToUse}`);
+        }
+        if (fileType === 'file' && (args.includeContent || hashes.length > 0)) {
+          metadata.content = await inspectFileContent(validPath, stats.size, hashes);
+        }
         
         return JSON.stringify(metadata, null, 2);
         
       } catch (error: any) {
+        if (error instanceof UserError) {
+          throw error;
+        }
         if (error.code === 'ENOENT') {
           throw new UserError(`File or directory does not exist: ${pathToUse}`);
         }
@@ -811,6 +2044,122 @@ export function registerFilesystemTools(server: FastMCP) {
     },
   });
 
+  // TOOL: get_files_info - Batch metadata table for paths and glob patterns
+  server.addTool({
+    name: "get_files_info",
+    description: `Retrieves type, size, modification time and permissions for many files and directories at once, as a compact table.
+Arguments:
+* \`paths\` (array of strings, required): Absolute paths and/or glob patterns (e.g. "/project/src/*.ts", "/project/**/package.json"). Up to 100 entries.
+Output: One row per path with TYPE, SIZE, MODIFIED (ISO 8601, UTC), MODE (octal) and PATH columns, followed by a summary line. Glob patterns expand to one row per match, sorted by path; a pattern that matches nothing gets its own row saying so. A pattern stops matching after ${GET_FILES_INFO_MAX_ENTRIES} matches, node_modules is skipped unless the pattern names it, and at most ${GET_FILES_INFO_MAX_ENTRIES} rows are returned.
+Errors are isolated per path and per glob match: a missing, inaccessible or disallowed entry becomes an 'error' row with the reason and never fails the whole call. Use get_file_info for the full details of a single path.
+Security: Paths and every glob match are validated against the pre-configured allowed directories; glob patterns are expanded only below their validated base directory.`,
+    parameters: z.object({
+      paths: z.array(z.string().min(1)).min(1, "At least one path must be provided").max(100, "Maximum 100 paths or patterns at once"),
+    }),
+    execute: async (args, { log }) => {
+      type InfoRow = { path: string; type: string; size?: number; modified?: string; mode?: string; error?: string };
+
+      const stoppedPatterns: string[] = [];
+
+      // DEFENSIVE PROGRAMMING: Resolve every input independently so one bad entry cannot fail the batch
+      const expanded = await Promise.all(args.paths.map(async (input: string): Promise<Array<InfoRow | string>> => {
+        try {
+          if (!hasGlobMagic(input)) {
+            return await validatePaths([input]);
+          }
+          // SECURITY BOUNDARY: Validate the literal base first so the walk never starts outside allowed directories
+          const { base, pattern } = splitGlobBase(input);
+          const validBase = await validatePath(base);
+
+          // DEFENSIVE PROGRAMMING: Bounded walk; leaving the loop early stops the glob
+          const matches: string[] = [];
+          const walk = globIterate(pattern, {
+            cwd: validBase,
+            absolute: true,
+            dot: false,
+            ignore: pattern.includes('node_modules') ? [] : GET_FILES_INFO_DEFAULT_IGNORE,
+          });
+          for await (const match of walk) {
+            if (matches.length === GET_FILES_INFO_MAX_ENTRIES) {
+              stoppedPatterns.push(input);
+              break;
+            }
+            matches.push(match);
+          }
+          if (matches.length === 0) {
+            return [{ path: input, type: 'error', error: 'No matches' }];
+          }
+
+          // SECURITY BOUNDARY: Every match is validated on its own; a rejected match becomes its own error row
+          const validated = await Promise.allSettled(matches.sort().map(match => validatePath(match)));
+          return validated.map((result, index): InfoRow | string => result.status === 'fulfilled'
+            ? result.value
+            : { path: matches[index], type: 'error', error: result.reason instanceof Error ? result.reason.message : String(result.reason) });
+        } catch (error) {
+          const errorMessage = error instanceof Error ? error.message : String(error);
+          return [{ path: input, type: 'error', error: errorMessage }];
+        }
+      }));
+
+      // IMMUTABILITY: Deduplicate while keeping input order
+      const seen = new Set<string>();
+      const targets: Array<string | InfoRow> = [];
+      for (const entry of expanded.flat()) {
+        const key = typeof entry === 'string' ? entry : `${entry.path}\0${entry.error}`;
+        if (!seen.has(key)) {
+          seen.add(key);
+          targets.push(entry);
+        }
+      }
+      const omitted = Math.max(0, targets.length - GET_FILES_INFO_MAX_ENTRIES);
+
+      const rows = await Promise.all(targets.slice(0, GET_FILES_INFO_MAX_ENTRIES).map(async (target): Promise<InfoRow> => {
+        if (typeof target !== 'string') {
+          return target;
+        }
+        try {
+          const stats = await fs.stat(target);
+          return {
+            path: target,
+            type: describeFileType(stats),
+            size: stats.isFile() ? stats.size : undefined,
+            modified: stats.mtime.toISOString().replace(/\.\d{3}Z$/, 'Z'),
+            mode: '0' + (stats.mode & 0o777).toString(8),
+          };
+        } catch (error: any) {
+          const reason = error.code === 'ENOENT' ? 'File or directory does not exist'
+            : error.code === 'EACCES' ? 'Permission denied'
+            : error instanceof Error ? error.message : String(error);
+          return { path: target, type: 'error', error: reason };
+        }
+      }));
+
+      const errorCount = rows.filter(row => row.type === 'error').length;
+      log.info('Collected file info', { inputs: args.paths.length, rows: rows.length, errors: errorCount });
+
+      // IMMUTABILITY: Fixed-width table; error rows carry the reason after the path
+      const table = [
+        `${'TYPE'.padEnd(10)} ${'SIZE'.padStart(10)}  ${'MODIFIED'.padEnd(20)}  MODE PATH`,
+        ...rows.map(row => [
+          row.type.padEnd(10),
+          (row.size !== undefined ? formatBytes(row.size) : '-').padStart(10),
+          '',
+          (row.modified ?? '-').padEnd(20),
+          '',
+          (row.mode ?? '-').padEnd(4),
+          row.error ? `${row.path}: ${row.error}` : row.path,
+        ].join(' ')),
+      ];
+      const fileCount = rows.filter(row => row.type === 'file').length;
+      const directoryCount = rows.filter(row => row.type === 'directory').length;
+      const summary = `${rows.length} entries: ${fileCount} file(s), ${directoryCount} directory(ies), ${errorCount} error(s)` +
+        (omitted > 0 ? ` (… ${omitted} more not shown)` : '') +
+        (stoppedPatterns.length > 0 ? ` (… matching stopped after ${GET_FILES_INFO_MAX_ENTRIES} matches of ${stoppedPatterns.join(', ')})` : '');
+
+      return [...table, '', summary].join('\n');
+    },
+  });
+
   // TOOL: list_allowed_directories
   server.addTool({
     name: "list_allowed_directories",
@@ -828,10 +2177,12 @@ export function registerFilesystemTools(server: FastMCP) {
     description: `Reads the content of multiple files efficiently.
 Arguments:
 * \`paths\` (array of strings, required): A list of full file paths to read.
-Output: Returns a single text block containing the content of each requested file, prefixed by its path. Files are separated by '\\n---\\n'. If a file cannot be read, an error message for that specific file is included instead of its content.
+* \`encoding\` (enum, optional): 'utf-8', 'utf-16le', 'latin1' or 'base64', applied to every file. If omitted, each file's encoding is detected from its BOM and content.
+Output: Returns a single text block containing the content of each requested file, prefixed by its path and version (\`mtime\` and \`sha256\`, usable as \`expectedMtime\`/\`expectedSha256\` in mutating tools). Files are separated by '\\n---\\n'. Text in an encoding other than UTF-8 is labelled with that encoding; binary files are returned as base64 and labelled with their MIME type. If a file cannot be read, an error message for that specific file is included instead of its content.
 Security: Can only read files within pre-configured allowed directories.`,
     parameters: z.object({
       paths: z.array(z.string()).min(1, "At least one path must be provided").max(50, "Maximum 50 files can be read at once"),
+      encoding: FileEncodingSchema.optional().describe('Encoding for all files. Detected per file when omitted.'),
     }),
     execute: async (args, { log }) => {
       // DEFENSIVE PROGRAMMING: Comprehensive input validation
@@ -860,8 +2211,14 @@ Security: Can only read files within pre-configured allowed directories.`,
         args.paths.map(async (filePath: string) => {
           try {
             const validPath = await validatePath(filePath);
-            const content = await fs.readFile(validPath, "utf-8");
-            return `${filePath}:\n${content}`;
+            const raw = await fs.readFile(validPath);
+            const decoded = decodeFileContent(raw, validPath, args.encoding);
+            const version = await getFileVersion(validPath, raw);
+            const labels = [
+              ...(decoded.isBinary ? ['binary', decoded.mimeType, 'base64'] : decoded.encoding !== 'utf-8' ? [decoded.encoding] : []),
+              ...(version ? [formatFileVersion(version)] : []),
+            ];
+            return `${filePath}${labels.length > 0 ? ` (${labels.join(', ')})` : ''}:\n${decoded.text}`;
           } catch (error) {
             const errorMessage = error instanceof Error ? error.message : String(error);
             log.warn(`Failed to read file: ${filePath}`, { error: errorMessage });
@@ -887,12 +2244,14 @@ Arguments:
 * \`source_path\` (string, required): The full path of the file to be copied.
 * \`destination_directory\` (string, required): The full path of the directory where the file should be copied. The original filename will be used.
 * \`overwrite\` (boolean, optional, default: false): If set to true, allows overwriting an existing file at the destination. If false (default), the operation will fail if the destination file already exists.
+* \`expectedMtime\` / \`expectedSha256\` (optional): Version of the destination file being overwritten, as reported by read_file. If it changed since then, the call aborts with a conflict error showing the current hash and a diff.
 Output: Returns a success message indicating the source and destination paths upon successful copy.
 Security: Can only copy files *from* and *to* locations within the pre-configured allowed directories. Both the source file and the destination directory must be within allowed paths.`,
     parameters: z.object({
       source_path: z.string().min(1).describe('The full path of the file to be copied.'),
       destination_directory: z.string().min(1).describe('The full path of the directory where the file should be copied. The original filename will be used.'),
-      overwrite: z.boolean().optional().default(false).describe('If true, overwrite the destination file if it already exists. Defaults to false.')
+      overwrite: z.boolean().optional().default(false).describe('If true, overwrite the destination file if it already exists. Defaults to false.'),
+      ...ExpectedVersionSchema.shape,
     }),
     execute: async (args, { log }) => {
       const { source_path, destination_directory, overwrite } = args;
@@ -916,6 +2275,9 @@ Security: Can only copy files *from* and *to* locations within the pre-configure
       }
 
       if (!sourceStats.isFile()) {
+        if (sourceStats.isDirectory()) {
+          throw new UserError(`Cannot copy directory with copy_file tool: ${source_path}. Use copy_directory instead.`);
+        }
         throw new UserError(`Source is not a regular file: ${source_path}`);
       }
 
@@ -945,11 +2307,16 @@ Security: Can only copy files *from* and *to* locations within the pre-configure
         if (e.code !== 'ENOENT') throw e;
       }
 
+      // CONCURRENCY GUARD: Refuse to overwrite a destination version the caller has not seen
+      await assertExpectedVersion(finalDestPath, args);
+
       // IMMUTABILITY: Store original size for verification
       const originalSize = sourceStats.size;
 
       try {
+        const snapshot = await snapshotFile(finalDestPath);
         await fs.copyFile(validSourcePath, finalDestPath);
+        await recordChange('copy_file', `Copied from ${validSourcePath}`, [snapshot]);
         
         // CONTRACT: Postcondition verification
         const copiedStats = await fs.stat(finalDestPath);
@@ -982,10 +2349,15 @@ Security: Can only copy files *from* and *to* locations within the pre-configure
 Arguments:
 * \`path\` / \`file_path\` / \`filepath\` (string, required): The full path to the file to append to. Provide exactly one of these.
 * \`content\` (string, required): The text content to add to the end of the file.
-Output: Returns the **entire content** of the file *after* the new content has been appended.
+* \`encoding\` (enum, optional, default: 'utf-8'): 'utf-8', 'utf-16le', 'latin1', or 'base64' when \`content\` is base64-encoded binary data.
+* \`expectedMtime\` / \`expectedSha256\` (optional): Version of the file as reported by read_file. If the file changed since then, the call aborts with a conflict error showing the current hash and a diff.
+Output: Returns the **entire content** of the file *after* the new content has been appended, in the same encoding.
 Security: Can only append to files within pre-configured allowed directories.`,
     parameters: z.object({
       content: z.string().describe('The text content to append to the file'),
+      encoding: FileEncodingSchema.optional().default('utf-8')
+        .describe("Encoding of the appended content. Use 'base64' for binary data. Defaults to 'utf-8'."),
+      ...ExpectedVersionSchema.shape,
       path: z.string().optional().describe('The primary path for the operation.'),
       file_path: z.string().optional().describe('Alternative argument for the path.'),
       filepath: z.string().optional().describe('Alternative argument for the path.')
@@ -993,6 +2365,7 @@ Security: Can only append to files within pre-configured allowed directories.`,
     execute: async (args, { log }) => {
       const pathToUse = getPathFromOptions(args);
       const validPath = await validatePath(pathToUse);
+      const { encoding = 'utf-8' } = args;
       
       // DEFENSIVE PROGRAMMING: Content validation
       if (typeof args.content !== 'string') {
@@ -1003,6 +2376,13 @@ Security: Can only append to files within pre-configured allowed directories.`,
         throw new UserError('Append content exceeds maximum size limit (1MB)');
       }
       
+      if (encoding === 'base64' && !BASE64_PATTERN.test(args.content)) {
+        throw new UserError("Content is not valid base64 (required when encoding is 'base64')");
+      }
+      
+      // CONCURRENCY GUARD: Refuse to append to a version the caller has not seen
+      await assertExpectedVersion(validPath, args);
+      
       try {
         // Store original size for verification
         let originalSize = 0;
@@ -1014,16 +2394,18 @@ Security: Can only append to files within pre-configured allowed directories.`,
           // File doesn't exist, will be created
         }
         
-        await fs.appendFile(validPath, args.content, "utf-8");
+        const snapshot = await snapshotFile(validPath);
+        await appendFileAtomic(validPath, args.content, encoding);
+        await recordChange('append_file', `Appended ${Buffer.byteLength(args.content, encoding)} bytes`, [snapshot]);
         
         // CONTRACT: Postcondition verification
         const newStats = await fs.stat(validPath);
-        const expectedSize = originalSize + Buffer.byteLength(args.content, 'utf8');
+        const expectedSize = originalSize + Buffer.byteLength(args.content, encoding);
         if (newStats.size !== expectedSize) {
           throw new UserError('Postcondition violated: file size after append is incorrect');
         }
         
-        const updatedContent = await fs.readFile(validPath, "utf-8");
+        const updatedContent = await fs.readFile(validPath, encoding);
         
         log.info('Content appended successfully', {
           path: pathToUse,
@@ -1055,14 +2437,22 @@ Arguments:
     * \`newText\` (string, optional): The text content that will replace the found \`oldText\`. (Alternative to \`new_string\`)
     * \`old_string\` (string, optional): The exact text content (potentially multi-line) to search for within the file. (Alternative to \`oldText\`)
     * \`new_string\` (string, optional): The text content that will replace the found \`old_string\`. (Alternative to \`newText\`)
+    * \`regex\` (boolean, optional): Treat the old text as a JavaScript regular expression. The new text is then a replacement template supporting \`$1\`..\`$99\`, \`$<name>\`, \`$&\` and \`$$\`.
+    * \`flags\` (string, optional, regex only): Any of g, i, m, s, u, y. With 'g' every match is replaced.
+    * \`occurrence\` (number, optional, regex only): Replace only the Nth match (1-based) instead of the first.
+    * \`replaceAll\` (boolean, optional, default: false): Replace every occurrence instead of only the first.
+    * \`expectedOccurrences\` (number, optional): Fail the edit, listing the line of every match, unless the search text occurs exactly this many times. Use it to make sure an ambiguous snippet does not edit the wrong spot.
 * \`dryRun\` (boolean, optional, default: false): If set to true, the tool will generate the diff of changes but will NOT save the modifications to the file.
+* \`encoding\` (enum, optional): 'utf-8', 'utf-16le' or 'latin1'. If omitted, the encoding is detected from the BOM and content. The file is always written back in its original encoding and BOM. Binary files are rejected.
+* \`expectedMtime\` / \`expectedSha256\` (optional): Version of the file as reported by read_file. If the file changed since then, the call aborts with a conflict error showing the current hash and a diff.
 Processing:
 - You must provide either (\`oldText\` and \`newText\`) OR (\`old_string\` and \`new_string\`) in each edit operation, but not both.
 - Edits are applied sequentially in the order they appear in the \`edits\` array.
 - For each edit operation:
-  1. An exact match for the search text is attempted first.
+  1. An exact match for the search text is attempted first. Only the first occurrence is replaced unless \`replaceAll\` is set.
   2. If no exact match is found, a flexible line-by-line match is attempted, comparing lines after trimming leading/trailing whitespace. If found this way, the replacement text replaces the matched block while preserving the original indentation of the first line of the matched block.
   3. If the search text cannot be found using either method, the tool will return an error.
+- Regex edits skip the flexible matching: the pattern is applied to the file content with \`\\n\` line endings, and an edit whose pattern matches nothing (or fewer times than \`occurrence\`) fails.
 Output:
 - Returns a string containing a git-style unified diff (\`---\`/\`+++\`/\`@@\`/\`+\`/\`-\` lines) showing the changes made (or the changes that would be made if \`dryRun\` is true).
 - If \`dryRun\` is false (the default), the file at \`path\` is overwritten with the modified content *before* the diff is returned.
@@ -1074,12 +2464,21 @@ Security: This tool can only operate on files within the pre-configured allowed
         newText: z.string().optional(),
         old_string: z.string().optional(),
         new_string: z.string().optional(),
+        regex: z.boolean().optional().describe('Treat the old text as a regular expression and the new text as a replacement template ($1, $<name>, $&)'),
+        flags: z.string().regex(REGEX_EDIT_FLAGS_PATTERN, "Flags may only contain g, i, m, s, u, y").optional().describe("Regex flags; 'g' replaces every match"),
+        occurrence: z.number().int().min(1).optional().describe('Replace only the Nth regex match (1-based). Defaults to the first match.'),
+        replaceAll: z.boolean().optional().describe('Replace every occurrence instead of only the first'),
+        expectedOccurrences: z.number().int().min(1).optional().describe('Fail the edit unless the search text occurs exactly this many times'),
+      }).refine(data => data.regex || (data.flags === undefined && data.occurrence === undefined), {
+        message: "'flags' and 'occurrence' require 'regex: true'",
       }).refine(data => (data.oldText !== undefined && data.newText !== undefined) || (data.old_string !== undefined && data.new_string !== undefined), {
         message: "Each edit must provide either ('oldText' and 'newText') OR ('old_string' and 'new_string')",
       }).refine(data => !(data.oldText !== undefined && data.old_string !== undefined) && !(data.newText !== undefined && data.new_string !== undefined), {
         message: "Cannot provide both 'oldText' and 'old_string' (or 'newText' and 'new_string') in the same edit",
       })).min(1, "At least one edit operation must be provided"),
       dryRun: z.boolean().default(false).describe('Preview changes using git-style diff format'),
+      encoding: FileEncodingSchema.optional().describe('Text encoding of the file. Detected from the BOM and content when omitted.'),
+      ...ExpectedVersionSchema.shape,
       path: z.string().optional().describe('The primary path for the operation.'),
       file_path: z.string().optional().describe('Alternative argument for the path.'),
       filepath: z.string().optional().describe('Alternative argument for the path.')
@@ -1101,6 +2500,9 @@ Security: This tool can only operate on files within the pre-configured allowed
         throw new UserError(`Cannot access file: ${e.message}`);
       }
       
+      // CONCURRENCY GUARD: Refuse to edit a version the caller has not seen
+      await assertExpectedVersion(validPath, args);
+      
       log.info(`Applying ${args.edits.length} edits to file`, {
         path: pathToUse,
         editCount: args.edits.length,
@@ -1108,10 +2510,12 @@ Security: This tool can only operate on files within the pre-configured allowed
       });
       
       try {
-        const result = await applyFileEdits(validPath, args.edits, args.dryRun);
+        const snapshot = args.dryRun ? null : await snapshotFile(validPath);
+        const result = await applyFileEdits(validPath, args.edits, args.dryRun, args.encoding);
+        const change = snapshot ? await recordChange('edit_file', `Applied ${args.edits.length} edit(s)`, [snapshot]) : null;
         
         const action = args.dryRun ? 'Preview generated' : 'File edited successfully';
-        log.info(action, { path: pathToUse });
+        log.info(action, { path: pathToUse, changeId: change?.id });
         
         return result;
         
@@ -1125,6 +2529,112 @@ Security: This tool can only operate on files within the pre-configured allowed
     },
   });
 
+  // TOOL: edit_lines - Line-range editing for callers that already know line numbers
+  server.addTool({
+    name: "edit_lines",
+    description: `Edits a text file by line numbers instead of by matching text: replace a line range, insert before or after it, or delete it.
+Arguments:
+* \`path\` / \`file_path\` / \`filepath\` (string, required): The full path to the file. Provide exactly one of these.
+* \`operation\` (enum, optional, default: 'replace'): 'replace', 'insert_before', 'insert_after' or 'delete'.
+* \`startLine\` (number, required): First line of the range (1-based, as shown by read_file and search_code).
+* \`endLine\` (number, optional, default: \`startLine\`): Last line of the range, inclusive.
+* \`content\` (string, required except for 'delete'): The new lines. A single trailing newline is ignored.
+* \`expectedHash\` (string, optional): sha256 (hex) of the current range, i.e. lines startLine..endLine joined with \`\\n\` and no trailing newline. read_file reports it as \`range sha256\` when called with offset=startLine and limit=endLine-startLine+1. If the range no longer matches, the edit fails and the current lines and hash are returned.
+* \`dryRun\` (boolean, optional, default: false): Return the diff without saving.
+* \`encoding\` (enum, optional): 'utf-8', 'utf-16le' or 'latin1'. Detected when omitted; the original encoding and BOM are preserved.
+* \`expectedMtime\` / \`expectedSha256\` (optional): Version of the file as reported by read_file. If the file changed since then, the call aborts with a conflict error showing the current hash and a diff.
+Output: A git-style unified diff of the change, followed by the sha256 of the newly written range so follow-up edits can be guarded.
+Security: Only works within allowed directories.`,
+    parameters: z.object({
+      operation: z.enum(['replace', 'insert_before', 'insert_after', 'delete']).optional().default('replace').describe('What to do with the line range'),
+      startLine: z.number().int().min(1).describe('First line of the range (1-based)'),
+      endLine: z.number().int().min(1).optional().describe('Last line of the range, inclusive. Defaults to startLine.'),
+      content: z.string().optional().describe('New lines for replace/insert operations'),
+      expectedHash: z.string().regex(/^[a-fA-F0-9]{64}$/, 'expectedHash must be a hex sha256 digest').optional()
+        .describe('sha256 of the current range (lines joined with \\n, no trailing newline)'),
+      dryRun: z.boolean().default(false).describe('Preview changes using git-style diff format'),
+      encoding: FileEncodingSchema.optional().describe('Text encoding of the file. Detected from the BOM and content when omitted.'),
+      ...ExpectedVersionSchema.shape,
+      path: z.string().optional().describe('The primary path for the operation.'),
+      file_path: z.string().optional().describe('Alternative argument for the path.'),
+      filepath: z.string().optional().describe('Alternative argument for the path.')
+    }).refine(data => data.endLine === undefined || data.endLine >= data.startLine, {
+      message: 'endLine must be greater than or equal to startLine',
+    }).refine(data => data.operation === 'delete' || data.content !== undefined, {
+      message: "'content' is required unless operation is 'delete'",
+    }),
+    execute: async (args, { log }) => {
+      const pathToUse = getPathFromOptions(args);
+      const validPath = await validatePath(pathToUse);
+      const { operation = 'replace', startLine, content = '', expectedHash, dryRun = false, encoding } = args;
+      const endLine = args.endLine ?? startLine;
+
+      if (encoding === 'base64') {
+        throw new UserError("Line edits require a text encoding; 'base64' is only supported for reading and writing whole files");
+      }
+
+      // DEFENSIVE PROGRAMMING: Validate file exists and is a regular file
+      try {
+        const stats = await fs.stat(validPath);
+        if (!stats.isFile()) {
+          throw new UserError(`Path is not a regular file: ${pathToUse}`);
+        }
+      } catch (e: any) {
+        if (e instanceof UserError) throw e;
+        if (e.code === 'ENOENT') {
+          throw new UserError(`File does not exist: ${pathToUse}`);
+        }
+        throw new UserError(`Cannot access file: ${e.message}`);
+      }
+
+      // CONCURRENCY GUARD: Whole-file version check, complementary to the range hash
+      await assertExpectedVersion(validPath, args);
+
+      try {
+        const decoded = decodeFileContent(await fs.readFile(validPath), validPath, encoding);
+        if (decoded.isBinary) {
+          throw new UserError(`Cannot edit binary file (${decoded.mimeType}): ${pathToUse}. Pass an explicit text 'encoding' if the file is text.`);
+        }
+
+        const original = normalizeLineEndings(decoded.text);
+        const modified = applyLineEdit(original, operation, startLine, endLine, content, expectedHash);
+        const diff = formatDiffBlock(createUnifiedDiff(original, modified, validPath));
+
+        let change = null;
+        if (!dryRun) {
+          const snapshot = await snapshotFile(validPath);
+          await writeFileAtomic(validPath, encodeFileContent(modified, decoded));
+          change = await recordChange('edit_lines', `${operation} lines ${startLine}-${endLine}`, [snapshot]);
+        }
+
+        log.info(dryRun ? 'Line edit preview generated' : 'Lines edited successfully', {
+          path: pathToUse,
+          operation,
+          startLine,
+          endLine,
+          changeId: change?.id
+        });
+
+        // Report the hash of the newly written range so follow-up edits can be guarded with expectedHash
+        const insertedCount = operation === 'delete' ? 0 : splitContentLines(normalizeLineEndings(content)).lines.length;
+        if (insertedCount === 0) {
+          return diff.trimEnd();
+        }
+        const newStart = operation === 'insert_after' ? Math.min(endLine, splitContentLines(original).lines.length) + 1 : startLine;
+        const newEnd = newStart + insertedCount - 1;
+        const newHash = hashLineRange(splitContentLines(modified).lines, newStart, newEnd);
+        return `${diff}New content of lines ${newStart}-${newEnd} has sha256 ${newHash}`;
+
+      } catch (error: any) {
+        if (error instanceof UserError) {
+          throw error;
+        }
+        const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+        throw new UserError(`Line edit failed: ${errorMessage}`);
+      }
+    },
+  });
+
   // TOOL: bulk_edit - Advanced multi-file editing with context-based matching and intelligent ignore patterns
   server.addTool({
     name: "bulk_edit", 
@@ -1134,6 +2644,11 @@ Arguments:
 * \`edits\` (array, required): An array of edit objects, each with:
     * \`oldText\` (string, required): The text to search for.
     * \`newText\` (string, required): The replacement text.
+    * \`regex\` (boolean, optional): Treat \`oldText\` as a JavaScript regular expression and \`newText\` as a replacement template (\`$1\`, \`$<name>\`, \`$&\`, \`$$\`).
+    * \`flags\` (string, optional, regex only): Any of g, i, m, s, u, y. With 'g' every match in each file is replaced.
+    * \`occurrence\` (number, optional, regex only): Replace only the Nth match (1-based) in each file.
+    * \`replaceAll\` (boolean, optional, default: false): Replace every occurrence in each file instead of only the first.
+    * \`expectedOccurrences\` (number, optional): Fail the edit for any file where \`oldText\` does not occur exactly this many times.
     * \`context\` (object, optional): Specifies context-based matching rules.
         * \`before\` (string, optional): The edit will only be applied if the line immediately preceding the match contains this text.
         * \`after\` (string, optional): The edit will only be applied if the line immediately following the match contains this text.
@@ -1142,7 +2657,11 @@ Arguments:
         * \`or\` (array, optional): At least one condition must be true (file path contains at least one specified string).
         * \`not\` (array, optional): None of these conditions should be true (file path contains none of specified strings).
 * \`ignorePatterns\` (array, optional): Additional glob patterns to ignore beyond the default patterns. Default patterns automatically exclude common directories like node_modules, .git, .venv, dist, etc.
+* \`respectGitignore\` (boolean, optional, default: false): Also apply the project's .gitignore, .ignore and .git/info/exclude rules (nested files and ! negations included). They replace the default node_modules and bin exclusions, so a tracked bin/ directory is edited; hidden files and the other defaults stay excluded. \`ignorePatterns\` still apply.
 * \`dryRun\` (boolean, optional, default: false): If true, returns a diff of the changes without saving them.
+* \`encoding\` (enum, optional): Text encoding applied to every file. If omitted, each file's encoding is detected and preserved; binary files are reported as errors.
+* \`transactional\` (boolean, optional, default: false): All-or-nothing mode. Every edit is validated against every file and the new contents are staged before anything is written; if any file fails, no file is modified. If a write fails during commit, files already written are rolled back. The summary reports "all applied" or "none applied" together with the blocking errors. Limited to ${BULK_EDIT_TRANSACTION_MAX_FILES.toLocaleString('en-US')} files.
+* \`expectedSha256ByPath\` (object, optional): Map of file path to the sha256 reported by read_file. A listed file whose content changed since then is not edited and is reported with a conflict error (a blocking error in transactional mode).
 Output: Returns a comprehensive diff showing all changes across all matched files with file-by-file breakdown.
 Security: Can only operate on files within pre-configured allowed directories. Supports up to 100,000 files with intelligent filtering and performance optimizations.`,
     parameters: z.object({
@@ -1150,6 +2669,11 @@ Security: Can only operate on files within pre-configured allowed directories. S
       edits: z.array(z.object({
         oldText: z.string().min(1, "oldText cannot be empty"),
         newText: z.string(),
+        regex: z.boolean().optional().describe("Treat oldText as a regular expression and newText as a replacement template ($1, $<name>, $&)"),
+        flags: z.string().regex(REGEX_EDIT_FLAGS_PATTERN, "Flags may only contain g, i, m, s, u, y").optional().describe("Regex flags; 'g' replaces every match"),
+        occurrence: z.number().int().min(1).optional().describe("Replace only the Nth regex match in each file (1-based)"),
+        replaceAll: z.boolean().optional().describe("Replace every occurrence in each file instead of only the first"),
+        expectedOccurrences: z.number().int().min(1).optional().describe("Fail a file's edit unless oldText occurs exactly this many times in it"),
         context: z.object({
           before: z.string().optional(),
           after: z.string().optional(),
@@ -1159,12 +2683,25 @@ Security: Can only operate on files within pre-configured allowed directories. S
           or: z.array(z.string()).optional().describe("At least one condition must match (file path contains any string)"),
           not: z.array(z.string()).optional().describe("None of these conditions should match (file path contains none of these strings)"),
         }).optional(),
+      }).refine(data => data.regex || (data.flags === undefined && data.occurrence === undefined), {
+        message: "'flags' and 'occurrence' require 'regex: true'",
       })).min(1, "At least one edit operation must be provided").max(100, "Maximum 100 edit operations allowed"),
       ignorePatterns: z.array(z.string()).optional().default([]).describe("Additional patterns to ignore beyond default patterns"),
+      respectGitignore: z.boolean().optional().default(false).describe("Apply .gitignore/.ignore rules instead of the default node_modules/bin exclusions"),
       dryRun: z.boolean().default(false),
+      encoding: FileEncodingSchema.optional().describe("Text encoding for all files. Detected per file when omitted."),
+      transactional: z.boolean().optional().default(false).describe("Apply all edits to all files or none of them, rolling back on any failure"),
+      expectedSha256ByPath: z.record(z.string().regex(/^[a-fA-F0-9]{64}$/, 'Expected hashes must be hex sha256 digests')).optional()
+        .describe("Map of file path to the sha256 it had when last read; files that changed since then are not edited"),
     }),
     execute: async (args, { log }) => {
-      const { targets, edits, ignorePatterns = [], dryRun } = args;
+      const { targets, edits, ignorePatterns = [], respectGitignore = false, dryRun, encoding, transactional = false } = args;
+      
+      // SECURITY BOUNDARY: Key expected hashes by validated path so they line up with discovered files
+      const expectedSha256ByPath = new Map<string, string>();
+      for (const [filePath, sha256] of Object.entries(args.expectedSha256ByPath ?? {})) {
+        expectedSha256ByPath.set(await validatePath(filePath), sha256);
+      }
       
       // DEFENSIVE PROGRAMMING: Comprehensive input validation
       if (edits.some(edit => edit.oldText.length > 50000)) {
@@ -1183,7 +2720,7 @@ Security: Can only operate on files within pre-configured allowed directories. S
       });
       
       // IMMUTABILITY: Discover all target files with ignore patterns
-      const allTargetFiles = await discoverTargetFiles(targets, ignorePatterns);
+      const allTargetFiles = await discoverTargetFiles(targets, ignorePatterns, respectGitignore);
       const finalFiles = Array.from(allTargetFiles);
       
       if (finalFiles.length === 0) {
@@ -1196,6 +2733,81 @@ Security: Can only operate on files within pre-configured allowed directories. S
       
       log.info(`Found ${finalFiles.length} files to process for bulk edit`);
       
+      // CONDITIONAL LOGIC: Filter edits based on file path conditions
+      const selectApplicableEdits = (file: string) => edits.filter(edit => {
+        if (!edit.conditions) return true;
+        
+        const filePath = file.toLowerCase();
+        
+        // AND logic: All conditions must be true
+        if (edit.conditions.and && edit.conditions.and.length > 0) {
+          const allMatch = edit.conditions.and.every(condition => 
+            filePath.includes(condition.toLowerCase())
+          );
+          if (!allMatch) return false;
+        }
+        
+        // OR logic: At least one condition must be true
+        if (edit.conditions.or && edit.conditions.or.length > 0) {
+          const anyMatch = edit.conditions.or.some(condition => 
+            filePath.includes(condition.toLowerCase())
+          );
+          if (!anyMatch) return false;
+        }
+        
+        // NOT logic: None of these conditions should be true
+        if (edit.conditions.not && edit.conditions.not.length > 0) {
+          const noneMatch = edit.conditions.not.every(condition => 
+            !filePath.includes(condition.toLowerCase())
+          );
+          if (!noneMatch) return false;
+        }
+        
+        return true;
+      });
+      
+      if (transactional) {
+        if (finalFiles.length > BULK_EDIT_TRANSACTION_MAX_FILES) {
+          throw new UserError(`Too many files for a transactional bulk edit (${finalFiles.length}). Maximum ${BULK_EDIT_TRANSACTION_MAX_FILES} files can be staged at once.`);
+        }
+        const transaction = await runBulkEditTransaction(finalFiles, selectApplicableEdits, dryRun, encoding, expectedSha256ByPath);
+        const filesWithChanges = transaction.staged.filter(entry => entry.hasChanges);
+        const change = transaction.committed
+          ? await recordChange('bulk_edit', `Transactionally edited ${transaction.snapshots.length} file(s) with ${edits.length} edit operation(s)`, transaction.snapshots)
+          : null;
+        
+        const outcome = transaction.errors.length > 0
+          ? 'none applied'
+          : dryRun ? 'all would apply (dry run, nothing written)' : 'all applied';
+        const summaryLines = [
+          `Bulk edit transaction: ${outcome}`,
+          `  • Files discovered: ${finalFiles.length}`,
+          `  • Files validated: ${transaction.staged.length}`,
+          `  • Files with changes: ${filesWithChanges.length}`,
+          `  • Blocking errors: ${transaction.errors.length}`,
+          `  • Edit operations: ${edits.length}`,
+        ];
+        if (change) {
+          summaryLines.push(`  • Change ID: ${change.id} (use restore_change to undo)`);
+        }
+        
+        log.info('Transactional bulk edit completed', {
+          filesDiscovered: finalFiles.length,
+          filesChanged: filesWithChanges.length,
+          errors: transaction.errors.length,
+          committed: transaction.committed,
+          dryRun,
+          changeId: change?.id
+        });
+        
+        // Blocking errors explain why nothing was applied, so they replace the diffs
+        const details = transaction.errors.length > 0
+          ? transaction.errors.map(entry => `━━━ ERROR FOR ${entry.file} ━━━\n${entry.error}\n`).join('\n\n')
+          : filesWithChanges.map(entry => `━━━ CHANGES FOR ${entry.file} ━━━\n${entry.diff}`).join('\n\n');
+        
+        return summaryLines.join('\n') + (details.length > 0 ? '\n\n' + details : '\n\nNo changes were made to any files.');
+      }
+      
       // PERFORMANCE OPTIMIZATION: Process files in batches for very large operations
       const BATCH_SIZE = 1000;
       const batches = [];
@@ -1207,6 +2819,7 @@ Security: Can only operate on files within pre-configured allowed directories. S
       let filesChanged = 0;
       let totalErrors = 0;
       let totalProcessed = 0;
+      const changedSnapshots: FileSnapshot[] = [];
       
       // DEFENSIVE PROGRAMMING: Process files in batches with comprehensive error handling
       for (const [batchIndex, batch] of batches.entries()) {
@@ -1225,37 +2838,12 @@ Security: Can only operate on files within pre-configured allowed directories. S
               }
               
               // CONDITIONAL LOGIC: Filter edits based on file path conditions
-              const applicableEdits = edits.filter(edit => {
-                if (!edit.conditions) return true;
-                
-                const filePath = file.toLowerCase();
-                
-                // AND logic: All conditions must be true
-                if (edit.conditions.and && edit.conditions.and.length > 0) {
-                  const allMatch = edit.conditions.and.every(condition => 
-                    filePath.includes(condition.toLowerCase())
-                  );
-                  if (!allMatch) return false;
-                }
-                
-                // OR logic: At least one condition must be true
-                if (edit.conditions.or && edit.conditions.or.length > 0) {
-                  const anyMatch = edit.conditions.or.some(condition => 
-                    filePath.includes(condition.toLowerCase())
-                  );
-                  if (!anyMatch) return false;
-                }
-                
-                // NOT logic: None of these conditions should be true
-                if (edit.conditions.not && edit.conditions.not.length > 0) {
-                  const noneMatch = edit.conditions.not.every(condition => 
-                    !filePath.includes(condition.toLowerCase())
-                  );
-                  if (!noneMatch) return false;
-                }
-                
-                return true;
-              });
+              const applicableEdits = selectApplicableEdits(file);
+              
+              // CONCURRENCY GUARD: Skip files that changed since the caller read them
+              if (applicableEdits.length > 0) {
+                await assertExpectedVersion(validFile, { expectedSha256: expectedSha256ByPath.get(validFile) });
+              }
               
               // Skip file if no edits apply
               if (applicableEdits.length === 0) {
@@ -1268,17 +2856,21 @@ Security: Can only operate on files within pre-configured allowed directories. S
                 };
               }
               
-              // Apply applicable edits with context support
-              const diff = await applyFileEdits(validFile, applicableEdits, dryRun);
-              
-              // Check if any changes were made
-              if (diff.includes('---') || diff.includes('+++')) {
+              // Apply applicable edits with context support; only files whose content changes
+              // are written and have their prior state captured for undo
+              const prepared = await prepareFileEdits(validFile, applicableEdits, encoding);
+              if (prepared.hasChanges) {
+                const snapshot = dryRun ? undefined : await snapshotFile(validFile);
+                if (!dryRun) {
+                  await writeFileAtomic(validFile, prepared.updated);
+                }
                 return {
                   file,
-                  diff,
+                  diff: prepared.diff,
                   success: true,
                   hasChanges: true,
-                  appliedEditCount: applicableEdits.length
+                  appliedEditCount: applicableEdits.length,
+                  snapshot
                 };
               } else {
                 return {
@@ -1314,6 +2906,9 @@ Security: Can only operate on files within pre-configured allowed directories. S
           if (result.success && result.hasChanges) {
             allDiffs += `\n\n━━━ CHANGES FOR ${result.file} ━━━\n${result.diff}`;
             filesChanged++;
+            if (result.snapshot) {
+              changedSnapshots.push(result.snapshot);
+            }
           } else if (!result.success) {
             allDiffs += `\n\n━━━ ERROR FOR ${result.file} ━━━\n${result.error}\n`;
             totalErrors++;
@@ -1331,9 +2926,12 @@ Security: Can only operate on files within pre-configured allowed directories. S
         throw new UserError('Postcondition violated: not all files were processed');
       }
       
+      // The whole operation is journaled as a single change so it can be undone in one step
+      const change = await recordChange('bulk_edit', `Edited ${changedSnapshots.length} file(s) with ${edits.length} edit operation(s)`, changedSnapshots);
+      
       // Generate comprehensive summary with advanced statistics
       const action = dryRun ? 'previewed' : 'applied';
-      const summary = [
+      const summaryLines = [
         `Bulk edit ${action} successfully:`,
         `  • Files discovered: ${finalFiles.length}`,
         `  • Files processed: ${totalProcessed}`,
@@ -1344,7 +2942,11 @@ Security: Can only operate on files within pre-configured allowed directories. S
         `  • Context-based matching: ${edits.some(e => e.context) ? 'enabled' : 'disabled'}`,
         `  • Custom ignore patterns: ${ignorePatterns.length}`,
         `  • Processing batches: ${batches.length}`
-      ].join('\n');
+      ];
+      if (change) {
+        summaryLines.push(`  • Change ID: ${change.id} (use restore_change to undo)`);
+      }
+      const summary = summaryLines.join('\n');
       
       log.info('Bulk edit operation completed', {
         filesDiscovered: finalFiles.length,
@@ -1352,30 +2954,187 @@ Security: Can only operate on files within pre-configured allowed directories. S
         filesChanged,
         errors: totalErrors,
         batches: batches.length,
-        dryRun
+        dryRun,
+        changeId: change?.id
       });
       
       return summary + (allDiffs.length > 0 ? '\n\n' + allDiffs : '\n\nNo changes were made to any files.');
     },
   });
 
-  // TOOL: directory_tree - ASCII tree generation with pure function implementation
+  // TOOL: apply_patch - Multi-file unified diff application with offset and fuzz tolerance
+  server.addTool({
+    name: "apply_patch",
+    description: `Applies a unified diff to one or more files, like \`patch -p1\`. Accepts the diffs edit_file and bulk_edit print in dry-run mode (including the \`\`\`diff fence) as well as git-style patches.
+Arguments:
+* \`patch\` (string, required): The unified diff. Sections with \`--- /dev/null\` create files, sections with \`+++ /dev/null\` delete them, and sections with different old and new names rename the file.
+* \`baseDirectory\` (string, optional): Directory that relative paths in the patch are resolved against. git-style \`a/\` and \`b/\` prefixes are stripped.
+* \`fuzz\` (number, optional, default: 2): Maximum number of context lines that may be ignored at each end of a hunk when the full context does not match.
+* \`allowPartial\` (boolean, optional, default: false): Write the hunks that apply even when others are rejected. By default nothing is written unless every hunk applies.
+* \`dryRun\` (boolean, optional, default: false): Report which hunks would apply without writing anything.
+* \`expectedSha256ByPath\` (object, optional): Map of file path to the sha256 reported by read_file. A listed file whose content changed since then is not patched and is reported with a conflict error.
+Hunks are placed at the matching position nearest to the line numbers in the patch, so files that shifted since the diff was made still patch cleanly. CRLF line endings, encoding and BOM of existing files are preserved (files with mixed line endings are written with LF); new files are written as UTF-8.
+Output: A summary line followed by one section per file listing each hunk as applied (with the line it landed on, offset and fuzz) or rejected (with the reason). The whole patch is journaled as one change that restore_change can revert.
+Security: Every path in the patch is validated against the allowed directories.`,
+    parameters: z.object({
+      patch: z.string().min(1).describe('Unified diff covering one or more files'),
+      baseDirectory: z.string().optional().describe('Directory that relative paths in the patch are resolved against'),
+      fuzz: z.number().int().min(0).max(3).optional().default(2).describe('Context lines that may be ignored at each end of a hunk'),
+      allowPartial: z.boolean().optional().default(false).describe('Apply the hunks that match even if others are rejected'),
+      dryRun: z.boolean().optional().default(false).describe('Check the patch without writing'),
+      expectedSha256ByPath: z.record(z.string().regex(/^[a-fA-F0-9]{64}$/, 'Expected hashes must be hex sha256 digests')).optional()
+        .describe('Map of file path to the sha256 it had when last read; files that changed since then are not patched'),
+    }),
+    execute: async (args, { log }) => {
+      const { fuzz = 2, allowPartial = false, dryRun = false } = args;
+      const filePatches = parseUnifiedPatch(args.patch);
+
+      // SECURITY BOUNDARY: Relative patch paths are anchored to a validated directory
+      const baseDirectory = args.baseDirectory ? await validatePath(args.baseDirectory) : null;
+      const resolvePatchPath = (patchPath: string) =>
+        baseDirectory && !path.isAbsolute(patchPath) ? path.join(baseDirectory, patchPath) : patchPath;
+
+      // SECURITY BOUNDARY: Key expected hashes by validated path so they line up with patched files
+      const expectedSha256ByPath = new Map<string, string>();
+      for (const [filePath, sha256] of Object.entries(args.expectedSha256ByPath ?? {})) {
+        expectedSha256ByPath.set(await validatePath(resolvePatchPath(filePath)), sha256);
+      }
+
+      const plans: PatchedFilePlan[] = [];
+      for (const filePatch of filePatches) {
+        plans.push(await planFilePatch(filePatch, resolvePatchPath, fuzz, expectedSha256ByPath));
+      }
+
+      const hunkResults = plans.flatMap(plan => plan.hunks);
+      const appliedHunks = hunkResults.filter(result => result.applied).length;
+      const totalHunks = filePatches.reduce((count, filePatch) => count + filePatch.hunks.length, 0);
+      const complete = plans.every(plan => !plan.error) && appliedHunks === totalHunks;
+
+      // CONTRACT: A deletion is all-or-nothing even in partial mode
+      const applicable = plans.filter(plan =>
+        !plan.error &&
+        plan.hunks.some(result => result.applied) &&
+        (plan.kind !== 'delete' || plan.hunks.every(result => result.applied))
+      );
+
+      let change = null;
+      if (!dryRun && (complete || allowPartial) && applicable.length > 0) {
+        const snapshots: FileSnapshot[] = [];
+        // Every path touched so far with the bytes to put back (null when it did not exist)
+        const written: Array<{ path: string; original: Buffer | null; mode: number | null }> = [];
+        try {
+          for (const plan of applicable) {
+            // DEFENSIVE PROGRAMMING: Refuse to patch over changes made after the patch was checked
+            if (plan.sourcePath && !Buffer.from(await fs.readFile(plan.sourcePath)).equals(Buffer.from(plan.original!))) {
+              throw new UserError(`File was modified by another process after the patch was checked: ${plan.label}`);
+            }
+            // Paths are recorded only once their write succeeded, so rollback skips failed writes
+            if (plan.targetPath) {
+              const snapshot = await snapshotFile(plan.targetPath);
+              await fs.mkdir(path.dirname(plan.targetPath), { recursive: true });
+              await writeFileAtomic(plan.targetPath, plan.updated!);
+              snapshots.push(snapshot);
+              written.push({ path: plan.targetPath, original: plan.targetPath === plan.sourcePath ? plan.original : null, mode: snapshot.mode });
+            }
+            if (plan.sourcePath && plan.sourcePath !== plan.targetPath) {
+              const snapshot = await snapshotFile(plan.sourcePath);
+              await fs.unlink(plan.sourcePath);
+              snapshots.push(snapshot);
+              written.push({ path: plan.sourcePath, original: plan.original, mode: snapshot.mode });
+            }
+          }
+        } catch (error: any) {
+          const errorMessage = error instanceof Error ? error.message : String(error);
+
+          // ROLLBACK: Put back every file touched so far, newest first, from the bytes read while planning
+          const rollbackFailures: string[] = [];
+          for (const entry of written.reverse()) {
+            try {
+              if (entry.original === null) {
+                await fs.unlink(entry.path).catch((unlinkError: any) => {
+                  if (unlinkError.code !== 'ENOENT') throw unlinkError;
+                });
+              } else {
+                await writeFileAtomic(entry.path, entry.original);
+                if (entry.mode !== null) {
+                  await fs.chmod(entry.path, entry.mode & 0o7777);
+                }
+              }
+            } catch (rollbackError: any) {
+              rollbackFailures.push(`${entry.path}: ${rollbackError instanceof Error ? rollbackError.message : String(rollbackError)}`);
+            }
+          }
+
+          throw new UserError(rollbackFailures.length > 0
+            ? `Applying the patch failed (${errorMessage}) and these files could not be rolled back:\n${rollbackFailures.map(failure => `  - ${failure}`).join('\n')}`
+            : `Applying the patch failed (${errorMessage}); all files were rolled back`);
+        }
+
+        change = await recordChange('apply_patch', `Applied ${appliedHunks} of ${totalHunks} hunk(s) to ${applicable.length} file(s)`, snapshots);
+      }
+
+      log.info(dryRun ? 'Patch checked' : 'Patch processed', {
+        files: plans.length,
+        appliedHunks,
+        totalHunks,
+        written: change !== null,
+        changeId: change?.id
+      });
+
+      const rejected = totalHunks - appliedHunks;
+      const summary = dryRun
+        ? `Patch check (dry run, nothing written): ${appliedHunks} of ${totalHunks} hunk(s) apply${complete ? ' cleanly' : ''} across ${plans.length} file(s)`
+        : complete
+          ? `Patch applied: ${totalHunks} hunk(s) across ${applicable.length} file(s)`
+          : change
+            ? `Patch partially applied: ${appliedHunks} of ${totalHunks} hunk(s) written to ${applicable.length} file(s); rejected hunks and failed files were skipped`
+            : `Patch not applied: ${rejected} of ${totalHunks} hunk(s) rejected${plans.some(plan => plan.error) ? ' or files failed' : ''}, no files were changed. ${allowPartial ? 'Fix the patch and retry.' : 'Fix the patch or pass allowPartial: true to apply the rest.'}`;
+      const summaryLines = [summary];
+      if (change) {
+        summaryLines.push(`  • Change ID: ${change.id} (use restore_change to undo)`);
+      }
+
+      return summaryLines.join('\n') + '\n\n' + plans.map(formatPatchPlan).join('\n\n');
+    },
+  });
+
+  // TOOL: directory_tree - ASCII or JSON tree generation with bounded, filtered traversal
   server.addTool({
     name: "directory_tree",
-    description: `Generates a compact ASCII tree representation of a directory's structure, showing nested files and subdirectories with visual tree lines. Commonly ignored files/directories (hidden files starting with '.' and node_modules) are automatically excluded.
+    description: `Generates a compact ASCII tree representation of a directory's structure, showing nested files and subdirectories with visual tree lines. Hidden entries (names starting with '.') and node_modules are excluded by default.
 Arguments:
 * \`path\` / \`file_path\` / \`filepath\` (string, required): The full path of the root directory for the tree view. Provide exactly one of these.
+* \`maxDepth\` (number, optional): Levels below the root to expand; deeper directories are listed but not opened.
+* \`include\` (string[], optional): Globs that files must match (e.g. "*.ts", "src/**/*.md"). Directories with no matching files are left out.
+* \`exclude\` (string[], optional): Globs for files and directories to skip. Defaults to ["node_modules"]; pass [] to show node_modules.
+* \`showHidden\` (boolean, optional): Include entries whose names start with '.'.
+* \`respectGitignore\` (boolean, optional): Hide entries ignored by .gitignore, .ignore and .git/info/exclude rules. The default exclude list is then empty.
+* \`showSize\` / \`showModified\` (boolean, optional): Annotate entries with file sizes and modification times.
+* \`maxEntriesPerDirectory\` (number, optional): Entries shown per directory before eliding the rest as "… N more" (default ${DIRECTORY_TREE_DEFAULT_MAX_ENTRIES_PER_DIRECTORY}).
+* \`maxTotalEntries\` (number, optional): Entries shown in total (default ${DIRECTORY_TREE_DEFAULT_MAX_TOTAL_ENTRIES}).
+* \`format\` ("ascii" | "json", optional): Output format (default "ascii").
+Globs without a '/' match entry names at any depth; globs with a '/' match paths relative to the root.
 Output: Returns a compact ASCII tree string representing the directory structure with:
   * Root directory name at the top
   * Tree branch characters (├──, └──, │) showing hierarchy relationships
   * Directories listed before files, sorted alphabetically within each category
-  * Clean, readable format that preserves visual structure and relationships
-The output format is much more compact and human-readable than JSON while preserving all structural information.
+  * "… N more" lines wherever entries were elided by a limit
+With format "json", returns { root, totalEntries, truncated } where each node has name, type and optional size, modified, children, omitted and error fields.
 Security: Can only inspect directories within pre-configured allowed directories.`,
     parameters: z.object({
       path: z.string().optional().describe('The primary path for the operation.'),
       file_path: z.string().optional().describe('Alternative argument for the path.'),
-      filepath: z.string().optional().describe('Alternative argument for the path.')
+      filepath: z.string().optional().describe('Alternative argument for the path.'),
+      maxDepth: z.number().int().min(1).optional().describe('Levels below the root to expand'),
+      include: z.array(z.string().min(1)).optional().describe('Globs that files must match'),
+      exclude: z.array(z.string().min(1)).optional().describe('Globs for entries to skip (default ["node_modules"])'),
+      showHidden: z.boolean().optional().default(false).describe('Include entries starting with "."'),
+      respectGitignore: z.boolean().optional().default(false).describe('Hide entries ignored by .gitignore/.ignore rules'),
+      showSize: z.boolean().optional().default(false).describe('Show file sizes'),
+      showModified: z.boolean().optional().default(false).describe('Show modification times'),
+      maxEntriesPerDirectory: z.number().int().min(1).optional().default(DIRECTORY_TREE_DEFAULT_MAX_ENTRIES_PER_DIRECTORY).describe('Entries shown per directory'),
+      maxTotalEntries: z.number().int().min(1).optional().default(DIRECTORY_TREE_DEFAULT_MAX_TOTAL_ENTRIES).describe('Entries shown in total'),
+      format: z.enum(['ascii', 'json']).optional().default('ascii').describe('Output format')
     }),
     execute: async (args, { log }) => {
       const pathToUse = getPathFromOptions(args);
@@ -1396,80 +3155,48 @@ Security: Can only inspect directories within pre-configured allowed directories
         throw new UserError(`Path is not a directory: ${pathToUse}`);
       }
 
-      // CONTRACT: Pure function for building ASCII directory tree
-      async function buildAsciiTree(currentPath: string, prefix = ""): Promise<string> {
-        // DEFENSIVE PROGRAMMING: Type validation
-        if (typeof currentPath !== 'string' || typeof prefix !== 'string') {
-          throw new UserError('Invalid input types for buildAsciiTree');
-        }
-
-        const validCurrentPath = await validatePath(currentPath);
-        
-        let dirStats;
-        try {
-          dirStats = await fs.stat(validCurrentPath);
-          if (!dirStats.isDirectory()) {
-            throw new UserError(`Path is not a directory: ${currentPath}`);
-          }
-        } catch (e: any) {
-          if (e.code === 'ENOENT') {
-            return "";
-          }
-          throw e;
-        }
-
-        // IMMUTABILITY: Filter and sort entries
-        const entries = (await fs.readdir(validCurrentPath, { withFileTypes: true }))
-          .filter(entry => !entry.name.startsWith('.') && entry.name !== 'node_modules')
-          .sort((a, b) => {
-            // Directories first, then alphabetical
-            if (a.isDirectory() && !b.isDirectory()) return -1;
-            if (!a.isDirectory() && b.isDirectory()) return 1;
-            return a.name.localeCompare(b.name);
-          });
-
-        let treeString = "";
-        
-        for (let i = 0; i < entries.length; i++) {
-          const entry = entries[i];
-          const isLast = i === entries.length - 1;
-          const connector: string = isLast ? "└── " : "├── ";
-          treeString += prefix + connector + entry.name + "\n";
-
-          if (entry.isDirectory()) {
-            const childPrefix: string = prefix + (isLast ? "    " : "│   ");
-            const subPath = path.join(currentPath, entry.name);
-            
-            try {
-              treeString += await buildAsciiTree(subPath, childPrefix);
-            } catch (e: any) {
-              const errorMsg = e instanceof Error ? e.message : 'Unknown error';
-              log.warn(`Could not access subdirectory: ${subPath}`, { error: errorMsg });
-              treeString += childPrefix + `[Error accessing subdirectory: ${errorMsg}]\n`;
-            }
-          }
-        }
-        
-        return treeString;
-      }
-
+      let tree;
       try {
-        const rootName = path.basename(validPath);
-        const asciiTree = await buildAsciiTree(validPath);
-        const treeData = rootName + "\n" + asciiTree;
-        
-        log.info('Directory tree generated successfully', {
-          path: pathToUse,
-          rootName,
-          treeLength: treeData.length
-        });
-        
-        return treeData.trim();
-        
+        // SECURITY BOUNDARY: Every subdirectory is re-validated before it is read
+        tree = await collectDirectoryTree(validPath, {
+          maxDepth: args.maxDepth,
+          include: args.include,
+          exclude: args.exclude ?? (args.respectGitignore ? [] : undefined),
+          showHidden: args.showHidden,
+          isIgnored: (await getTrashExclusion()).exclude(args.respectGitignore ? await createGitignoreMatcher() : null).isIgnored,
+          withSize: args.showSize,
+          withModified: args.showModified,
+          maxEntriesPerDirectory: args.maxEntriesPerDirectory,
+          maxTotalEntries: args.maxTotalEntries,
+        }, validatePath);
       } catch (e: any) {
         const errorMsg = e instanceof Error ? e.message : 'Unknown error';
         throw new UserError(`Failed to build directory tree: ${errorMsg}`);
       }
+
+      log.info('Directory tree generated successfully', {
+        path: pathToUse,
+        rootName: tree.root.name,
+        totalEntries: tree.totalEntries,
+        truncated: tree.truncated
+      });
+
+      if (args.format === 'json') {
+        return JSON.stringify(tree, null, 2);
+      }
+
+      // IMMUTABILITY: Annotations are derived from the collected nodes only
+      const label = (node: DirectoryTreeNode): string => {
+        const details: string[] = [];
+        if (node.size !== undefined) details.push(formatBytes(node.size));
+        if (node.modified !== undefined) details.push(node.modified.replace(/\.\d{3}Z$/, 'Z'));
+        return details.length > 0 ? `${node.name} (${details.join(', ')})` : node.name;
+      };
+
+      const asciiTree = renderAsciiTree(tree.root, label);
+      return tree.truncated
+        ? `${asciiTree}\n\n… output stopped after ${tree.totalEntries} entries (raise maxTotalEntries, lower maxDepth or narrow the filters)`
+        : asciiTree;
     },
   });
 
@@ -1479,12 +3206,16 @@ Security: Can only inspect directories within pre-configured allowed directories
     description: `Deletes a specified file from the filesystem.
 Arguments:
 * \`path\` / \`file_path\` / \`filepath\` (string, required): The full path of the file to be deleted. Provide exactly one of these.
-Output: Returns a success message indicating the path of the file that was deleted.
+* \`useTrash\` (boolean, optional, default: false): Move the file to the server trash instead of deleting it. It can be recovered later with restore_from_trash, even after the undo journal has expired.
+* \`expectedMtime\` / \`expectedSha256\` (optional): Version of the file as reported by read_file. If the file changed since then, the call aborts with a conflict error showing the current hash and a diff.
+Output: Returns a success message indicating the path of the file that was deleted, or its trash ID.
 Security: Can only delete files within pre-configured allowed directories. The file must exist and be a regular file (not a directory).`,
     parameters: z.object({
       path: z.string().optional().describe('The primary path for the operation.'),
       file_path: z.string().optional().describe('Alternative argument for the path.'),
-      filepath: z.string().optional().describe('Alternative argument for the path.')
+      filepath: z.string().optional().describe('Alternative argument for the path.'),
+      useTrash: z.boolean().optional().default(false).describe('Move the file to the trash instead of deleting it'),
+      ...ExpectedVersionSchema.shape,
     }),
     execute: async (args, { log }) => {
       const pathToUse = getPathFromOptions(args);
@@ -1503,16 +3234,27 @@ Security: Can only delete files within pre-configured allowed directories. The f
 
       if (!fileStats.isFile()) {
         if (fileStats.isDirectory()) {
-          throw new UserError(`Cannot delete directory with delete_file tool: ${pathToUse}. Use appropriate directory deletion tool.`);
+          throw new UserError(`Cannot delete directory with delete_file tool: ${pathToUse}. Use delete_directory instead.`);
         }
         throw new UserError(`Target is not a regular file: ${pathToUse}`);
       }
 
+      // CONCURRENCY GUARD: Refuse to delete a version the caller has not seen
+      await assertExpectedVersion(validPath, args);
+
       // IMMUTABILITY: Store file info for verification
       const originalSize = fileStats.size;
       const originalPath = validPath;
 
       try {
+        // RECOVERABLE DELETE: The trash keeps the file itself, so it is not journaled again
+        if (args.useTrash) {
+          const entry = await moveToServerTrash(validPath, 'delete_file');
+          log.info('File moved to trash', { path: pathToUse, originalSize, trashId: entry.id });
+          return `File moved to trash: ${pathToUse} (trash ID: ${entry.id}; use restore_from_trash to recover it)`;
+        }
+
+        const snapshot = await snapshotFile(validPath);
         await fs.unlink(validPath);
         
         // CONTRACT: Postcondition verification
@@ -1525,9 +3267,11 @@ Security: Can only delete files within pre-configured allowed directories. The f
           }
         }
         
+        const change = await recordChange('delete_file', 'File deleted', [snapshot]);
         log.info('File deleted successfully', {
           path: pathToUse,
-          originalSize
+          originalSize,
+          changeId: change?.id
         });
         
         return `File deleted successfully: ${pathToUse}`;
@@ -1552,7 +3296,9 @@ Security: Can only delete files within pre-configured allowed directories. The f
 Arguments:
 * \`source_path\` (string, required): The full path of the file to be renamed/moved.
 * \`destination_path\` (string, required): The new full path for the file.
+* \`expectedMtime\` / \`expectedSha256\` (optional): Version of the source file as reported by read_file. If it changed since then, the call aborts with a conflict error showing the current hash and a diff.
 Output: Returns a success message indicating the source and destination paths upon successful renaming.
+Moves between filesystems (e.g. two mounted volumes) fall back to copying the file with its mode and timestamps, verifying size and sha256, and only then deleting the source.
 Security: Can only rename/move files *from* and *to* locations within the pre-configured allowed directories.
 Contracts:
   Preconditions: source_path exists, both paths are within allowed directories, source != destination
@@ -1560,7 +3306,8 @@ Contracts:
   Invariants: total file count unchanged, allowed directory boundaries respected`,
     parameters: z.object({
       source_path: z.string().min(1).describe('The full path of the file to be renamed/moved.'),
-      destination_path: z.string().min(1).describe('The new full path for the file.')
+      destination_path: z.string().min(1).describe('The new full path for the file.'),
+      ...ExpectedVersionSchema.shape,
     }).refine(data => {
       return path.normalize(data.source_path) !== path.normalize(data.destination_path);
     }, {
@@ -1595,7 +3342,7 @@ Contracts:
 
       if (!sourceStats.isFile()) {
         if (sourceStats.isDirectory()) {
-          throw new UserError(`Cannot rename directory with rename_file tool: ${source_path}. Use appropriate directory renaming tool.`);
+          throw new UserError(`Cannot rename directory with rename_file tool: ${source_path}. Use move_directory instead.`);
         }
         throw new UserError(`Source is not a regular file: ${source_path}`);
       }
@@ -1624,13 +3371,26 @@ Contracts:
         throw new UserError(`Cannot access destination directory: ${e.message}`);
       }
 
+      // CONCURRENCY GUARD: Refuse to move a version the caller has not seen
+      await assertExpectedVersion(validSourcePath, args);
+
       // IMMUTABILITY: Store original properties for verification
       const originalSize = sourceStats.size;
       const originalMtime = sourceStats.mtime;
 
       try {
-        // Perform rename operation
-        await fs.rename(validSourcePath, validDestPath);
+        // Perform rename operation; journaling both ends lets an undo move the file back
+        const snapshots = [await snapshotFile(validSourcePath), await snapshotFile(validDestPath)];
+        let crossDevice = false;
+        try {
+          await fs.rename(validSourcePath, validDestPath);
+        } catch (e: any) {
+          if (e.code !== 'EXDEV') throw e;
+          // FALLBACK: rename cannot cross filesystems; copy, verify size and hash, then unlink
+          log.info('Rename crosses filesystems, falling back to copy and delete', { source: source_path, destination: destination_path });
+          await moveFileAcrossDevices(validSourcePath, validDestPath);
+          crossDevice = true;
+        }
 
         // CONTRACT: Postcondition verification
         try {
@@ -1664,13 +3424,16 @@ Contracts:
           throw new UserError(`Postcondition verification failed: ${e.message}`);
         }
 
+        const change = await recordChange('rename_file', `Renamed to ${validDestPath}`, snapshots);
         log.info('File renamed successfully', {
           source: source_path,
           destination: destination_path,
-          size: originalSize
+          size: originalSize,
+          crossDevice,
+          changeId: change?.id
         });
         
-        return `File renamed successfully from ${source_path} to ${destination_path}`;
+        return `File renamed successfully from ${source_path} to ${destination_path}${crossDevice ? ' (moved across filesystems: copied, verified and source removed)' : ''}`;
         
       } catch (error: any) {
         if (error instanceof UserError) {
@@ -1679,15 +3442,208 @@ Contracts:
         if (error.code === 'EACCES') {
           throw new UserError(`Permission denied renaming file: ${error.message}`);
         }
-        if (error.code === 'EXDEV') {
-          throw new UserError('Cannot rename across different filesystems. Use copy and delete instead.');
-        }
         const errorMessage = error instanceof Error ? error.message : 'Unknown error';
         throw new UserError(`File rename failed: ${errorMessage}`);
       }
     },
   });
 
+  // TOOL: copy_directory - Recursive directory copy with merge/overwrite policies
+  server.addTool({
+    name: "copy_directory",
+    description: `Recursively copies a directory, including subdirectories, files and symbolic links (links are recreated, not followed).
+Arguments:
+* \`source_path\` (string, required): The directory to copy.
+* \`destination_path\` (string, required): The path the copy will have (not its parent directory).
+* \`ifExists\` (enum, optional, default: 'error'): What to do when the destination already exists: 'error' refuses, 'merge' adds missing entries and keeps existing files, 'overwrite' adds missing entries and replaces existing files. Entries whose type differs (e.g. a file where the source has a directory) always abort the copy. Replaced files are journaled as one change, so undo_last_change restores them.
+* \`dryRun\` (boolean, optional, default: false): List every entry with the action that would be taken (create, overwrite, skip, exists) without copying.
+Output: A summary of created, overwritten and skipped entries; in dry-run mode also the per-entry listing.
+Security: Both directories must be within the allowed directories. The destination cannot be inside the source.`,
+    parameters: z.object({
+      source_path: z.string().min(1).describe('The directory to copy'),
+      destination_path: z.string().min(1).describe('The path of the copy'),
+      ifExists: DirectoryConflictPolicySchema.optional().default('error').describe("Policy when the destination exists: 'error', 'merge' or 'overwrite'"),
+      dryRun: z.boolean().optional().default(false).describe('List affected entries without copying'),
+    }),
+    execute: async (args, { log }) => {
+      const { source_path, destination_path, ifExists = 'error', dryRun = false } = args;
+
+      // SECURITY BOUNDARY: Both roots are validated; the walk never follows symlinks out of them
+      const validSource = await validatePath(source_path);
+      const validDestination = await validatePath(destination_path);
+      const plan = await planDirectoryCopy(validSource, validDestination, ifExists);
+
+      if (dryRun) {
+        return describeCopyPlan(plan, 'Directory copy (dry run, nothing written)', true);
+      }
+      if (plan.conflicts.length > 0) {
+        throw new UserError(describeCopyPlan(plan, 'Directory copy aborted', false));
+      }
+
+      const snapshots = await snapshotOverwrittenFiles(plan, false);
+      try {
+        await executeDirectoryCopy(plan);
+      } catch (error: any) {
+        if (error instanceof UserError) throw error;
+        throw new UserError(`Directory copy failed after partial progress: ${error.message}. Inspect ${destination_path} before retrying with ifExists 'merge' or 'overwrite'.`);
+      }
+      const change = await recordChange('copy_directory', `Copied ${validSource} to ${validDestination}`, snapshots);
+
+      log.info('Directory copied successfully', { source: source_path, destination: destination_path, entries: plan.entries.length, changeId: change?.id });
+      return describeCopyPlan(plan, `Directory copied successfully from ${source_path} to ${destination_path}`, false);
+    },
+  });
+
+  // TOOL: move_directory - Directory move with rename fast path and copy fallback
+  server.addTool({
+    name: "move_directory",
+    description: `Moves (renames) a directory with all its contents.
+Arguments:
+* \`source_path\` (string, required): The directory to move.
+* \`destination_path\` (string, required): The new path of the directory (not its parent directory).
+* \`ifExists\` (enum, optional, default: 'error'): What to do when the destination already exists: 'error' refuses, 'merge' moves missing entries in and leaves conflicting source files where they are, 'overwrite' moves everything in and replaces existing files. Replaced files and the source files moved over them are journaled as one change, so undo_last_change restores both.
+* \`dryRun\` (boolean, optional, default: false): List every entry with the action that would be taken without moving anything.
+When the destination does not exist the directory is renamed in one step; across filesystems, or when merging, entries are copied and then removed from the source.
+Output: A summary of moved, overwritten and skipped entries, plus any entries left behind in the source.
+Security: Both directories must be within the allowed directories. An allowed root directory itself cannot be moved.`,
+    parameters: z.object({
+      source_path: z.string().min(1).describe('The directory to move'),
+      destination_path: z.string().min(1).describe('The new path of the directory'),
+      ifExists: DirectoryConflictPolicySchema.optional().default('error').describe("Policy when the destination exists: 'error', 'merge' or 'overwrite'"),
+      dryRun: z.boolean().optional().default(false).describe('List affected entries without moving'),
+    }),
+    execute: async (args, { log }) => {
+      const { source_path, destination_path, ifExists = 'error', dryRun = false } = args;
+
+      // SECURITY BOUNDARY: Validate both roots and protect the allowed directories themselves
+      const validSource = await validatePath(source_path);
+      const validDestination = await validatePath(destination_path);
+      await assertNotAllowedRoot(validSource, 'move');
+      const plan = await planDirectoryCopy(validSource, validDestination, ifExists);
+
+      if (dryRun) {
+        return describeCopyPlan(plan, 'Directory move (dry run, nothing moved)', true);
+      }
+      if (plan.conflicts.length > 0) {
+        throw new UserError(describeCopyPlan(plan, 'Directory move aborted', false));
+      }
+
+      const snapshots = await snapshotOverwrittenFiles(plan, true);
+      let leftovers: string[] = [];
+      try {
+        let renamed = false;
+        if (!plan.destinationExists) {
+          try {
+            await fs.rename(validSource, validDestination);
+            renamed = true;
+          } catch (error: any) {
+            if (error.code !== 'EXDEV') throw error;
+          }
+        }
+        if (!renamed) {
+          await executeDirectoryCopy(plan);
+          leftovers = await removeMovedEntries(plan);
+        }
+      } catch (error: any) {
+        if (error instanceof UserError) throw error;
+        if (error.code === 'ENOENT') {
+          throw new UserError(`Destination parent directory does not exist: ${path.dirname(destination_path)}`);
+        }
+        throw new UserError(`Directory move failed: ${error.message}. Some entries may already be at ${destination_path}; inspect both directories before retrying with ifExists 'merge'.`);
+      }
+
+      const change = await recordChange('move_directory', `Moved ${validSource} to ${validDestination}`, snapshots);
+
+      log.info('Directory moved successfully', { source: source_path, destination: destination_path, leftovers: leftovers.length, changeId: change?.id });
+      const report = describeCopyPlan(plan, `Directory moved successfully from ${source_path} to ${destination_path}`, false);
+      return leftovers.length > 0
+        ? `${report}\nLeft in source (destination already had them):\n${formatEntryListing(leftovers.map(entry => `  ${entry}`))}`
+        : report;
+    },
+  });
+
+  // TOOL: delete_directory - Recursive directory deletion with confirmation for large trees
+  server.addTool({
+    name: "delete_directory",
+    description: `Recursively deletes a directory and everything in it. Symbolic links inside it are removed, never followed. This is not recorded in the undo journal; use \`useTrash\` to keep it recoverable.
+Arguments:
+* \`path\` / \`file_path\` / \`filepath\` (string, required): The directory to delete. Provide exactly one of these.
+* \`confirmCount\` (number, required above ${DIRECTORY_DELETE_CONFIRM_THRESHOLD} entries unless \`useTrash\` is set): The exact number of entries inside the directory, as reported by a dry run or by a refused call. Protects against deleting a larger tree than intended.
+* \`useTrash\` (boolean, optional, default: false): Move the directory to the server trash instead of deleting it, so it can be recovered with restore_from_trash.
+* \`dryRun\` (boolean, optional, default: false): List the entries that would be deleted without deleting anything.
+Output: The number of files, directories and links removed (or the trash ID); in dry-run mode also the per-entry listing.
+Security: The directory must be within the allowed directories. An allowed root directory itself cannot be deleted.`,
+    parameters: z.object({
+      confirmCount: z.number().int().min(0).optional().describe(`Exact number of entries inside the directory; required above ${DIRECTORY_DELETE_CONFIRM_THRESHOLD}`),
+      useTrash: z.boolean().optional().default(false).describe('Move the directory to the trash instead of deleting it'),
+      dryRun: z.boolean().optional().default(false).describe('List entries without deleting'),
+      path: z.string().optional().describe('The primary path for the operation.'),
+      file_path: z.string().optional().describe('Alternative argument for the path.'),
+      filepath: z.string().optional().describe('Alternative argument for the path.'),
+    }),
+    execute: async (args, { log }) => {
+      const pathToUse = getPathFromOptions(args);
+      const validPath = await validatePath(pathToUse);
+      const { confirmCount, useTrash = false, dryRun = false } = args;
+
+      // DEFENSIVE PROGRAMMING: Only real directories, never the allowed roots
+      let stats;
+      try {
+        stats = await fs.lstat(validPath);
+      } catch (e: any) {
+        if (e.code === 'ENOENT') {
+          throw new UserError(`Directory does not exist: ${pathToUse}`);
+        }
+        throw new UserError(`Cannot access directory: ${e.message}`);
+      }
+      if (!stats.isDirectory()) {
+        throw new UserError(`Not a directory: ${pathToUse}. Use delete_file for files and symbolic links.`);
+      }
+      await assertNotAllowedRoot(validPath, 'delete');
+
+      const entries = await walkDirectory(validPath);
+      const counts = countEntryTypes(entries);
+
+      if (dryRun) {
+        return [
+          `Directory delete (dry run, nothing deleted): ${pathToUse} contains ${entries.length} entries (${counts})`,
+          ...(entries.length > DIRECTORY_DELETE_CONFIRM_THRESHOLD && !useTrash ? [`Pass confirmCount: ${entries.length} to delete it.`] : []),
+          formatEntryListing(entries.map(entry => `  delete ${entry.relativePath}${entry.type === 'directory' ? '/' : ''}`)),
+        ].filter(line => line.length > 0).join('\n');
+      }
+
+      if (useTrash) {
+        const entry = await moveToServerTrash(validPath, 'delete_directory').catch((error: any) => {
+          throw error instanceof UserError ? error : new UserError(`Failed to move directory to trash: ${error.message}`);
+        });
+        log.info('Directory moved to trash', { path: pathToUse, entries: entries.length, trashId: entry.id });
+        return `Directory moved to trash: ${pathToUse} (${counts}; trash ID: ${entry.id}; use restore_from_trash to recover it)`;
+      }
+
+      // CONTRACT: Large permanent deletes must state the exact size of what they remove
+      if (entries.length > DIRECTORY_DELETE_CONFIRM_THRESHOLD && confirmCount !== entries.length) {
+        throw new UserError(
+          `${pathToUse} contains ${entries.length} entries (${counts}), more than ${DIRECTORY_DELETE_CONFIRM_THRESHOLD}. ` +
+          (confirmCount === undefined
+            ? `Re-run with confirmCount: ${entries.length} to delete it, or with useTrash: true.`
+            : `confirmCount ${confirmCount} does not match; nothing was deleted.`)
+        );
+      }
+
+      try {
+        await fs.rm(validPath, { recursive: true });
+      } catch (error: any) {
+        if (error.code === 'EACCES' || error.code === 'EPERM') {
+          throw new UserError(`Permission denied deleting directory: ${error.message}. Some entries may already be deleted.`);
+        }
+        throw new UserError(`Failed to delete directory: ${error.message}. Some entries may already be deleted.`);
+      }
+
+      log.info('Directory deleted successfully', { path: pathToUse, entries: entries.length });
+      return `Directory deleted successfully: ${pathToUse} (${counts})`;
+    },
+  });
+
   // TOOL: search_files_and_folders - Powerful search capabilities with advanced programming techniques
   server.addTool({
     name: "search_files_and_folders",
@@ -1698,7 +3654,16 @@ Arguments:
 * \`search_type\` (enum, optional, default: 'both'): Filters results. Can be 'files', 'folders', or 'both'.
 * \`case_sensitive\` (boolean, optional, default: false): Toggles case-sensitivity.
 * \`include_hidden\` (boolean, optional, default: false): If true, includes hidden files/folders (e.g., .env, .git).
-Output: Returns a JSON array of strings, where each string is the full path of a matching file or folder.
+* \`respectGitignore\` (boolean, optional, default: false): Skip files and folders ignored by .gitignore, .ignore and .git/info/exclude rules instead of the built-in node_modules exclusion.
+* \`min_size\` / \`max_size\` (number, optional): File size range in bytes, inclusive. Folders are excluded when either is set.
+* \`modified_after\` / \`modified_before\` (string, optional): ISO 8601 timestamp or a duration back from now ("30m", "24h", "7d", "2w").
+* \`extensions\` (string[], optional): Only files with one of these extensions (e.g. ["ts", ".tsx", "d.ts"]), case-insensitive. Folders are excluded.
+* \`max_depth\` (number, optional): Levels below the search directory to descend (1 = direct children only).
+* \`sort_by\` (enum, optional, default: 'name'): 'name' (full path), 'size' or 'modified'.
+* \`sort_order\` (enum, optional): 'asc' or 'desc'. Defaults to 'asc' for name and 'desc' for size and modified, so the largest / newest come first.
+* \`offset\` (number, optional, default: 0) / \`limit\` (number, optional, default: ${SEARCH_DEFAULT_LIMIT}, max ${SEARCH_MAX_LIMIT}): Page through the sorted results.
+Output: Returns JSON \`{ total, offset, limit, results }\` where total counts all matches before paging and each result has \`path\`, \`type\` ('file' or 'directory'), \`size\` (files only, bytes) and \`modified\` (ISO 8601).
+Example (the 20 largest files changed in the last day): \`{ "search_term": "*", "search_type": "files", "modified_after": "24h", "sort_by": "size", "limit": 20 }\`.
 Security: The search is strictly confined to the pre-configured allowed directories. Any user-provided \`path\` is validated to ensure it's within these boundaries.`,
     parameters: z.object({
       search_term: z.string().min(1, { message: "search_term cannot be empty." })
@@ -1711,9 +3676,36 @@ Security: The search is strictly confined to the pre-configured allowed director
         .describe("If true, the search will be case-sensitive. Defaults to false."),
       include_hidden: z.boolean().optional().default(false)
         .describe("If true, results will include hidden files and folders (those starting with a '.'). Defaults to false."),
+      respectGitignore: z.boolean().optional().default(false)
+        .describe("If true, skips entries ignored by .gitignore/.ignore rules instead of only node_modules. Defaults to false."),
+      min_size: z.number().int().min(0).optional().describe('Minimum file size in bytes (inclusive)'),
+      max_size: z.number().int().min(0).optional().describe('Maximum file size in bytes (inclusive)'),
+      modified_after: z.string().optional().describe('ISO 8601 timestamp or duration back from now ("24h", "7d")'),
+      modified_before: z.string().optional().describe('ISO 8601 timestamp or duration back from now ("24h", "7d")'),
+      extensions: z.array(z.string().min(1)).max(100).optional().describe('File extensions to keep, e.g. ["ts", ".md"]'),
+      max_depth: z.number().int().min(1).optional().describe('Levels below the search directory to descend'),
+      sort_by: z.enum(['name', 'size', 'modified']).optional().default('name').describe("Sort key. Defaults to 'name'."),
+      sort_order: z.enum(['asc', 'desc']).optional().describe("Defaults to 'asc' for name, 'desc' for size and modified"),
+      offset: z.number().int().min(0).optional().default(0).describe('Results to skip'),
+      limit: z.number().int().min(1).max(SEARCH_MAX_LIMIT).optional().default(SEARCH_DEFAULT_LIMIT).describe('Maximum results to return'),
     }),
     execute: async (args, { log }) => {
-      const { search_term, path: searchPath, search_type, case_sensitive, include_hidden } = args;
+      const {
+        search_term,
+        path: searchPath,
+        search_type = 'both',
+        case_sensitive = false,
+        include_hidden = false,
+        respectGitignore = false,
+        min_size,
+        max_size,
+        extensions,
+        max_depth,
+        sort_by = 'name',
+        offset = 0,
+        limit = SEARCH_DEFAULT_LIMIT,
+      } = args;
+      const sort_order = args.sort_order ?? (sort_by === 'name' ? 'asc' : 'desc');
 
       // DEFENSIVE PROGRAMMING: Input validation
       if (typeof search_term !== 'string' || search_term.trim().length === 0) {
@@ -1724,6 +3716,20 @@ Security: The search is strictly confined to the pre-configured allowed director
         throw new UserError('search_term exceeds maximum length (255 characters)');
       }
 
+      if (min_size !== undefined && max_size !== undefined && min_size > max_size) {
+        throw new UserError(`min_size (${min_size}) cannot be greater than max_size (${max_size})`);
+      }
+
+      const modifiedAfter = args.modified_after === undefined ? undefined : parseSearchTimeBound(args.modified_after, 'modified_after');
+      const modifiedBefore = args.modified_before === undefined ? undefined : parseSearchTimeBound(args.modified_before, 'modified_before');
+      if (modifiedAfter !== undefined && modifiedBefore !== undefined && modifiedAfter >= modifiedBefore) {
+        throw new UserError('modified_after must be earlier than modified_before');
+      }
+
+      // IMMUTABILITY: Normalized extension suffixes (".ts", ".d.ts")
+      const extensionSuffixes = extensions?.map(extension => '.' + extension.replace(/^\./, '').toLowerCase());
+      const filesOnly = extensionSuffixes !== undefined || min_size !== undefined || max_size !== undefined;
+
       // Determine search roots with security validation
       const searchRoots: string[] = [];
       if (searchPath) {
@@ -1748,8 +3754,8 @@ Security: The search is strictly confined to the pre-configured allowed director
         searchRoots.push(...allowedDirectories);
       }
 
-      // IMMUTABILITY: Use Set for deduplication
-      const allMatches = new Set<string>();
+      // IMMUTABILITY: Use Map keyed by path for deduplication
+      const allMatches = new Map<string, SearchMatch>();
 
       if (searchRoots.length === 0) {
         throw new UserError('No valid search directories available');
@@ -1760,9 +3766,15 @@ Security: The search is strictly confined to the pre-configured allowed director
         searchType: search_type,
         caseSensitive: case_sensitive,
         includeHidden: include_hidden,
+        respectGitignore,
+        maxDepth: max_depth,
+        sortBy: sort_by,
         rootCount: searchRoots.length
       });
 
+      const gitignore = respectGitignore ? await createGitignoreMatcher() : null;
+      const trash = await getTrashExclusion();
+
       // DEFENSIVE PROGRAMMING: Process each search root with error isolation
       const searchResults = await Promise.allSettled(
         searchRoots.map(async (root) => {
@@ -1773,13 +3785,16 @@ Security: The search is strictly confined to the pre-configured allowed director
             nocase: !case_sensitive,
             dot: include_hidden,
             withFileTypes: true,
-            absolute: true,
-            ignore: include_hidden ? [] : ['**/.*', '**/node_modules/**'],
+            stat: true,
+            maxDepth: max_depth,
+            ignore: gitignore
+              ? toGlobIgnore(trash.exclude(gitignore), validRoot, include_hidden ? [] : ['**/.*'])
+              : [...(include_hidden ? [] : ['**/.*', '**/node_modules/**']), ...trash.globIgnore],
           };
 
           try {
             const matches = await glob(`**/*${search_term}*`, globOptions);
-            const rootMatches = new Set<string>();
+            const rootMatches = new Map<string, SearchMatch>();
 
             for (const match of matches) {
               if (typeof match === 'string') {
@@ -1794,14 +3809,30 @@ Security: The search is strictly confined to the pre-configured allowed director
               }
 
               // Filter based on search_type with type safety
-              const matchPath = match.fullpath();
-              if (search_type === 'both') {
-                rootMatches.add(matchPath);
-              } else if (search_type === 'files' && isFile) {
-                rootMatches.add(matchPath);
-              } else if (search_type === 'folders' && isDirectory) {
-                rootMatches.add(matchPath);
+              if ((search_type === 'files' || filesOnly) && !isFile) {
+                continue;
               }
+              if (search_type === 'folders' && !isDirectory) {
+                continue;
+              }
+
+              // Metadata filters: size and extensions apply to files, modification time to both
+              const matchPath = match.fullpath();
+              if (trash.contains(matchPath)) continue;
+              const size = match.size ?? 0;
+              const modified = match.mtime?.getTime() ?? 0;
+              if (min_size !== undefined && size < min_size) continue;
+              if (max_size !== undefined && size > max_size) continue;
+              if (modifiedAfter !== undefined && modified < modifiedAfter) continue;
+              if (modifiedBefore !== undefined && modified > modifiedBefore) continue;
+              if (extensionSuffixes && !extensionSuffixes.some(suffix => match.name.toLowerCase().endsWith(suffix))) continue;
+
+              rootMatches.set(matchPath, {
+                path: matchPath,
+                type: isFile ? 'file' : 'directory',
+                ...(isFile ? { size } : {}),
+                modified: new Date(modified).toISOString(),
+              });
             }
 
             return rootMatches;
@@ -1809,7 +3840,7 @@ Security: The search is strictly confined to the pre-configured allowed director
           } catch (e: any) {
             const errorMsg = e instanceof Error ? e.message : 'Unknown error';
             log.warn(`Failed to search in directory ${root}: ${errorMsg}`);
-            return new Set<string>();
+            return new Map<string, SearchMatch>();
           }
         })
       );
@@ -1817,16 +3848,26 @@ Security: The search is strictly confined to the pre-configured allowed director
       // IMMUTABILITY: Merge all successful search results
       for (const result of searchResults) {
         if (result.status === 'fulfilled') {
-          for (const match of result.value) {
-            allMatches.add(match);
+          for (const [matchPath, match] of result.value) {
+            allMatches.set(matchPath, match);
           }
         }
       }
 
+      // IMMUTABILITY: Sort a copy; ties fall back to the path so pages are stable
+      const direction = sort_order === 'asc' ? 1 : -1;
+      const byPath = (a: SearchMatch, b: SearchMatch) => (a.path < b.path ? -1 : a.path > b.path ? 1 : 0);
+      const sortedResults = Array.from(allMatches.values()).sort((a, b) => {
+        const primary = sort_by === 'size'
+          ? (a.size ?? 0) - (b.size ?? 0)
+          : sort_by === 'modified'
+            ? Date.parse(a.modified) - Date.parse(b.modified)
+            : byPath(a, b);
+        return primary !== 0 ? primary * direction : byPath(a, b);
+      });
+
       // CONTRACT: Postcondition verification
-      const sortedResults = Array.from(allMatches).sort();
-      
-      for (const resultPath of sortedResults) {
+      for (const { path: resultPath } of sortedResults) {
         if (!path.isAbsolute(resultPath)) {
           throw new UserError(`Postcondition violated: non-absolute path in results: ${resultPath}`);
         }
@@ -1846,7 +3887,219 @@ Security: The search is strictly confined to the pre-configured allowed director
         processedRoots: searchRoots.length
       });
 
-      return JSON.stringify(sortedResults, null, 2);
+      return JSON.stringify({
+        total: sortedResults.length,
+        offset,
+        limit,
+        results: sortedResults.slice(offset, offset + limit),
+      }, null, 2);
+    },
+  });
+
+  // TOOL: list_changes - Inspect the undo journal of file mutations
+  server.addTool({
+    name: "list_changes",
+    description: `Lists recent file mutations recorded in the server's undo journal, newest first.
+Every write_file, append_file, copy_file, edit_file, edit_lines, bulk_edit, apply_patch, delete_file (without useTrash) and rename_file call snapshots the affected files before changing them. A bulk_edit or apply_patch is recorded as a single change covering all files it modified.
+Arguments:
+* \`limit\` (number, optional, default: 20): Maximum number of changes to list.
+* \`path\` (string, optional): Only list changes that touched this file.
+Output: One block per change with its ID, tool, time, whether it has been undone, and each affected file with its action (created/modified/deleted). Files larger than 5MB are journaled without content and marked as not restorable.
+Retention: The journal lives in memory and keeps changes for up to 24 hours, 500 changes or 100MB of snapshots, evicting the oldest first.`,
+    parameters: z.object({
+      limit: z.number().int().min(1).max(500).optional().default(20).describe('Maximum number of changes to list'),
+      path: z.string().optional().describe('Only list changes that touched this file'),
+    }),
+    execute: async (args) => {
+      const filePath = args.path ? await validatePath(args.path) : undefined;
+      const changes = listChanges({ limit: args.limit, filePath });
+
+      if (changes.length === 0) {
+        return 'No changes recorded in the journal.';
+      }
+
+      return changes.map(change => [
+        `${change.id}  ${change.tool}  ${change.createdAt}${change.undone ? '  [undone]' : ''}`,
+        `  ${change.description}`,
+        ...change.files.map(file => `  ${file.action.padEnd(8)} ${file.path}${file.restorable ? '' : ' (not restorable: too large)'}`),
+      ].join('\n')).join('\n\n');
+    },
+  });
+
+  /**
+   * SECURITY BOUNDARY: Validation of a journaled path whose directories may be gone
+   *
+   * Postconditions:
+   * - Validates the path itself when it or its parent exists
+   * - Otherwise validates the nearest existing ancestor, which restoreChange recreates the
+   *   missing directories under (e.g. the source of a move_directory that removed it)
+   */
+  const validateRestoreTarget = async (filePath: string): Promise<void> => {
+    let existing = path.dirname(filePath);
+    while (await fs.lstat(existing).then(() => false, () => true)) {
+      const parent = path.dirname(existing);
+      if (parent === existing) break;
+      existing = parent;
+    }
+    await validatePath(existing === path.dirname(filePath) ? filePath : existing);
+  };
+
+  /**
+   * CONTRACT: Shared restore path for undo_last_change and restore_change
+   *
+   * Preconditions:
+   * - changeId refers to a journaled change
+   *
+   * Postconditions:
+   * - Every affected path is re-validated before anything is written
+   * - Returns a human-readable report of restored, removed and skipped files
+   */
+  const restoreJournaledChange = async (changeId: string, force: boolean, log: { info: (message: string, data?: any) => void }): Promise<string> => {
+    const change = getChange(changeId);
+    if (!change) {
+      throw new UserError(`No change found with ID: ${changeId}. It may have expired from the journal.`);
+    }
+
+    // SECURITY BOUNDARY: Paths were valid when journaled; re-check before writing
+    for (const snapshot of change.files) {
+      await validateRestoreTarget(snapshot.path);
+    }
+
+    const result = await restoreChange(changeId, { force });
+    log.info('Change restored', { changeId, tool: change.tool, redoChangeId: result.redoChangeId });
+
+    return [
+      `Restored change ${changeId} (${change.tool}: ${change.description})`,
+      ...result.restoredFiles.map(file => `  restored ${file}`),
+      ...result.removedFiles.map(file => `  removed  ${file}`),
+      ...result.skippedFiles.map(file => `  skipped  ${file} (too large to journal)`),
+      ...(result.redoChangeId ? [`To redo, restore change ${result.redoChangeId}`] : []),
+    ].join('\n');
+  };
+
+  // TOOL: undo_last_change - Revert the most recent journaled mutation
+  server.addTool({
+    name: "undo_last_change",
+    description: `Reverts the most recent file mutation in the undo journal that has not already been undone. Files are restored to their exact previous bytes and mode; files the change created are removed. Calling it again reverts the change before that, walking back through history. The undo is itself journaled, so it can be redone with restore_change and the reported change ID.
+Arguments:
+* \`force\` (boolean, optional, default: false): Restore even if an affected file was modified after the change was made. Without it the tool refuses and lists the conflicting files.
+Output: The restored change and the files that were restored, removed or skipped.`,
+    parameters: z.object({
+      force: z.boolean().optional().default(false).describe('Overwrite files that changed since the change was made'),
+    }),
+    execute: async (args, { log }) => {
+      const change = getLastChange();
+      if (!change) {
+        throw new UserError('No changes to undo: the journal is empty or every change in it has been undone');
+      }
+      return restoreJournaledChange(change.id, args.force ?? false, log);
+    },
+  });
+
+  // TOOL: restore_change - Revert a specific journaled mutation by ID
+  server.addTool({
+    name: "restore_change",
+    description: `Reverts a specific change from the undo journal by its ID (see list_changes). Reverting a bulk_edit change restores every file that operation modified. The restore is itself journaled, so it can be reverted in turn.
+Arguments:
+* \`changeId\` (string, required): The ID of the change to revert.
+* \`force\` (boolean, optional, default: false): Restore even if an affected file was modified after the change was made. Without it the tool refuses and lists the conflicting files.
+Output: The restored change and the files that were restored, removed or skipped.`,
+    parameters: z.object({
+      changeId: z.string().min(1).describe('ID of the change to revert'),
+      force: z.boolean().optional().default(false).describe('Overwrite files that changed since the change was made'),
+    }),
+    execute: async (args, { log }) => {
+      return restoreJournaledChange(args.changeId, args.force ?? false, log);
+    },
+  });
+
+  // TOOL: list_trash - Inspect items moved to the server trash
+  server.addTool({
+    name: "list_trash",
+    description: `Lists files and directories in the server trash (moved there by delete_file or delete_directory with \`useTrash: true\`), newest first.
+Arguments:
+* \`path\` (string, optional): Only list items originally located at or below this path.
+Output: One line per item with its trash ID, deletion time, type, size and original path, followed by the trash location and retention period. Items older than the retention period are purged automatically the next time something is trashed.
+Configuration: The trash lives in \`${TRASH_DIRECTORY_ENV}\` (default: ${TRASH_DIRECTORY_NAME} in the first allowed directory); retention comes from \`${TRASH_RETENTION_DAYS_ENV}\` (default ${TRASH_DEFAULT_RETENTION_DAYS} days).`,
+    parameters: z.object({
+      path: z.string().optional().describe('Only list items originally at or below this path'),
+    }),
+    execute: async (args) => {
+      const trashDir = await resolveTrashDirectory();
+      const filterPath = args.path ? await validatePath(args.path) : undefined;
+      const entries = (await listTrash(trashDir)).filter(entry =>
+        !filterPath || entry.originalPath === filterPath || entry.originalPath.startsWith(filterPath + path.sep)
+      );
+
+      const footer = `Trash: ${trashDir} (items are kept for ${getTrashRetentionDays()} days)`;
+      if (entries.length === 0) {
+        return `The trash is empty.\n${footer}`;
+      }
+      return [...entries.map(formatTrashEntry), '', footer].join('\n');
+    },
+  });
+
+  // TOOL: restore_from_trash - Move a trashed item back
+  server.addTool({
+    name: "restore_from_trash",
+    description: `Moves an item from the server trash back to its original location, or to a new one. Missing parent directories are recreated.
+Arguments:
+* \`trashId\` (string, required): ID from list_trash or from the delete_file / delete_directory result.
+* \`destination\` (string, optional): Restore to this path instead of the original one. Required when the original path is occupied again.
+Output: The path the item was restored to.
+Security: The restore location must be within the allowed directories.`,
+    parameters: z.object({
+      trashId: z.string().min(1).describe('ID of the trashed item'),
+      destination: z.string().optional().describe('Restore to this path instead of the original one'),
+    }),
+    execute: async (args, { log }) => {
+      const trashDir = await resolveTrashDirectory();
+      const validDestination = args.destination ? await validatePath(args.destination) : undefined;
+      const entry = (await listTrash(trashDir)).find(candidate => candidate.id === args.trashId);
+
+      // SECURITY BOUNDARY: The original path was valid when trashed; re-check before writing
+      if (entry && !validDestination) {
+        await validatePath(entry.originalPath);
+      }
+
+      try {
+        const restored = await restoreFromTrash(trashDir, args.trashId, validDestination);
+        log.info('Restored from trash', { trashId: args.trashId, restoredTo: restored.restoredTo });
+        return `Restored ${restored.type} ${restored.name} to ${restored.restoredTo}`;
+      } catch (error: any) {
+        if (error instanceof UserError) throw error;
+        throw new UserError(`Failed to restore from trash: ${error.message}`);
+      }
+    },
+  });
+
+  // TOOL: empty_trash - Permanently delete trashed items
+  server.addTool({
+    name: "empty_trash",
+    description: `Permanently deletes items from the server trash. This cannot be undone.
+Arguments:
+* \`olderThanDays\` (number, optional): Only purge items trashed more than this many days ago.
+* \`trashIds\` (array of strings, optional): Only purge these items.
+* \`dryRun\` (boolean, optional, default: false): List what would be purged without deleting.
+Without \`olderThanDays\` or \`trashIds\`, every item in the trash is purged.
+Output: The purged items, one per line.`,
+    parameters: z.object({
+      olderThanDays: z.number().min(0).optional().describe('Only purge items older than this many days'),
+      trashIds: z.array(z.string().min(1)).optional().describe('Only purge these trash IDs'),
+      dryRun: z.boolean().optional().default(false).describe('List items without purging'),
+    }),
+    execute: async (args, { log }) => {
+      const trashDir = await resolveTrashDirectory();
+      const purged = await purgeTrash(trashDir, { olderThanDays: args.olderThanDays, ids: args.trashIds, dryRun: args.dryRun });
+      log.info(args.dryRun ? 'Trash purge previewed' : 'Trash purged', { count: purged.length });
+
+      if (purged.length === 0) {
+        return 'No trash items matched; nothing was purged.';
+      }
+      const heading = args.dryRun
+        ? `Would purge ${purged.length} item(s) (dry run, nothing deleted):`
+        : `Purged ${purged.length} item(s):`;
+      return [heading, ...purged.map(formatTrashEntry)].join('\n');
     },
   });
 }
@@ -2,8 +2,13 @@
 import { FastMCP, UserError } from "fastmcp";
 import { z } from "zod";
 import { spawn, ChildProcess } from 'child_process';
+import { createWriteStream, WriteStream } from 'fs';
+import { once } from 'events';
 import * as path from "path";
 import { validatePath } from "../utils/security.js";
+import { ANSI_MAX_PENDING_SEQUENCE_LENGTH, completeSequencesLength, renderTerminalOutput } from "../utils/ansi.js";
+import { OUTPUT_BUFFER_DEFAULT_MAX_BYTES, OUTPUT_BUFFER_MAX_MAX_BYTES, OUTPUT_BUFFER_MIN_MAX_BYTES, OutputBuffer, createOutputBuffer } from "../utils/output-buffer.js";
+import { PTY_DEFAULT_COLS, PTY_DEFAULT_ROWS, PTY_MAX_COLS, PTY_MAX_ROWS, PTY_MIN_COLS, PTY_MIN_ROWS, buildPtyLaunch, findPtyDevice, resizePtyDevice } from "../utils/pty.js";
 
 /**
  * CONTRACT: Terminal session state management with encapsulation
@@ -13,11 +18,15 @@ import { validatePath } from "../utils/security.js";
  * - Process lifecycle is properly managed
  * - Output buffering maintains chronological order
  * - Resource cleanup prevents memory leaks
+ * - pty is set for sessions running in a pseudo-terminal; their stderr arrives on stdout
+ * - readCursor marks where the last read_output call stopped
+ * - Output buffers are bounded; when logFile is set it receives all output unabridged
  */
 interface TerminalSession {
   process: ChildProcess;
-  outputBuffer: string;
-  errorBuffer: string;
+  outputBuffer: OutputBuffer;
+  errorBuffer: OutputBuffer;
+  logFile: { path: string; stream: WriteStream } | null;
   fullCommand: string;
   createdAt: Date;
   lastActivity: Date;
@@ -25,6 +34,61 @@ interface TerminalSession {
   workingDirectory: string;
   exitCode: number | null;
   exitSignal: string | null;
+  pty: { cols: number; rows: number; device: string | null } | null;
+  rawOutput: boolean;
+  readCursor: OutputCursor;
+}
+
+/**
+ * CONTRACT: Position in a session's output
+ *
+ * Invariants:
+ * - Offsets count characters written to stdout and stderr since the session started
+ * - Clients see it as the opaque string "<stdout offset>:<stderr offset>"
+ */
+interface OutputCursor {
+  output: number;
+  error: number;
+}
+
+const READ_OUTPUT_MAX_TAIL_LINES = 10000;
+
+/**
+ * CONTRACT: Environment for commands run with clean_env
+ *
+ * Invariants: Only these variables are copied from the server's environment; everything
+ * else (tokens, credentials, tool configuration) must be passed explicitly through env
+ */
+const CLEAN_ENV_VARIABLES = ['PATH', 'HOME', 'USER', 'LOGNAME', 'SHELL', 'LANG', 'LC_ALL', 'TERM', 'TMPDIR', 'TEMP', 'TMP', 'SystemRoot', 'ComSpec', 'PATHEXT'];
+const ENV_MAX_VARIABLES = 100;
+const ENV_NAME_PATTERN = /^[A-Za-z_][A-Za-z0-9_]*$/;
+
+/**
+ * IMMUTABILITY: Build a command's environment from the server's
+ *
+ * Postconditions:
+ * - Starts from all of base, or only CLEAN_ENV_VARIABLES when clean is set
+ * - Overrides are applied last; a null value removes the variable
+ */
+function buildCommandEnvironment(
+  base: NodeJS.ProcessEnv,
+  overrides: Record<string, string | null>,
+  clean: boolean
+): Record<string, string> {
+  const environment: Record<string, string> = {};
+  for (const [name, value] of Object.entries(base)) {
+    if (value !== undefined && (!clean || CLEAN_ENV_VARIABLES.includes(name))) {
+      environment[name] = value;
+    }
+  }
+  for (const [name, value] of Object.entries(overrides)) {
+    if (value === null) {
+      delete environment[name];
+    } else {
+      environment[name] = value;
+    }
+  }
+  return environment;
 }
 
 /**
@@ -75,10 +139,135 @@ function cleanupSession(sessionId: string): void {
     // Process may already be terminated
   }
 
+  session.logFile?.stream.end();
+
   // Remove session from storage
   terminalSessions.delete(sessionId);
 }
 
+/**
+ * CONTRACT: Record output from one of a session's streams
+ *
+ * Postconditions: The text is appended to the stream's ring buffer and to the log file, if any
+ */
+function recordOutput(session: TerminalSession, target: 'output' | 'error', text: string): void {
+  (target === 'output' ? session.outputBuffer : session.errorBuffer).append(text);
+  session.logFile?.stream.write(text);
+}
+
+/**
+ * CONTRACT: Session output as returned to clients
+ *
+ * Postconditions: PTY output is rendered to plain text unless the session asked for raw output
+ */
+function presentOutput(session: TerminalSession, text: string): string {
+  return session.pty && !session.rawOutput ? renderTerminalOutput(text) : text;
+}
+
+/**
+ * CONTRACT: Cursor just past everything a session has written so far
+ *
+ * Postconditions: While a PTY session with rendered output runs, the stdout offset stops before
+ * an escape sequence that is still being written; the next read renders it whole instead of
+ * showing fragments like "[32m"
+ */
+function endOfOutput(session: TerminalSession): OutputCursor {
+  const end = session.outputBuffer.end();
+  if (!session.pty || session.rawOutput || !session.isActive) {
+    return { output: end, error: session.errorBuffer.end() };
+  }
+  const tail = session.outputBuffer.slice(end - ANSI_MAX_PENDING_SEQUENCE_LENGTH);
+  return { output: end - tail.length + completeSequencesLength(tail), error: session.errorBuffer.end() };
+}
+
+/**
+ * IMMUTABILITY: Stdout from an offset up to endOfOutput, as presented to clients
+ */
+function outputSince(session: TerminalSession, from?: number): string {
+  return presentOutput(session, session.outputBuffer.slice(from, endOfOutput(session).output));
+}
+
+/**
+ * IMMUTABILITY: Cursor as returned to clients
+ */
+function formatOutputCursor(cursor: OutputCursor): string {
+  return `${cursor.output}:${cursor.error}`;
+}
+
+/**
+ * DEFENSIVE PROGRAMMING: Parse a cursor handed out by read_output
+ *
+ * Postconditions: Offsets past the end of the output are clamped to the end
+ */
+function parseOutputCursor(cursor: string, session: TerminalSession): OutputCursor {
+  const match = /^(\d+):(\d+)$/.exec(cursor.trim());
+  if (!match) {
+    throw new UserError(`Invalid cursor: ${cursor} (expected "<stdout offset>:<stderr offset>" as returned by read_output, or "0:0" for the start)`);
+  }
+  return {
+    output: Math.min(Number(match[1]), session.outputBuffer.end()),
+    error: Math.min(Number(match[2]), session.errorBuffer.end()),
+  };
+}
+
+/**
+ * IMMUTABILITY: The last count lines of text; a trailing newline does not count as a line
+ */
+function tailLines(text: string, count: number): string {
+  const lines = text.split('\n');
+  const end = lines.length > 0 && lines[lines.length - 1] === '' ? lines.length - 1 : lines.length;
+  return lines.slice(Math.max(0, end - count), end).join('\n');
+}
+
+/**
+ * CONTRACT: Session lookup by PID or session ID fragment
+ *
+ * Postconditions: Returns the first session whose ID contains pid or whose process has that PID
+ */
+function findSession(pid: number): [string, TerminalSession] | undefined {
+  for (const [id, session] of terminalSessions.entries()) {
+    if (id.includes(String(pid)) || session.process.pid === pid) {
+      return [id, session];
+    }
+  }
+  return undefined;
+}
+
+/**
+ * CONTRACT: Wait until a session's output goes quiet
+ *
+ * Postconditions:
+ * - Resolves once no output arrived for settleMs, the process closed, or maxWaitMs passed
+ */
+function waitForOutputToSettle(session: TerminalSession, settleMs: number, maxWaitMs: number): Promise<void> {
+  return new Promise(resolve => {
+    const { process: child } = session;
+    let quietTimer: NodeJS.Timeout;
+    const finish = () => {
+      clearTimeout(quietTimer);
+      clearTimeout(deadline);
+      child.stdout?.off('data', restart);
+      child.stderr?.off('data', restart);
+      child.off('close', finish);
+      resolve();
+    };
+    const restart = () => {
+      clearTimeout(quietTimer);
+      quietTimer = setTimeout(finish, settleMs);
+    };
+    const deadline = setTimeout(finish, maxWaitMs);
+
+    if (!session.isActive) {
+      finish();
+      return;
+    }
+    child.stdout?.on('data', restart);
+    child.stderr?.on('data', restart);
+    child.on('close', finish);
+    restart();
+  });
+}
+
 /**
  * CONTRACT: Clear all terminal sessions (for testing purposes)
  * 
@@ -115,14 +304,23 @@ export function registerTerminalTools(server: FastMCP) {
   // TOOL: execute_command - Command execution with session lifecycle management
   server.addTool({
     name: "execute_command",
-    description: `Execute a terminal command with timeout. Command will continue running in background if it doesn't complete within timeout. NOTE: For file operations, prefer specialized tools like read_file, search_code, list_directory instead of cat, grep, or ls commands. IMPORTANT: Always use absolute paths (starting with '/' or drive letter like 'C:\\') for reliability. Relative paths may fail as they depend on the current working directory. Tilde paths (~/...) might not work in all contexts. Unless the user explicitly asks for relative paths, use absolute paths.`,
+    description: `Execute a terminal command with timeout. Command will continue running in background if it doesn't complete within timeout. Set pty to true to run it in a pseudo-terminal (colors, progress bars, interactive prompts and TUIs behave as in a real terminal); PTY output is rendered to plain text unless raw_output is set, and the window can be changed later with resize_terminal. Use cwd to run in another allowed directory instead of prefixing the command with cd, and env / clean_env to control the environment. NOTE: For file operations, prefer specialized tools like read_file, search_code, list_directory instead of cat, grep, or ls commands. IMPORTANT: Always use absolute paths (starting with '/' or drive letter like 'C:\\') for reliability. Relative paths may fail as they depend on the current working directory. Tilde paths (~/...) might not work in all contexts. Unless the user explicitly asks for relative paths, use absolute paths.`,
     parameters: z.object({
       command: z.string().min(1).describe('The command to execute'),
       shell: z.string().optional().describe('The shell to use for command execution'),
-      timeout_ms: z.number().int().positive().optional().default(30000).describe('Timeout in milliseconds (default: 30000)')
+      timeout_ms: z.number().int().positive().optional().default(30000).describe('Timeout in milliseconds (default: 30000)'),
+      pty: z.boolean().optional().default(false).describe('Run the command in a pseudo-terminal (default: false). stderr is merged into output.'),
+      cols: z.number().int().min(PTY_MIN_COLS).max(PTY_MAX_COLS).optional().default(PTY_DEFAULT_COLS).describe(`Terminal width for pty mode (default: ${PTY_DEFAULT_COLS})`),
+      rows: z.number().int().min(PTY_MIN_ROWS).max(PTY_MAX_ROWS).optional().default(PTY_DEFAULT_ROWS).describe(`Terminal height for pty mode (default: ${PTY_DEFAULT_ROWS})`),
+      raw_output: z.boolean().optional().default(false).describe('Return pty output with ANSI escape sequences intact instead of rendered text (default: false)'),
+      max_output_bytes: z.number().int().min(OUTPUT_BUFFER_MIN_MAX_BYTES).max(OUTPUT_BUFFER_MAX_MAX_BYTES).optional().default(OUTPUT_BUFFER_DEFAULT_MAX_BYTES).describe(`Output kept in memory per stream; older output is dropped beyond this (default: ${OUTPUT_BUFFER_DEFAULT_MAX_BYTES} bytes)`),
+      log_file: z.string().optional().describe('Append the complete stdout and stderr to this file, which must be inside an allowed directory'),
+      cwd: z.string().optional().describe('Working directory for the command; must be inside an allowed directory (default: the first allowed directory)'),
+      env: z.record(z.string(), z.string().nullable()).optional().describe('Environment variables to add or override; a null value unsets the variable'),
+      clean_env: z.boolean().optional().default(false).describe(`Start from a minimal environment (${CLEAN_ENV_VARIABLES.slice(0, 6).join(', ')}, ...) instead of the server's full environment (default: false)`),
     }),
     execute: async (args, { log }) => {
-      const { command, shell, timeout_ms } = args;
+      const { command, shell, timeout_ms, pty = false, cols = PTY_DEFAULT_COLS, rows = PTY_DEFAULT_ROWS, raw_output = false, max_output_bytes = OUTPUT_BUFFER_DEFAULT_MAX_BYTES, log_file, cwd, env = {}, clean_env = false } = args;
 
       // DEFENSIVE PROGRAMMING: Input validation
       if (typeof command !== 'string' || command.trim().length === 0) {
@@ -151,29 +349,75 @@ export function registerTerminalTools(server: FastMCP) {
         throw new UserError('Command contains potentially dangerous operations that are not allowed');
       }
 
+      // CONTRACT: Environment variable names must be portable and values free of null characters
+      const envEntries = Object.entries(env);
+      if (envEntries.length > ENV_MAX_VARIABLES) {
+        throw new UserError(`Too many environment variables (maximum ${ENV_MAX_VARIABLES})`);
+      }
+      for (const [name, value] of envEntries) {
+        if (!ENV_NAME_PATTERN.test(name)) {
+          throw new UserError(`Invalid environment variable name: ${name}`);
+        }
+        if (value !== null && value.includes('\0')) {
+          throw new UserError(`Environment variable ${name} cannot contain null characters`);
+        }
+      }
+
       // Determine shell and working directory
       const currentShell = shell || (process.platform === 'win32' ? 'cmd' : '/bin/bash');
-      const { allowedDirectories } = await import("../utils/security.js");
-      const workingDirectory = allowedDirectories[0] || process.cwd();
+      let workingDirectory: string;
+      if (cwd !== undefined) {
+        // SECURITY BOUNDARY: The working directory must be inside an allowed directory
+        workingDirectory = await validatePath(cwd);
+        const fs = await import('fs/promises');
+        const stats = await fs.stat(workingDirectory).catch(() => null);
+        if (!stats) {
+          throw new UserError(`Working directory does not exist: ${workingDirectory}`);
+        }
+        if (!stats.isDirectory()) {
+          throw new UserError(`Working directory is not a directory: ${workingDirectory}`);
+        }
+      } else {
+        const { allowedDirectories } = await import("../utils/security.js");
+        workingDirectory = allowedDirectories[0] || process.cwd();
+      }
 
       log.info('Executing command', { 
         command: command.substring(0, 100) + (command.length > 100 ? '...' : ''),
         shell: currentShell,
         timeout: timeout_ms,
-        workingDirectory
+        workingDirectory,
+        pty,
+        envOverrides: envEntries.map(([name]) => name),
+        cleanEnv: clean_env
       });
 
+      // SECURITY BOUNDARY: The log file must be inside an allowed directory
+      let logFile: TerminalSession['logFile'] = null;
+      if (log_file !== undefined) {
+        const logPath = await validatePath(log_file);
+        const stream = createWriteStream(logPath, { flags: 'a' });
+        try {
+          await once(stream, 'open');
+        } catch (error: any) {
+          throw new UserError(`Cannot open log file ${logPath}: ${error.message}`);
+        }
+        logFile = { path: logPath, stream };
+      }
+
       // Generate unique session ID
       const sessionId = generateSessionId();
 
       try {
         // DEFENSIVE PROGRAMMING: Create child process with proper configuration
-        const childProcess = spawn(currentShell, 
-          process.platform === 'win32' ? ['/c', command] : ['-c', command], 
+        const ptyLaunch = pty ? buildPtyLaunch(currentShell, command, cols, rows) : null;
+        const childProcess = spawn(
+          ptyLaunch ? ptyLaunch.file : currentShell,
+          ptyLaunch ? ptyLaunch.args : process.platform === 'win32' ? ['/c', command] : ['-c', command],
           {
             cwd: workingDirectory,
             stdio: ['pipe', 'pipe', 'pipe'],
-            env: { ...process.env },
+            env: buildCommandEnvironment(process.env, { ...ptyLaunch?.env, ...env }, clean_env),
             detached: false,
           }
         );
@@ -181,8 +425,9 @@ export function registerTerminalTools(server: FastMCP) {
         // CONTRACT: Initialize session state
         const session: TerminalSession = {
           process: childProcess,
-          outputBuffer: '',
-          errorBuffer: '',
+          outputBuffer: createOutputBuffer(max_output_bytes),
+          errorBuffer: createOutputBuffer(max_output_bytes),
+          logFile,
           fullCommand: command,
           createdAt: new Date(),
           lastActivity: new Date(),
@@ -190,15 +435,24 @@ export function registerTerminalTools(server: FastMCP) {
           workingDirectory,
           exitCode: null,
           exitSignal: null,
+          pty: pty ? { cols, rows, device: null } : null,
+          rawOutput: raw_output,
+          readCursor: { output: 0, error: 0 },
         };
 
         terminalSessions.set(sessionId, session);
 
+        // A failing log only stops spilling; the in-memory output is unaffected
+        logFile?.stream.on('error', (error) => {
+          session.logFile = null;
+          recordOutput(session, 'error', `Log file error: ${error.message}\n`);
+        });
+
         // IMMUTABILITY: Set up event handlers with proper state management
         childProcess.stdout?.on('data', (data) => {
           const session = terminalSessions.get(sessionId);
           if (session) {
-            session.outputBuffer += data ? data.toString() : '';
+            recordOutput(session, 'output', data ? data.toString() : '');
             session.lastActivity = new Date();
           }
         });
@@ -206,11 +460,14 @@ export function registerTerminalTools(server: FastMCP) {
         childProcess.stderr?.on('data', (data) => {
           const session = terminalSessions.get(sessionId);
           if (session) {
-            session.errorBuffer += data ? data.toString() : '';
+            recordOutput(session, 'error', data ? data.toString() : '');
             session.lastActivity = new Date();
           }
         });
 
+        // Writes after the process exits fail with EPIPE; write_input reports those itself
+        childProcess.stdin?.on('error', () => {});
+
         childProcess.on('close', (code, signal) => {
           const session = terminalSessions.get(sessionId);
           if (session) {
@@ -218,13 +475,14 @@ export function registerTerminalTools(server: FastMCP) {
             session.exitCode = code;
             session.exitSignal = signal;
             session.lastActivity = new Date();
+            session.logFile?.stream.end();
           }
         });
 
         childProcess.on('error', (error) => {
           const session = terminalSessions.get(sessionId);
           if (session) {
-            session.errorBuffer += `Process error: ${error.message}\n`;
+            recordOutput(session, 'error', `Process error: ${error.message}\n`);
             session.isActive = false;
             session.lastActivity = new Date();
           }
@@ -235,8 +493,9 @@ export function registerTerminalTools(server: FastMCP) {
           new Promise<{completed: boolean, output: string, error: string}>((resolve) => {
             childProcess.on('close', (code, signal) => {
               const session = terminalSessions.get(sessionId);
-              const output = session?.outputBuffer || '';
-              const error = session?.errorBuffer || '';
+              const output = session ? outputSince(session) : '';
+              const error = session?.errorBuffer.slice() || '';
+              if (session) session.readCursor = endOfOutput(session);
               resolve({ 
                 completed: true, 
                 output: output.trim(), 
@@ -247,8 +506,9 @@ export function registerTerminalTools(server: FastMCP) {
           new Promise<{completed: boolean, output: string, error: string}>((resolve) => {
             setTimeout(() => {
               const session = terminalSessions.get(sessionId);
-              const output = session?.outputBuffer || '';
-              const error = session?.errorBuffer || '';
+              const output = session ? outputSince(session) : '';
+              const error = session?.errorBuffer.slice() || '';
+              if (session) session.readCursor = endOfOutput(session);
               resolve({ 
                 completed: false, 
                 output: output.trim(), 
@@ -269,12 +529,20 @@ export function registerTerminalTools(server: FastMCP) {
           workingDirectory,
           shell: currentShell,
         };
+        if (pty) {
+          response.pty = { cols, rows };
+        }
+        if (logFile) {
+          response.logFile = logFile.path;
+        }
 
         if (result.completed) {
           const session = terminalSessions.get(sessionId);
           if (session) {
             response.exitCode = session.exitCode;
             response.exitSignal = session.exitSignal;
+            // The session is cleaned up shortly, so this is the only place truncation is reported
+            response.droppedBytes = { stdout: session.outputBuffer.droppedBytes(), stderr: session.errorBuffer.droppedBytes() };
           }
           
           log.info('Command completed', {
@@ -287,6 +555,11 @@ export function registerTerminalTools(server: FastMCP) {
           // Clean up completed session after a delay
           setTimeout(() => cleanupSession(sessionId), 5000);
         } else {
+          const session = terminalSessions.get(sessionId);
+          if (session) {
+            response.cursor = formatOutputCursor(session.readCursor);
+          }
+
           log.info('Command timed out, running in background', {
             sessionId,
             outputLength: result.output.length,
@@ -297,11 +570,17 @@ export function registerTerminalTools(server: FastMCP) {
         return JSON.stringify(response, null, 2);
 
       } catch (error: any) {
-        // Clean up session on error
+        // Clean up session on error; a session that was never registered still owns the log file
+        if (!terminalSessions.has(sessionId)) {
+          logFile?.stream.end();
+        }
         cleanupSession(sessionId);
         
+        if (error instanceof UserError) {
+          throw error;
+        }
         if (error.code === 'ENOENT') {
-          throw new UserError(`Shell not found: ${currentShell}`);
+          throw new UserError(pty ? 'PTY mode needs the `script` utility, which was not found' : `Shell not found: ${currentShell}`);
         }
         if (error.code === 'EACCES') {
           throw new UserError('Permission denied executing command');
@@ -316,16 +595,18 @@ export function registerTerminalTools(server: FastMCP) {
   // TOOL: read_output - Session output streaming with buffer management and search functionality
   server.addTool({
     name: "read_output",
-    description: `Read new output from a running terminal session. Can optionally search the output for a text or regex pattern.`,
+    description: `Read new output from a running terminal session. Each call returns only the output produced since the previous call, with a cursor to resume from; pass since to read from a specific cursor or tail to get the last lines. Can optionally search the output for a text or regex pattern.`,
     parameters: z.object({
       pid: z.number().int().positive().describe('The session ID (process ID) to read output from'),
+      since: z.string().optional().describe('Cursor returned by a previous read_output call; output after it is returned. Use "0:0" to read from the start. Defaults to where the last read stopped.'),
+      tail: z.number().int().min(1).max(READ_OUTPUT_MAX_TAIL_LINES).optional().describe('Return only the last N lines of stdout and of stderr. Without since, the lines are taken from the whole output.'),
       search_pattern: z.string().optional().describe('A text or regex pattern to search for in the output. If provided, the output will be filtered to only show matching lines.'),
       is_regex: z.boolean().optional().default(false).describe('Set to true if search_pattern is a regular expression. Defaults to false.'),
       case_sensitive: z.boolean().optional().default(false).describe('Set to true for a case-sensitive search. Defaults to false.'),
       search_target: z.enum(['stdout', 'stderr', 'both']).optional().default('both').describe("Specifies which output stream to search: 'stdout', 'stderr', or 'both'. Defaults to 'both'.")
     }),
     execute: async (args, { log }) => {
-      const { pid, search_pattern, is_regex, case_sensitive, search_target } = args;
+      const { pid, since, tail, search_pattern, is_regex, case_sensitive, search_target } = args;
 
       // DEFENSIVE PROGRAMMING: Parameter validation with contracts
       // CONTRACT: PID must be positive integer
@@ -347,34 +628,47 @@ export function registerTerminalTools(server: FastMCP) {
       }
 
       // DEFENSIVE PROGRAMMING: Find session by partial ID match (since we generate our own session IDs)
-      let matchingSession: TerminalSession | undefined;
-      let matchingSessionId: string | undefined;
-      
-      for (const [id, session] of terminalSessions.entries()) {
-        if (id.includes(String(pid)) || session.process.pid === pid) {
-          matchingSession = session;
-          matchingSessionId = id;
-          break;
-        }
-      }
-
-      if (!matchingSession || !matchingSessionId) {
+      const found = findSession(pid);
+      if (!found) {
         throw new UserError(`No active terminal session found with ID containing: ${pid}`);
       }
+      const [matchingSessionId, matchingSession] = found;
 
       try {
         const currentTime = new Date();
         matchingSession.lastActivity = currentTime; // Update last activity time
 
-        // IMMUTABILITY: Build search result without modifying session state
+        // IMMUTABILITY: Searches never move the read cursor
         if (!search_pattern) {
-          // **Behavior without search pattern (current functionality)**
-          log.info('Reading full session output', { sessionId: matchingSessionId });
+          // **Behavior without search pattern: incremental reads from a cursor**
+          const requested = since !== undefined
+            ? parseOutputCursor(since, matchingSession)
+            : tail !== undefined ? { output: 0, error: 0 } : matchingSession.readCursor;
+          // Output older than the ring buffers hold is gone; reading resumes at the oldest kept
+          const start = {
+            output: Math.max(requested.output, matchingSession.outputBuffer.start()),
+            error: Math.max(requested.error, matchingSession.errorBuffer.start()),
+          };
+          const end = endOfOutput(matchingSession);
+          matchingSession.readCursor = end;
+
+          let output = presentOutput(matchingSession, matchingSession.outputBuffer.slice(start.output, end.output));
+          let error = matchingSession.errorBuffer.slice(start.error);
+          if (tail !== undefined) {
+            output = tailLines(output, tail);
+            error = tailLines(error, tail);
+          }
+
+          log.info('Reading session output', { sessionId: matchingSessionId, since: formatOutputCursor(start), tail });
           const response = {
             sessionId: matchingSessionId,
             pid: matchingSession.process.pid,
-            output: matchingSession.outputBuffer.trim(),
-            error: matchingSession.errorBuffer.trim(),
+            output: output.trim(),
+            error: error.trim(),
+            since: formatOutputCursor(start),
+            cursor: formatOutputCursor(end),
+            droppedBytes: { stdout: matchingSession.outputBuffer.droppedBytes(), stderr: matchingSession.errorBuffer.droppedBytes() },
+            logFile: matchingSession.logFile?.path ?? null,
             isActive: matchingSession.isActive,
             lastActivity: matchingSession.lastActivity.toISOString(),
             exitCode: matchingSession.exitCode,
@@ -404,8 +698,8 @@ export function registerTerminalTools(server: FastMCP) {
 
           const contentToSearch = determineSearchContent(
             search_target, 
-            matchingSession.outputBuffer, 
-            matchingSession.errorBuffer
+            outputSince(matchingSession), 
+            matchingSession.errorBuffer.slice()
           );
 
           // DEFENSIVE PROGRAMMING: Safe regex creation with error handling
@@ -483,6 +777,148 @@ export function registerTerminalTools(server: FastMCP) {
     },
   });
 
+  // TOOL: write_input - Interactive stdin for running sessions
+  server.addTool({
+    name: "write_input",
+    description: `Send input to a running terminal session started with execute_command, e.g. to answer a prompt or drive a REPL. Writes text (optionally followed by a newline), then an optional control key: ctrl_c interrupts (SIGINT), ctrl_d signals end of input. In pty sessions these are sent as keystrokes (Enter as \\r, ^C, ^D) to the terminal; otherwise ctrl_c signals the session's process and ctrl_d closes its stdin. Returns the stdout/stderr produced after the input until the output has been quiet for settle_ms.`,
+    parameters: z.object({
+      pid: z.number().int().positive().describe('The session ID (process ID) to send input to'),
+      input: z.string().max(65536).optional().default('').describe('Text to write to stdin'),
+      newline: z.boolean().optional().default(true).describe('Append a newline after input, like pressing Enter (default: true). Not added when only a control key is sent.'),
+      control: z.enum(['ctrl_c', 'ctrl_d']).optional().describe('Control key to send after the text'),
+      settle_ms: z.number().int().min(0).max(10000).optional().default(500).describe('Return once the output has been quiet this long (default: 500)'),
+      max_wait_ms: z.number().int().min(0).max(60000).optional().default(10000).describe('Upper bound on waiting for output (default: 10000)'),
+    }),
+    execute: async (args, { log }) => {
+      const { pid, input = '', newline = true, control, settle_ms = 500, max_wait_ms = 10000 } = args;
+
+      // An empty input with a newline presses Enter (e.g. to accept a prompt's default)
+      const pressEnter = newline && (input.length > 0 || !control);
+
+      // DEFENSIVE PROGRAMMING: Input validation
+      if (input.length === 0 && !pressEnter && !control) {
+        throw new UserError('Nothing to send: provide input, a newline or a control key');
+      }
+
+      const found = findSession(pid);
+      if (!found) {
+        throw new UserError(`No active terminal session found with ID containing: ${pid}`);
+      }
+      const [sessionId, session] = found;
+
+      const stdin = session.process.stdin;
+      if (!session.isActive) {
+        throw new UserError(`Session ${sessionId} has exited (exit code ${session.exitCode ?? 'unknown'}); input cannot be written`);
+      }
+      if (!stdin || stdin.writableEnded || stdin.destroyed) {
+        throw new UserError(`Session ${sessionId} no longer accepts input (stdin is closed)`);
+      }
+
+      // IMMUTABILITY: Remember buffer positions so only output caused by this input is returned
+      const outputStart = endOfOutput(session).output;
+      const errorStart = session.errorBuffer.end();
+
+      // A terminal turns Enter into \r and ^C / ^D into SIGINT / end of input itself
+      const enter = session.pty ? '\r' : '\n';
+      const controlKey = session.pty && control ? (control === 'ctrl_c' ? '\x03' : '\x04') : '';
+      const data = input + (pressEnter ? enter : '') + controlKey;
+
+      try {
+        if (data.length > 0) {
+          await new Promise<void>((resolve, reject) => {
+            stdin.write(data, error => error ? reject(error) : resolve());
+          });
+        }
+        // Pipes have no terminal to turn ^C into a signal or ^D into end of input
+        if (!session.pty && control === 'ctrl_c') {
+          session.process.kill('SIGINT');
+        } else if (!session.pty && control === 'ctrl_d') {
+          stdin.end();
+        }
+      } catch (error: any) {
+        const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+        throw new UserError(`Failed to write input: ${errorMessage}`);
+      }
+
+      session.lastActivity = new Date();
+      log.info('Input written to session', { sessionId, bytes: Buffer.byteLength(data), control });
+
+      await waitForOutputToSettle(session, settle_ms, Math.max(max_wait_ms, settle_ms));
+
+      const response = {
+        sessionId,
+        pid: session.process.pid,
+        bytesWritten: Buffer.byteLength(data),
+        control: control ?? null,
+        output: outputSince(session, outputStart),
+        error: session.errorBuffer.slice(errorStart),
+        isActive: session.isActive,
+        exitCode: session.exitCode,
+        exitSignal: session.exitSignal,
+        timestamp: new Date().toISOString(),
+      };
+
+      return JSON.stringify(response, null, 2);
+    },
+  });
+
+  // TOOL: resize_terminal - Change the window size of a PTY session
+  server.addTool({
+    name: "resize_terminal",
+    description: `Change the terminal size of a session started with execute_command and pty: true. Full-screen programs receive SIGWINCH and redraw for the new size.`,
+    parameters: z.object({
+      pid: z.number().int().positive().describe('The session ID (process ID) to resize'),
+      cols: z.number().int().min(PTY_MIN_COLS).max(PTY_MAX_COLS).describe('New terminal width in columns'),
+      rows: z.number().int().min(PTY_MIN_ROWS).max(PTY_MAX_ROWS).describe('New terminal height in rows'),
+    }),
+    execute: async (args, { log }) => {
+      const { pid, cols, rows } = args;
+
+      const found = findSession(pid);
+      if (!found) {
+        throw new UserError(`No active terminal session found with ID containing: ${pid}`);
+      }
+      const [sessionId, session] = found;
+
+      if (!session.pty) {
+        throw new UserError(`Session ${sessionId} is not running in a pseudo-terminal; start it with pty: true`);
+      }
+      if (!session.isActive || session.process.pid === undefined) {
+        throw new UserError(`Session ${sessionId} has exited and cannot be resized`);
+      }
+
+      try {
+        // The device is only known once the terminal's shell has started; look it up lazily
+        session.pty.device ??= await findPtyDevice(session.process.pid);
+        if (!session.pty.device) {
+          throw new UserError(`Could not locate the terminal device of session ${sessionId}`);
+        }
+        await resizePtyDevice(session.pty.device, cols, rows);
+      } catch (error: any) {
+        if (error instanceof UserError) {
+          throw error;
+        }
+        const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+        throw new UserError(`Failed to resize terminal: ${errorMessage}`);
+      }
+
+      const previous = { cols: session.pty.cols, rows: session.pty.rows };
+      session.pty.cols = cols;
+      session.pty.rows = rows;
+      session.lastActivity = new Date();
+      log.info('Terminal resized', { sessionId, cols, rows });
+
+      return JSON.stringify({
+        sessionId,
+        pid: session.process.pid,
+        previous,
+        cols,
+        rows,
+        timestamp: new Date().toISOString(),
+      }, null, 2);
+    },
+  });
+
   // TOOL: list_sessions - Active session enumeration with state tracking
   server.addTool({
     name: "list_sessions",
@@ -511,8 +947,11 @@ export function registerTerminalTools(server: FastMCP) {
             timeSinceActivityMs: timeSinceActivity,
             exitCode: session.exitCode,
             exitSignal: session.exitSignal,
-            outputBufferSize: session.outputBuffer.length,
-            errorBufferSize: session.errorBuffer.length,
+            pty: session.pty ? { cols: session.pty.cols, rows: session.pty.rows } : null,
+            outputBufferSize: session.outputBuffer.retainedBytes(),
+            errorBufferSize: session.errorBuffer.retainedBytes(),
+            droppedBytes: { stdout: session.outputBuffer.droppedBytes(), stderr: session.errorBuffer.droppedBytes() },
+            logFile: session.logFile?.path ?? null,
           };
         });
 
@@ -566,20 +1005,11 @@ export function registerTerminalTools(server: FastMCP) {
       const { pid } = args;
 
       // DEFENSIVE PROGRAMMING: Find session by PID or session ID
-      let matchingSession: TerminalSession | undefined;
-      let matchingSessionId: string | undefined;
-      
-      for (const [id, session] of terminalSessions.entries()) {
-        if (id.includes(String(pid)) || session.process.pid === pid) {
-          matchingSession = session;
-          matchingSessionId = id;
-          break;
-        }
-      }
-
-      if (!matchingSession || !matchingSessionId) {
+      const found = findSession(pid);
+      if (!found) {
         throw new UserError(`No terminal session found with ID containing: ${pid}`);
       }
+      const [matchingSessionId, matchingSession] = found;
 
       try {
         const processId = matchingSession.process.pid;
@@ -0,0 +1,130 @@
+// src/utils/ansi.ts
+
+/**
+ * CONTRACT: Escape sequences emitted by terminal programs
+ *
+ * Covers CSI (`ESC [ ... final`, also the 8-bit 0x9b form), OSC (`ESC ] ... BEL|ST`),
+ * DCS/SOS/PM/APC strings and two-byte escapes.
+ */
+const ANSI_SEQUENCE = /\x1b\[[0-?]*[ -/]*[@-~]|\x9b[0-?]*[ -/]*[@-~]|\x1b\][^\x07\x1b]*(?:\x07|\x1b\\)?|\x1b[PX^_][^\x1b]*(?:\x1b\\)?|\x1b[ -/]*[0-~]/y;
+
+/**
+ * CONTRACT: Escape sequences that are complete, terminators included
+ *
+ * Invariants:
+ * - A two-byte escape never ends in a byte that introduces a longer sequence ('[', ']', 'P', 'X', '^', '_')
+ */
+const COMPLETE_ANSI_SEQUENCE = /\x1b\[[0-?]*[ -/]*[@-~]|\x9b[0-?]*[ -/]*[@-~]|\x1b\][^\x07\x1b]*(?:\x07|\x1b\\)|\x1b[PX^_][^\x1b]*\x1b\\|\x1b[ -/]*[0-OQ-WYZ\\`-~]/y;
+
+/**
+ * CONTRACT: Longest unfinished escape sequence that is held back from a read
+ */
+export const ANSI_MAX_PENDING_SEQUENCE_LENGTH = 256;
+
+/**
+ * IMMUTABILITY: Length of text without an unfinished escape sequence at its end
+ *
+ * Postconditions:
+ * - Returns text.length unless the last ESC / 0x9b starts a sequence that is not complete yet,
+ *   in which case it returns the index of that ESC
+ * - A pending sequence longer than ANSI_MAX_PENDING_SEQUENCE_LENGTH counts as complete, so stray
+ *   escape bytes cannot hold output back forever
+ */
+export function completeSequencesLength(text: string): number {
+  const last = Math.max(text.lastIndexOf('\x1b'), text.lastIndexOf('\x9b'));
+  if (last === -1 || text.length - last > ANSI_MAX_PENDING_SEQUENCE_LENGTH) {
+    return text.length;
+  }
+  COMPLETE_ANSI_SEQUENCE.lastIndex = last;
+  return COMPLETE_ANSI_SEQUENCE.test(text) ? text.length : last;
+}
+
+/**
+ * IMMUTABILITY: Remove every escape sequence, keeping all other characters
+ */
+export function stripAnsi(text: string): string {
+  let result = '';
+  let index = 0;
+  while (index < text.length) {
+    const char = text[index];
+    if (char === '\x1b' || char === '\x9b') {
+      ANSI_SEQUENCE.lastIndex = index;
+      const match = ANSI_SEQUENCE.exec(text);
+      if (match) {
+        index += match[0].length;
+        continue;
+      }
+    }
+    result += char;
+    index++;
+  }
+  return result;
+}
+
+/**
+ * IMMUTABILITY: Render terminal output as the plain text a screen would show, line by line
+ *
+ * Postconditions:
+ * - Escape sequences are removed; erase-in-line (`ESC [ K`) and column moves (`ESC [ G`)
+ *   are applied, so redrawn progress bars collapse to their final state
+ * - `\r` returns to the start of the line and `\b` moves back one column; later text
+ *   overwrites earlier text as on a terminal
+ * - `\r\n` and `\n` end lines; other control characters (bell, shift codes) are dropped
+ *
+ * Invariants:
+ * - Cursor movement between lines and screen clears are ignored; full-screen TUIs are
+ *   rendered as the sequence of lines they wrote
+ */
+export function renderTerminalOutput(text: string): string {
+  const lines: string[] = [];
+  let line: string[] = [];
+  let cursor = 0;
+
+  const put = (char: string): void => {
+    while (line.length < cursor) line.push(' ');
+    line[cursor++] = char;
+  };
+
+  let index = 0;
+  while (index < text.length) {
+    const char = text[index];
+
+    if (char === '\x1b' || char === '\x9b') {
+      ANSI_SEQUENCE.lastIndex = index;
+      const match = ANSI_SEQUENCE.exec(text);
+      if (match) {
+        const csi = /^(?:\x1b\[|\x9b)([0-9;]*)([GK])$/.exec(match[0]);
+        if (csi) {
+          const parameter = parseInt(csi[1] || '0', 10);
+          if (csi[2] === 'G') {
+            cursor = Math.max(0, (parameter || 1) - 1);
+          } else if (parameter === 0) {
+            line.length = Math.min(line.length, cursor);
+          } else if (parameter === 1) {
+            for (let column = 0; column <= cursor && column < line.length; column++) line[column] = ' ';
+          } else if (parameter === 2) {
+            line = [];
+          }
+        }
+        index += match[0].length;
+        continue;
+      }
+    }
+
+    if (char === '\n') {
+      lines.push(line.join(''));
+      line = [];
+      cursor = 0;
+    } else if (char === '\r') {
+      cursor = 0;
+    } else if (char === '\b') {
+      cursor = Math.max(0, cursor - 1);
+    } else if (char === '\t' || (char >= ' ' && char !== '\x7f')) {
+      put(char);
+    }
+    index++;
+  }
+
+  if (line.length > 0) lines.push(line.join(''));
+  return lines.join('\n');
+}
@@ -0,0 +1,214 @@
+// src/utils/atomic-write.ts
+import * as fs from "fs/promises";
+import * as path from "path";
+import { createReadStream } from "fs";
+import { createHash, randomBytes } from "crypto";
+
+/**
+ * CONTRACT: Sibling temp file naming for atomic replacement
+ *
+ * Postconditions:
+ * - Returns a hidden path in the same directory as filePath, so the final rename
+ *   never crosses a filesystem boundary
+ *
+ * Invariants:
+ * - Names are unique per call (pid + random suffix)
+ */
+function createTempPath(filePath: string): string {
+  const dir = path.dirname(filePath);
+  const base = path.basename(filePath);
+  return path.join(dir, `.${base}.${process.pid}.${randomBytes(6).toString('hex')}.tmp`);
+}
+
+/**
+ * CONTRACT: Best-effort directory fsync so the rename itself is durable
+ *
+ * Invariants:
+ * - Never throws; some platforms (Windows) cannot open or sync directories
+ */
+async function syncDirectory(dir: string): Promise<void> {
+  let handle: fs.FileHandle | undefined;
+  try {
+    handle = await fs.open(dir, 'r');
+    await handle.sync();
+  } catch {
+    // Directory fsync is not supported everywhere; the data itself is already synced
+  } finally {
+    await handle?.close().catch(() => undefined);
+  }
+}
+
+/**
+ * CONTRACT: Copy mode and ownership of the file being replaced onto the temp file
+ *
+ * Invariants:
+ * - Ownership is best-effort: chown fails without privileges when the owner differs,
+ *   in which case the temp file keeps the current process's owner
+ */
+async function applyOriginalAttributes(handle: fs.FileHandle, original: { mode: number; uid: number; gid: number }): Promise<void> {
+  await handle.chmod(original.mode & 0o7777);
+  try {
+    await handle.chown(original.uid, original.gid);
+  } catch (error: any) {
+    if (error.code !== 'EPERM' && error.code !== 'EINVAL' && error.code !== 'ENOSYS') {
+      throw error;
+    }
+  }
+}
+
+/**
+ * CONTRACT: Stat of the target if it exists
+ */
+async function statIfExists(filePath: string) {
+  try {
+    return await fs.stat(filePath);
+  } catch (error: any) {
+    if (error.code === 'ENOENT') {
+      return null;
+    }
+    throw error;
+  }
+}
+
+/**
+ * CONTRACT: Atomic file replacement via temp file, fsync and rename
+ *
+ * Preconditions:
+ * - filePath must already be validated against the allowed directories
+ * - The parent directory must exist
+ *
+ * Postconditions:
+ * - filePath contains exactly `data`, or is left untouched if any step fails
+ * - An existing file's mode (and ownership, where permitted) is preserved
+ * - The temp file never outlives the call
+ *
+ * Invariants:
+ * - Readers observe either the old content or the new content, never a partial write
+ * - The temp file lives in the same directory, so rename is atomic on POSIX filesystems
+ */
+export async function writeFileAtomic(filePath: string, data: string | Buffer, encoding: BufferEncoding = 'utf-8'): Promise<void> {
+  const original = await statIfExists(filePath);
+  const tempPath = createTempPath(filePath);
+  let handle: fs.FileHandle | undefined;
+
+  try {
+    handle = await fs.open(tempPath, 'wx', original ? original.mode & 0o7777 : 0o666);
+    await handle.writeFile(data, typeof data === 'string' ? { encoding } : undefined);
+    if (original) {
+      await applyOriginalAttributes(handle, original);
+    }
+    await handle.sync();
+    await handle.close();
+    handle = undefined;
+
+    await fs.rename(tempPath, filePath);
+    await syncDirectory(path.dirname(filePath));
+  } catch (error) {
+    await handle?.close().catch(() => undefined);
+    await fs.unlink(tempPath).catch(() => undefined);
+    throw error;
+  }
+}
+
+/**
+ * CONTRACT: Atomic append via copy of the current content into a temp file
+ *
+ * Preconditions:
+ * - filePath must already be validated against the allowed directories
+ *
+ * Postconditions:
+ * - filePath contains its previous content followed by `data`, or is left untouched on failure
+ * - Creates the file when it does not exist
+ *
+ * Invariants:
+ * - Same atomicity and attribute preservation guarantees as writeFileAtomic
+ */
+export async function appendFileAtomic(filePath: string, data: string | Buffer, encoding: BufferEncoding = 'utf-8'): Promise<void> {
+  const original = await statIfExists(filePath);
+  if (!original) {
+    return writeFileAtomic(filePath, data, encoding);
+  }
+
+  const tempPath = createTempPath(filePath);
+  let handle: fs.FileHandle | undefined;
+
+  try {
+    await fs.copyFile(filePath, tempPath, fs.constants.COPYFILE_EXCL);
+    handle = await fs.open(tempPath, 'a');
+    await handle.appendFile(data, typeof data === 'string' ? { encoding } : undefined);
+    await applyOriginalAttributes(handle, original);
+    await handle.sync();
+    await handle.close();
+    handle = undefined;
+
+    await fs.rename(tempPath, filePath);
+    await syncDirectory(path.dirname(filePath));
+  } catch (error) {
+    await handle?.close().catch(() => undefined);
+    await fs.unlink(tempPath).catch(() => undefined);
+    throw error;
+  }
+}
+
+/**
+ * CONTRACT: Streaming sha256 of a file's content
+ */
+async function hashFile(filePath: string): Promise<string> {
+  const hash = createHash('sha256');
+  for await (const chunk of createReadStream(filePath)) {
+    hash.update(chunk);
+  }
+  return hash.digest('hex');
+}
+
+/**
+ * CONTRACT: Copy-verify-delete move for renames that cross filesystems (EXDEV)
+ *
+ * Preconditions:
+ * - Both paths must already be validated against the allowed directories
+ * - destination must not exist and its parent directory must exist
+ *
+ * Postconditions:
+ * - destination has the source's bytes, mode, access and modification times (ownership where permitted)
+ * - The source is unlinked only after the copy's size and sha256 match the source
+ * - If copying or verification fails, destination is not created and the source is untouched
+ *
+ * Invariants:
+ * - The copy is written to a temp file next to destination and renamed into place, so
+ *   readers never observe a partial file at destination
+ */
+export async function moveFileAcrossDevices(source: string, destination: string): Promise<void> {
+  const sourceStats = await fs.stat(source);
+  const tempPath = createTempPath(destination);
+  let handle: fs.FileHandle | undefined;
+
+  try {
+    await fs.copyFile(source, tempPath, fs.constants.COPYFILE_EXCL);
+    handle = await fs.open(tempPath, 'r+');
+    await applyOriginalAttributes(handle, sourceStats);
+    await handle.sync();
+    await handle.close();
+    handle = undefined;
+    await fs.utimes(tempPath, sourceStats.atime, sourceStats.mtime);
+
+    // Verify before anything irreversible happens
+    const copyStats = await fs.stat(tempPath);
+    const [sourceHash, copyHash] = await Promise.all([hashFile(source), hashFile(tempPath)]);
+    if (copyStats.size !== sourceStats.size || copyHash !== sourceHash) {
+      throw new Error(`Copy verification failed (size ${copyStats.size}/${sourceStats.size}, sha256 ${copyHash === sourceHash ? 'matches' : 'differs'}); source left in place`);
+    }
+
+    await fs.rename(tempPath, destination);
+    await syncDirectory(path.dirname(destination));
+  } catch (error) {
+    await handle?.close().catch(() => undefined);
+    await fs.unlink(tempPath).catch(() => undefined);
+    throw error;
+  }
+
+  try {
+    await fs.unlink(source);
+  } catch (error: any) {
+    throw new Error(`Copied and verified ${destination}, but could not remove the source: ${error.message}`);
+  }
+}
@@ -0,0 +1,366 @@
+// src/utils/change-journal.ts
+import * as fs from "fs/promises";
+import * as path from "path";
+import { randomBytes } from "crypto";
+import { UserError } from "fastmcp";
+import { writeFileAtomic } from "./atomic-write.js";
+import { sha256Hex } from "./file-version.js";
+
+/**
+ * CONTRACT: Journal retention limits
+ *
+ * Invariants:
+ * - Files larger than JOURNAL_MAX_FILE_BYTES are recorded without content and cannot be restored
+ * - Oldest changes are evicted first once any limit is exceeded
+ */
+const JOURNAL_MAX_FILE_BYTES = 5 * 1024 * 1024; // 5MB per file snapshot
+const JOURNAL_MAX_TOTAL_BYTES = 100 * 1024 * 1024; // 100MB across all snapshots
+const JOURNAL_MAX_CHANGES = 500;
+const JOURNAL_MAX_AGE_MS = 24 * 60 * 60 * 1000; // 24 hours
+
+/**
+ * CONTRACT: Tool name under which restores are journaled
+ */
+const RESTORE_TOOL = 'restore_change';
+
+/**
+ * CONTRACT: State of one file captured before a mutation
+ *
+ * Invariants:
+ * - content (and its sha256) is null when the file did not exist or was too large to keep
+ * - restorable is false only for oversized files
+ */
+export interface FileSnapshot {
+  path: string;
+  existed: boolean;
+  content: Buffer | null;
+  sha256: string | null;
+  mode: number | null;
+  size: number;
+  restorable: boolean;
+}
+
+/**
+ * CONTRACT: One journaled tool invocation, possibly touching many files
+ *
+ * Invariants:
+ * - afterHashes[i] is the sha256 of files[i] right after the change (null if it no longer existed)
+ * - A change is undone at most once; restoring records a new change so it can itself be undone
+ * - revertedChangeId is set only on restore records and names the change they reverted
+ */
+export interface ChangeRecord {
+  id: string;
+  tool: string;
+  description: string;
+  createdAt: Date;
+  files: FileSnapshot[];
+  afterHashes: Array<string | null>;
+  bytes: number;
+  undone: boolean;
+  revertedChangeId: string | null;
+}
+
+export interface ChangeSummary {
+  id: string;
+  tool: string;
+  description: string;
+  createdAt: string;
+  undone: boolean;
+  files: Array<{ path: string; action: 'created' | 'modified' | 'deleted'; restorable: boolean }>;
+}
+
+export interface RestoreResult {
+  changeId: string;
+  restoredFiles: string[];
+  removedFiles: string[];
+  skippedFiles: string[];
+  redoChangeId: string | null;
+}
+
+/**
+ * IMMUTABILITY: Journal storage in insertion (chronological) order
+ */
+const changeJournal = new Map<string, ChangeRecord>();
+let journalBytes = 0;
+
+/**
+ * CONTRACT: Change ID generation with uniqueness guarantees
+ */
+function generateChangeId(): string {
+  return `change_${Date.now().toString(36)}_${randomBytes(4).toString('hex')}`;
+}
+
+/**
+ * CONTRACT: Current content hash of a file, or null when it does not exist
+ */
+async function currentHash(filePath: string): Promise<string | null> {
+  try {
+    return sha256Hex(await fs.readFile(filePath));
+  } catch (error: any) {
+    if (error.code === 'ENOENT') {
+      return null;
+    }
+    throw error;
+  }
+}
+
+/**
+ * CONTRACT: Retention enforcement
+ *
+ * Postconditions:
+ * - No change is older than JOURNAL_MAX_AGE_MS
+ * - Total snapshot bytes and change count are within their limits
+ */
+function pruneJournal(now = Date.now()): void {
+  for (const [id, change] of changeJournal) {
+    const tooOld = now - change.createdAt.getTime() > JOURNAL_MAX_AGE_MS;
+    const overLimit = journalBytes > JOURNAL_MAX_TOTAL_BYTES || changeJournal.size > JOURNAL_MAX_CHANGES;
+    if (!tooOld && !overLimit) {
+      break;
+    }
+    changeJournal.delete(id);
+    journalBytes -= change.bytes;
+  }
+}
+
+/**
+ * CONTRACT: Capture the state of a file before it is mutated
+ *
+ * Preconditions:
+ * - filePath must already be validated against the allowed directories
+ *
+ * Postconditions:
+ * - Returns a snapshot describing whether the file existed and, if small enough, its content and mode
+ *
+ * Invariants:
+ * - Never modifies the file
+ */
+export async function snapshotFile(filePath: string): Promise<FileSnapshot> {
+  let stats;
+  try {
+    stats = await fs.stat(filePath);
+  } catch (error: any) {
+    if (error.code === 'ENOENT') {
+      return { path: filePath, existed: false, content: null, sha256: null, mode: null, size: 0, restorable: true };
+    }
+    throw error;
+  }
+
+  if (!stats.isFile()) {
+    throw new UserError(`Cannot snapshot non-regular file: ${filePath}`);
+  }
+
+  if (stats.size > JOURNAL_MAX_FILE_BYTES) {
+    return { path: filePath, existed: true, content: null, sha256: null, mode: stats.mode, size: stats.size, restorable: false };
+  }
+
+  const content = await fs.readFile(filePath);
+  return { path: filePath, existed: true, content, sha256: sha256Hex(content), mode: stats.mode, size: content.length, restorable: true };
+}
+
+/**
+ * CONTRACT: Record a completed mutation in the journal
+ *
+ * Preconditions:
+ * - snapshots were taken with snapshotFile before the mutation
+ * - The mutation has already been applied to disk
+ *
+ * Postconditions:
+ * - Returns the new change, or null when there was nothing to record
+ * - The journal is pruned to its retention limits
+ */
+export async function recordChange(tool: string, description: string, snapshots: FileSnapshot[]): Promise<ChangeRecord | null> {
+  if (snapshots.length === 0) {
+    return null;
+  }
+
+  const afterHashes = await Promise.all(snapshots.map(snapshot =>
+    snapshot.restorable ? currentHash(snapshot.path) : Promise.resolve(null)
+  ));
+
+  const change: ChangeRecord = {
+    id: generateChangeId(),
+    tool,
+    description,
+    createdAt: new Date(),
+    files: snapshots,
+    afterHashes,
+    bytes: snapshots.reduce((total, snapshot) => total + (snapshot.content?.length ?? 0), 0),
+    undone: false,
+    revertedChangeId: null,
+  };
+
+  changeJournal.set(change.id, change);
+  journalBytes += change.bytes;
+  pruneJournal();
+
+  return change;
+}
+
+/**
+ * IMMUTABILITY: Pure projection of a change for display
+ */
+function summarizeChange(change: ChangeRecord): ChangeSummary {
+  return {
+    id: change.id,
+    tool: change.tool,
+    description: change.description,
+    createdAt: change.createdAt.toISOString(),
+    undone: change.undone,
+    files: change.files.map((snapshot, index) => ({
+      path: snapshot.path,
+      action: !snapshot.existed ? 'created' : change.afterHashes[index] === null && snapshot.restorable ? 'deleted' : 'modified',
+      restorable: snapshot.restorable,
+    })),
+  };
+}
+
+/**
+ * CONTRACT: Journal listing, newest first
+ *
+ * Postconditions:
+ * - Returns at most `limit` summaries, optionally only those touching `filePath`
+ */
+export function listChanges(options: { limit?: number; filePath?: string } = {}): ChangeSummary[] {
+  pruneJournal();
+  const { limit = 20, filePath } = options;
+  return Array.from(changeJournal.values())
+    .reverse()
+    .filter(change => !filePath || change.files.some(snapshot => snapshot.path === filePath))
+    .slice(0, limit)
+    .map(summarizeChange);
+}
+
+/**
+ * CONTRACT: Lookup helpers
+ */
+export function getChange(changeId: string): ChangeRecord | undefined {
+  pruneJournal();
+  return changeJournal.get(changeId);
+}
+
+/**
+ * CONTRACT: The change undo_last_change reverts next
+ *
+ * Postconditions:
+ * - Skips changes already undone and the records of restores themselves, so repeated
+ *   calls walk back through history; redoing is left to an explicit restore by ID, after
+ *   which the redone change is the next one undone again
+ */
+export function getLastChange(): ChangeRecord | undefined {
+  pruneJournal();
+  return Array.from(changeJournal.values()).reverse().find(change => !change.undone && change.tool !== RESTORE_TOOL);
+}
+
+/**
+ * CONTRACT: Earlier content of a file, looked up by its hash
+ *
+ * Postconditions:
+ * - Returns the journaled bytes of filePath whose sha256 equals `sha256`, or null if none is kept
+ */
+export function findJournaledContent(filePath: string, sha256: string): Buffer | null {
+  pruneJournal();
+  const wanted = sha256.toLowerCase();
+  for (const change of changeJournal.values()) {
+    const snapshot = change.files.find(file => file.path === filePath && file.sha256 === wanted);
+    if (snapshot?.content) {
+      return snapshot.content;
+    }
+  }
+  return null;
+}
+
+/**
+ * CONTRACT: Revert every file touched by a change to its captured state
+ *
+ * Preconditions:
+ * - changeId must refer to a journaled change that has not been undone
+ * - All paths in the change must have been re-validated by the caller
+ *
+ * Postconditions:
+ * - Files that existed are rewritten atomically with their original content and mode
+ * - Files created by the change are removed
+ * - The restore is journaled as a new change, so it can be undone in turn
+ * - Restoring a restore (a redo) marks the change it reverted as no longer undone, so
+ *   undo_last_change reaches the redone change again instead of an older one
+ *
+ * Invariants:
+ * - Without `force`, nothing is written if any file changed after the change was made
+ */
+export async function restoreChange(changeId: string, options: { force?: boolean } = {}): Promise<RestoreResult> {
+  const change = getChange(changeId);
+  if (!change) {
+    throw new UserError(`No change found with ID: ${changeId}. It may have expired from the journal.`);
+  }
+  if (change.undone) {
+    throw new UserError(`Change ${changeId} has already been undone`);
+  }
+
+  // DEFENSIVE PROGRAMMING: Refuse to clobber edits made after this change
+  if (!options.force) {
+    const conflicts: string[] = [];
+    for (const [index, snapshot] of change.files.entries()) {
+      if (snapshot.restorable && await currentHash(snapshot.path) !== change.afterHashes[index]) {
+        conflicts.push(snapshot.path);
+      }
+    }
+    if (conflicts.length > 0) {
+      throw new UserError(
+        `Cannot restore change ${changeId}: these files were modified after the change was made:\n` +
+        conflicts.map(conflict => `  - ${conflict}`).join('\n') +
+        `\nPass force: true to overwrite them anyway.`
+      );
+    }
+  }
+
+  const redoSnapshots = await Promise.all(
+    change.files.filter(snapshot => snapshot.restorable).map(snapshot => snapshotFile(snapshot.path))
+  );
+
+  const result: RestoreResult = { changeId, restoredFiles: [], removedFiles: [], skippedFiles: [], redoChangeId: null };
+
+  for (const snapshot of change.files) {
+    if (!snapshot.restorable) {
+      result.skippedFiles.push(snapshot.path);
+      continue;
+    }
+
+    if (!snapshot.existed) {
+      try {
+        await fs.unlink(snapshot.path);
+        result.removedFiles.push(snapshot.path);
+      } catch (error: any) {
+        if (error.code !== 'ENOENT') throw error;
+      }
+      continue;
+    }
+
+    await fs.mkdir(path.dirname(snapshot.path), { recursive: true });
+    await writeFileAtomic(snapshot.path, snapshot.content as Buffer);
+    if (snapshot.mode !== null) {
+      await fs.chmod(snapshot.path, snapshot.mode & 0o7777);
+    }
+    result.restoredFiles.push(snapshot.path);
+  }
+
+  change.undone = true;
+  const reverted = change.revertedChangeId ? changeJournal.get(change.revertedChangeId) : undefined;
+  if (reverted) {
+    reverted.undone = false;
+  }
+  const redo = await recordChange(RESTORE_TOOL, `Restore of ${changeId} (${change.tool}: ${change.description})`, redoSnapshots);
+  if (redo) {
+    redo.revertedChangeId = changeId;
+  }
+  result.redoChangeId = redo?.id ?? null;
+
+  return result;
+}
+
+/**
+ * CONTRACT: Clear the journal (for testing purposes)
+ */
+export function clearChangeJournal(): void {
+  changeJournal.clear();
+  journalBytes = 0;
+}
@@ -0,0 +1,306 @@
+// src/utils/directory-operations.ts
+import { z } from "zod";
+import * as fs from "fs/promises";
+import * as path from "path";
+import { UserError } from "fastmcp";
+import { FileSnapshot, snapshotFile } from "./change-journal.js";
+
+/**
+ * CONTRACT: Upper bound on entries a single directory operation may touch
+ */
+export const DIRECTORY_OPERATION_MAX_ENTRIES = 100000;
+
+/**
+ * CONTRACT: Deletes removing more entries than this require an explicit confirmation count
+ */
+export const DIRECTORY_DELETE_CONFIRM_THRESHOLD = 100;
+
+/**
+ * CONTRACT: What to do when the destination directory already exists
+ *
+ * - 'error': refuse (default)
+ * - 'merge': add missing entries, keep existing destination files
+ * - 'overwrite': add missing entries, replace existing destination files
+ */
+export const DirectoryConflictPolicySchema = z.enum(['error', 'merge', 'overwrite']);
+export type DirectoryConflictPolicy = z.infer<typeof DirectoryConflictPolicySchema>;
+
+export type DirectoryEntryType = 'directory' | 'file' | 'symlink' | 'other';
+
+export interface DirectoryEntry {
+  relativePath: string;
+  type: DirectoryEntryType;
+  size: number;
+}
+
+export type CopyAction = 'create' | 'overwrite' | 'skip' | 'exists';
+
+export interface CopyPlanEntry extends DirectoryEntry {
+  action: CopyAction;
+}
+
+/**
+ * CONTRACT: Everything a directory copy or move will do, computed before anything is written
+ *
+ * Invariants:
+ * - entries are in walk order, so every directory precedes its children
+ * - conflicts lists entries whose type differs between source and destination; a plan with
+ *   conflicts must not be executed
+ */
+export interface DirectoryCopyPlan {
+  source: string;
+  destination: string;
+  destinationExists: boolean;
+  entries: CopyPlanEntry[];
+  conflicts: string[];
+}
+
+/**
+ * IMMUTABILITY: Pure mapping from lstat results to entry types
+ */
+function entryTypeOf(stats: { isDirectory(): boolean; isFile(): boolean; isSymbolicLink(): boolean }): DirectoryEntryType {
+  if (stats.isSymbolicLink()) return 'symlink';
+  if (stats.isDirectory()) return 'directory';
+  if (stats.isFile()) return 'file';
+  return 'other';
+}
+
+async function lstatOrNull(target: string) {
+  try {
+    return await fs.lstat(target);
+  } catch (error: any) {
+    if (error.code === 'ENOENT') {
+      return null;
+    }
+    throw error;
+  }
+}
+
+/**
+ * CONTRACT: Recursive listing of a directory
+ *
+ * Preconditions:
+ * - root must already be validated against the allowed directories
+ *
+ * Postconditions:
+ * - Returns every entry below root (not root itself), directories before their children, names sorted
+ * - Symbolic links are listed but never followed, so the walk cannot leave root
+ * - Throws a UserError above DIRECTORY_OPERATION_MAX_ENTRIES entries
+ */
+export async function walkDirectory(root: string): Promise<DirectoryEntry[]> {
+  const entries: DirectoryEntry[] = [];
+
+  const visit = async (relativeDir: string): Promise<void> => {
+    const names = (await fs.readdir(path.join(root, relativeDir))).sort();
+    for (const name of names) {
+      const relativePath = relativeDir ? path.join(relativeDir, name) : name;
+      const stats = await fs.lstat(path.join(root, relativePath));
+      const type = entryTypeOf(stats);
+      entries.push({ relativePath, type, size: type === 'file' ? stats.size : 0 });
+      if (entries.length > DIRECTORY_OPERATION_MAX_ENTRIES) {
+        throw new UserError(`Directory has more than ${DIRECTORY_OPERATION_MAX_ENTRIES} entries: ${root}`);
+      }
+      if (type === 'directory') {
+        await visit(relativePath);
+      }
+    }
+  };
+
+  await visit('');
+  return entries;
+}
+
+/**
+ * IMMUTABILITY: Pure containment check on normalized absolute paths
+ */
+export function isSameOrInside(candidate: string, parent: string): boolean {
+  const relative = path.relative(parent, candidate);
+  return relative === '' || (!relative.startsWith('..') && !path.isAbsolute(relative));
+}
+
+/**
+ * CONTRACT: Plan a recursive copy of `source` to the directory path `destination`
+ *
+ * Preconditions:
+ * - Both paths must already be validated against the allowed directories
+ *
+ * Postconditions:
+ * - Never writes
+ * - Throws a UserError when source is not a directory, destination is inside source, or
+ *   destination exists and policy is 'error'
+ * - Existing destination symlinks are never traversed; a symlink where the source has a
+ *   directory is reported as a conflict
+ */
+export async function planDirectoryCopy(source: string, destination: string, policy: DirectoryConflictPolicy): Promise<DirectoryCopyPlan> {
+  const sourceStats = await lstatOrNull(source);
+  if (!sourceStats) {
+    throw new UserError(`Source directory does not exist: ${source}`);
+  }
+  if (!sourceStats.isDirectory()) {
+    throw new UserError(`Source is not a directory: ${source}`);
+  }
+  if (isSameOrInside(destination, source)) {
+    throw new UserError(`Destination cannot be the source directory or inside it: ${destination}`);
+  }
+
+  const destinationStats = await lstatOrNull(destination);
+  if (destinationStats) {
+    if (!destinationStats.isDirectory()) {
+      throw new UserError(`Destination exists and is not a directory: ${destination}`);
+    }
+    if (policy === 'error') {
+      throw new UserError(`Destination directory already exists: ${destination}. Use ifExists 'merge' or 'overwrite' to copy into it.`);
+    }
+  }
+
+  const entries: CopyPlanEntry[] = [];
+  const conflicts: string[] = [];
+  const conflictedDirectories: string[] = [];
+  for (const entry of await walkDirectory(source)) {
+    // Descendants of a conflict are not inspected: their destination path may lead through a symlink
+    if (conflictedDirectories.some(dir => entry.relativePath.startsWith(dir + path.sep))) {
+      continue;
+    }
+    if (entry.type === 'other') {
+      conflicts.push(`${entry.relativePath}: special files (sockets, devices, FIFOs) cannot be copied`);
+      continue;
+    }
+
+    const existing = destinationStats ? await lstatOrNull(path.join(destination, entry.relativePath)) : null;
+    if (!existing) {
+      entries.push({ ...entry, action: 'create' });
+      continue;
+    }
+
+    const existingType = entryTypeOf(existing);
+    if (entry.type === 'directory' && existingType === 'directory') {
+      entries.push({ ...entry, action: 'exists' });
+    } else if (entry.type !== 'directory' && existingType !== 'directory' && existingType !== 'other') {
+      entries.push({ ...entry, action: policy === 'overwrite' ? 'overwrite' : 'skip' });
+    } else {
+      conflicts.push(`${entry.relativePath}: source ${entry.type} would replace a ${existingType}`);
+      if (entry.type === 'directory') {
+        conflictedDirectories.push(entry.relativePath);
+      }
+    }
+  }
+
+  return { source, destination, destinationExists: destinationStats !== null, entries, conflicts };
+}
+
+/**
+ * CONTRACT: Execute a copy plan
+ *
+ * Preconditions:
+ * - plan comes from planDirectoryCopy and has no conflicts
+ *
+ * Postconditions:
+ * - Directories are created with the source mode, files are copied with their mode,
+ *   symlinks are recreated with the same target
+ * - Entries marked 'skip' and 'exists' are left untouched
+ */
+export async function executeDirectoryCopy(plan: DirectoryCopyPlan): Promise<void> {
+  if (plan.conflicts.length > 0) {
+    throw new UserError(`Cannot copy with ${plan.conflicts.length} conflict(s): ${plan.conflicts[0]}`);
+  }
+
+  if (!plan.destinationExists) {
+    await fs.mkdir(plan.destination, { mode: (await fs.stat(plan.source)).mode & 0o7777 });
+  }
+
+  for (const entry of plan.entries) {
+    const from = path.join(plan.source, entry.relativePath);
+    const to = path.join(plan.destination, entry.relativePath);
+
+    if (entry.action === 'skip' || entry.action === 'exists') {
+      continue;
+    }
+    if (entry.type === 'directory') {
+      await fs.mkdir(to, { mode: (await fs.stat(from)).mode & 0o7777 });
+    } else if (entry.type === 'symlink') {
+      if (entry.action === 'overwrite') {
+        await fs.unlink(to);
+      }
+      await fs.symlink(await fs.readlink(from), to);
+    } else {
+      if (entry.action === 'overwrite' && (await fs.lstat(to)).isSymbolicLink()) {
+        await fs.unlink(to); // Never write through a destination symlink
+      }
+      await fs.copyFile(from, to);
+    }
+  }
+}
+
+/**
+ * CONTRACT: Journal snapshots of the files a plan will replace
+ *
+ * Preconditions:
+ * - Called before executeDirectoryCopy, with the plan that will be executed
+ *
+ * Postconditions:
+ * - Covers destination regular files marked 'overwrite'; destination symlinks are replaced
+ *   without being followed and are not journaled
+ * - With includeSources (moves), also covers the source files removed in their place, so
+ *   restoring the change puts both sides back
+ */
+export async function snapshotOverwrittenFiles(plan: DirectoryCopyPlan, includeSources: boolean): Promise<FileSnapshot[]> {
+  const snapshots: FileSnapshot[] = [];
+  for (const entry of plan.entries) {
+    if (entry.action !== 'overwrite' || entry.type !== 'file') continue;
+    const target = path.join(plan.destination, entry.relativePath);
+    if ((await lstatOrNull(target))?.isFile()) {
+      snapshots.push(await snapshotFile(target));
+      if (includeSources) {
+        snapshots.push(await snapshotFile(path.join(plan.source, entry.relativePath)));
+      }
+    }
+  }
+  return snapshots;
+}
+
+/**
+ * CONTRACT: Remove source entries after a copy-based move
+ *
+ * Postconditions:
+ * - Files and symlinks that were copied are removed from the source
+ * - Directories are removed bottom-up once empty; entries that were skipped keep theirs
+ * - Returns the relative paths left behind in the source (empty when the source is gone)
+ */
+export async function removeMovedEntries(plan: DirectoryCopyPlan): Promise<string[]> {
+  const leftovers: string[] = [];
+
+  for (const entry of plan.entries) {
+    if (entry.type === 'directory') continue;
+    if (entry.action === 'skip') {
+      leftovers.push(entry.relativePath);
+    } else {
+      await fs.unlink(path.join(plan.source, entry.relativePath));
+    }
+  }
+
+  const directories = plan.entries.filter(entry => entry.type === 'directory').map(entry => entry.relativePath);
+  for (const relativeDir of [...directories.reverse(), '']) {
+    try {
+      await fs.rmdir(path.join(plan.source, relativeDir));
+    } catch (error: any) {
+      if (error.code !== 'ENOTEMPTY' && error.code !== 'EEXIST') {
+        throw error;
+      }
+    }
+  }
+
+  return leftovers;
+}
+
+/**
+ * IMMUTABILITY: Pure function for dry-run listings
+ *
+ * Postconditions:
+ * - At most `limit` lines, followed by "… N more" when truncated
+ */
+export function formatEntryListing(lines: string[], limit = 200): string {
+  if (lines.length <= limit) {
+    return lines.join('\n');
+  }
+  return [...lines.slice(0, limit), `  … ${lines.length - limit} more`].join('\n');
+}
@@ -0,0 +1,200 @@
+// src/utils/directory-tree.ts
+import * as fs from "fs/promises";
+import * as path from "path";
+import { matchesAnyGlob } from "./glob-match.js";
+
+/**
+ * CONTRACT: Default limits for directory_tree
+ *
+ * Invariants:
+ * - Output stays bounded even for huge trees; elided entries are always reported, never silently dropped
+ */
+export const DIRECTORY_TREE_DEFAULT_MAX_ENTRIES_PER_DIRECTORY = 200;
+export const DIRECTORY_TREE_DEFAULT_MAX_TOTAL_ENTRIES = 5000;
+export const DIRECTORY_TREE_DEFAULT_EXCLUDE = ['node_modules'];
+
+export interface DirectoryTreeOptions {
+  /** Levels below the root to list; directories at the limit are shown but not expanded */
+  maxDepth?: number;
+  /** Globs that files must match; directories are kept only if something inside them matches */
+  include?: string[];
+  /** Globs for files and directories to skip entirely */
+  exclude?: string[];
+  showHidden?: boolean;
+  /** Extra ignore check, e.g. a gitignore matcher; ignored directories are not entered */
+  isIgnored?: (absolutePath: string, isDirectory: boolean) => boolean;
+  withSize?: boolean;
+  withModified?: boolean;
+  maxEntriesPerDirectory?: number;
+  maxTotalEntries?: number;
+}
+
+/**
+ * CONTRACT: One node of a collected tree
+ *
+ * Invariants:
+ * - children is present only for directories that were expanded
+ * - omitted counts entries that passed the filters but were cut by a limit
+ * - error is set when a subdirectory could not be read; its children are then absent
+ */
+export interface DirectoryTreeNode {
+  name: string;
+  type: 'directory' | 'file' | 'symlink' | 'other';
+  size?: number;
+  modified?: string;
+  children?: DirectoryTreeNode[];
+  omitted?: number;
+  error?: string;
+}
+
+export interface DirectoryTree {
+  root: DirectoryTreeNode;
+  totalEntries: number;
+  truncated: boolean;
+}
+
+function nodeTypeOf(entry: { isDirectory(): boolean; isFile(): boolean; isSymbolicLink(): boolean }): DirectoryTreeNode['type'] {
+  if (entry.isDirectory()) return 'directory';
+  if (entry.isSymbolicLink()) return 'symlink';
+  if (entry.isFile()) return 'file';
+  return 'other';
+}
+
+/**
+ * CONTRACT: Collect a filtered, bounded tree below rootPath
+ *
+ * Preconditions:
+ * - rootPath must already be validated against the allowed directories
+ * - resolveDirectory re-validates every subdirectory before it is read (defense in depth)
+ *
+ * Postconditions:
+ * - Directories come before files, each group sorted by name
+ * - Symbolic links are listed but never followed
+ * - Globs are matched against paths relative to rootPath using '/' separators
+ * - Unreadable subdirectories are reported on their node instead of failing the whole tree
+ */
+export async function collectDirectoryTree(
+  rootPath: string,
+  options: DirectoryTreeOptions = {},
+  resolveDirectory: (directoryPath: string) => Promise<string> = async directoryPath => directoryPath
+): Promise<DirectoryTree> {
+  const {
+    maxDepth,
+    include = [],
+    exclude = DIRECTORY_TREE_DEFAULT_EXCLUDE,
+    showHidden = false,
+    isIgnored,
+    withSize = false,
+    withModified = false,
+    maxEntriesPerDirectory = DIRECTORY_TREE_DEFAULT_MAX_ENTRIES_PER_DIRECTORY,
+    maxTotalEntries = DIRECTORY_TREE_DEFAULT_MAX_TOTAL_ENTRIES,
+  } = options;
+
+  let totalEntries = 0;
+  let truncated = false;
+
+  const describe = async (absolutePath: string, node: DirectoryTreeNode): Promise<void> => {
+    if (!withSize && !withModified) return;
+    try {
+      const stats = await fs.lstat(absolutePath);
+      if (withSize && node.type !== 'directory') node.size = stats.size;
+      if (withModified) node.modified = stats.mtime.toISOString();
+    } catch {
+      // Entry vanished between readdir and lstat; list it without details
+    }
+  };
+
+  const visit = async (directoryPath: string, relativeDir: string, depth: number): Promise<{ children: DirectoryTreeNode[]; omitted: number }> => {
+    const dirents = await fs.readdir(await resolveDirectory(directoryPath), { withFileTypes: true });
+    const candidates = dirents
+      .filter(entry => showHidden || !entry.name.startsWith('.'))
+      .filter(entry => !matchesAnyGlob(relativeDir ? `${relativeDir}/${entry.name}` : entry.name, exclude))
+      .filter(entry => !isIgnored?.(path.join(directoryPath, entry.name), entry.isDirectory()))
+      .sort((a, b) => {
+        if (a.isDirectory() && !b.isDirectory()) return -1;
+        if (!a.isDirectory() && b.isDirectory()) return 1;
+        return a.name.localeCompare(b.name);
+      });
+
+    const children: DirectoryTreeNode[] = [];
+    let omitted = 0;
+
+    for (const entry of candidates) {
+      const relativePath = relativeDir ? `${relativeDir}/${entry.name}` : entry.name;
+      const type = nodeTypeOf(entry);
+
+      if (type !== 'directory' && include.length > 0 && !matchesAnyGlob(relativePath, include)) {
+        continue;
+      }
+      if (children.length >= maxEntriesPerDirectory || totalEntries >= maxTotalEntries) {
+        omitted++;
+        truncated ||= totalEntries >= maxTotalEntries;
+        continue;
+      }
+
+      const node: DirectoryTreeNode = { name: entry.name, type };
+      const absolutePath = path.join(directoryPath, entry.name);
+
+      if (type === 'directory' && (maxDepth === undefined || depth < maxDepth)) {
+        try {
+          const nested = await visit(absolutePath, relativePath, depth + 1);
+          // With include filters, directories without any match are noise
+          if (include.length > 0 && nested.children.length === 0 && nested.omitted === 0) {
+            continue;
+          }
+          node.children = nested.children;
+          if (nested.omitted > 0) node.omitted = nested.omitted;
+        } catch (error: any) {
+          node.error = error instanceof Error ? error.message : 'Unknown error';
+        }
+      }
+
+      await describe(absolutePath, node);
+      children.push(node);
+      totalEntries++;
+    }
+
+    return { children, omitted };
+  };
+
+  const top = await visit(rootPath, '', 1);
+  const root: DirectoryTreeNode = { name: path.basename(rootPath), type: 'directory', children: top.children };
+  if (top.omitted > 0) root.omitted = top.omitted;
+  if (withModified) await describe(rootPath, root);
+
+  return { root, totalEntries, truncated };
+}
+
+/**
+ * IMMUTABILITY: Pure rendering of a collected tree
+ *
+ * Postconditions:
+ * - Root label on the first line, then ├── / └── / │ connectors
+ * - Elided entries appear as a final "… N more" line in their directory
+ */
+export function renderAsciiTree(root: DirectoryTreeNode, label: (node: DirectoryTreeNode) => string = node => node.name): string {
+  const lines: string[] = [label(root)];
+
+  const render = (node: DirectoryTreeNode, prefix: string): void => {
+    const children = node.children ?? [];
+    const rows = node.omitted ? children.length + 1 : children.length;
+
+    children.forEach((child, index) => {
+      const isLast = index === rows - 1;
+      lines.push(prefix + (isLast ? '└── ' : '├── ') + label(child));
+      const childPrefix = prefix + (isLast ? '    ' : '│   ');
+      if (child.error) {
+        lines.push(childPrefix + `[Error accessing subdirectory: ${child.error}]`);
+      } else {
+        render(child, childPrefix);
+      }
+    });
+
+    if (node.omitted) {
+      lines.push(prefix + `└── … ${node.omitted} more`);
+    }
+  };
+
+  render(root, '');
+  return lines.join('\n');
+}
@@ -0,0 +1,263 @@
+// src/utils/file-encoding.ts
+import { z } from "zod";
+import * as path from "path";
+import { UserError } from "fastmcp";
+
+/**
+ * CONTRACT: Shared Zod schema for explicit file encodings
+ *
+ * Invariants:
+ * - Every value is accepted by Node's Buffer API as a BufferEncoding
+ * - 'base64' means the caller exchanges raw bytes as base64 text
+ */
+export const FileEncodingSchema = z.enum(['utf-8', 'utf-16le', 'latin1', 'base64']);
+export type FileEncoding = z.infer<typeof FileEncodingSchema>;
+
+/**
+ * CONTRACT: Encodings recognised when inspecting file content
+ *
+ * 'utf-16be' can be detected from a BOM but is not offered as an explicit option,
+ * because Node has no native decoder for it; it is handled by byte swapping.
+ */
+export type DetectedEncoding = 'utf-8' | 'utf-16le' | 'utf-16be' | 'latin1' | 'binary';
+
+export interface ContentDetection {
+  encoding: DetectedEncoding;
+  bom: boolean;
+  isBinary: boolean;
+}
+
+export interface DecodedContent extends ContentDetection {
+  text: string;
+  mimeType: string;
+}
+
+/**
+ * CONTRACT: Number of leading bytes inspected for binary detection (same window git uses)
+ */
+const BINARY_SNIFF_LENGTH = 8000;
+
+const UTF8_BOM = Buffer.from([0xef, 0xbb, 0xbf]);
+const UTF16LE_BOM = Buffer.from([0xff, 0xfe]);
+const UTF16BE_BOM = Buffer.from([0xfe, 0xff]);
+
+/**
+ * IMMUTABILITY: Magic byte signatures for common binary formats
+ */
+const MAGIC_SIGNATURES: ReadonlyArray<{ bytes: number[]; offset?: number; mimeType: string }> = [
+  { bytes: [0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a], mimeType: 'image/png' },
+  { bytes: [0xff, 0xd8, 0xff], mimeType: 'image/jpeg' },
+  { bytes: [0x47, 0x49, 0x46, 0x38], mimeType: 'image/gif' },
+  { bytes: [0x42, 0x4d], mimeType: 'image/bmp' },
+  { bytes: [0x00, 0x00, 0x01, 0x00], mimeType: 'image/x-icon' },
+  { bytes: [0x57, 0x45, 0x42, 0x50], offset: 8, mimeType: 'image/webp' },
+  { bytes: [0x25, 0x50, 0x44, 0x46, 0x2d], mimeType: 'application/pdf' },
+  { bytes: [0x50, 0x4b, 0x03, 0x04], mimeType: 'application/zip' },
+  { bytes: [0x1f, 0x8b], mimeType: 'application/gzip' },
+  { bytes: [0x42, 0x5a, 0x68], mimeType: 'application/x-bzip2' },
+  { bytes: [0xfd, 0x37, 0x7a, 0x58, 0x5a, 0x00], mimeType: 'application/x-xz' },
+  { bytes: [0x37, 0x7a, 0xbc, 0xaf, 0x27, 0x1c], mimeType: 'application/x-7z-compressed' },
+  { bytes: [0x75, 0x73, 0x74, 0x61, 0x72], offset: 257, mimeType: 'application/x-tar' },
+  { bytes: [0x00, 0x61, 0x73, 0x6d], mimeType: 'application/wasm' },
+  { bytes: [0x7f, 0x45, 0x4c, 0x46], mimeType: 'application/x-elf' },
+  { bytes: [0x53, 0x51, 0x4c, 0x69, 0x74, 0x65, 0x20, 0x66], mimeType: 'application/vnd.sqlite3' },
+  { bytes: [0x49, 0x44, 0x33], mimeType: 'audio/mpeg' },
+  { bytes: [0x4f, 0x67, 0x67, 0x53], mimeType: 'audio/ogg' },
+  { bytes: [0x66, 0x4c, 0x61, 0x43], mimeType: 'audio/flac' },
+  { bytes: [0x66, 0x74, 0x79, 0x70], offset: 4, mimeType: 'video/mp4' },
+  { bytes: [0x1a, 0x45, 0xdf, 0xa3], mimeType: 'video/webm' },
+  { bytes: [0x77, 0x4f, 0x46, 0x46], mimeType: 'font/woff' },
+  { bytes: [0x77, 0x4f, 0x46, 0x32], mimeType: 'font/woff2' },
+];
+
+/**
+ * IMMUTABILITY: Extension fallback used when no signature matches
+ */
+const EXTENSION_MIME_TYPES: Readonly<Record<string, string>> = {
+  '.txt': 'text/plain',
+  '.md': 'text/markdown',
+  '.html': 'text/html',
+  '.htm': 'text/html',
+  '.css': 'text/css',
+  '.csv': 'text/csv',
+  '.xml': 'application/xml',
+  '.svg': 'image/svg+xml',
+  '.json': 'application/json',
+  '.js': 'text/javascript',
+  '.mjs': 'text/javascript',
+  '.cjs': 'text/javascript',
+  '.ts': 'text/typescript',
+  '.tsx': 'text/typescript',
+  '.py': 'text/x-python',
+  '.sh': 'application/x-sh',
+  '.yaml': 'application/yaml',
+  '.yml': 'application/yaml',
+  '.toml': 'application/toml',
+  '.wav': 'audio/wav',
+  '.avi': 'video/x-msvideo',
+  '.ttf': 'font/ttf',
+  '.otf': 'font/otf',
+  '.exe': 'application/vnd.microsoft.portable-executable',
+  '.dll': 'application/vnd.microsoft.portable-executable',
+};
+
+/**
+ * IMMUTABILITY: Pure function for prefix comparison at an offset
+ */
+function startsWithBytes(buffer: Buffer, bytes: ArrayLike<number>, offset = 0): boolean {
+  if (buffer.length < offset + bytes.length) {
+    return false;
+  }
+  for (let i = 0; i < bytes.length; i++) {
+    if (buffer[offset + i] !== bytes[i]) {
+      return false;
+    }
+  }
+  return true;
+}
+
+/**
+ * CONTRACT: Encoding and binary detection from file bytes
+ *
+ * Preconditions:
+ * - buffer must be a Buffer (may be empty)
+ *
+ * Postconditions:
+ * - A BOM determines the encoding when present
+ * - Content with NUL bytes in the first 8000 bytes is classified as binary
+ * - Remaining content is 'utf-8' when it decodes strictly, otherwise 'latin1'
+ *
+ * Invariants:
+ * - Detection is deterministic and never modifies the buffer
+ * - Empty content is reported as UTF-8 text
+ */
+export function detectContentEncoding(buffer: Buffer): ContentDetection {
+  if (!Buffer.isBuffer(buffer)) {
+    throw new UserError('Content detection requires a Buffer');
+  }
+
+  if (startsWithBytes(buffer, UTF8_BOM)) {
+    return { encoding: 'utf-8', bom: true, isBinary: false };
+  }
+  if (startsWithBytes(buffer, UTF16LE_BOM)) {
+    return { encoding: 'utf-16le', bom: true, isBinary: false };
+  }
+  if (startsWithBytes(buffer, UTF16BE_BOM)) {
+    return { encoding: 'utf-16be', bom: true, isBinary: false };
+  }
+
+  const sample = buffer.subarray(0, BINARY_SNIFF_LENGTH);
+  if (sample.includes(0)) {
+    return { encoding: 'binary', bom: false, isBinary: true };
+  }
+
+  try {
+    new TextDecoder('utf-8', { fatal: true }).decode(buffer);
+    return { encoding: 'utf-8', bom: false, isBinary: false };
+  } catch {
+    return { encoding: 'latin1', bom: false, isBinary: false };
+  }
+}
+
+/**
+ * CONTRACT: MIME type detection from magic bytes with extension fallback
+ *
+ * Postconditions:
+ * - Returns a signature-based type when the leading bytes match a known format
+ * - Otherwise falls back to the file extension, then to a generic text or binary type
+ */
+export function detectMimeType(buffer: Buffer, filePath?: string, isBinary?: boolean): string {
+  for (const signature of MAGIC_SIGNATURES) {
+    if (startsWithBytes(buffer, signature.bytes, signature.offset ?? 0)) {
+      return signature.mimeType;
+    }
+  }
+
+  const extension = filePath ? path.extname(filePath).toLowerCase() : '';
+  if (extension && EXTENSION_MIME_TYPES[extension]) {
+    return EXTENSION_MIME_TYPES[extension];
+  }
+
+  const binary = isBinary ?? detectContentEncoding(buffer).isBinary;
+  return binary ? 'application/octet-stream' : 'text/plain';
+}
+
+/**
+ * IMMUTABILITY: Pure function for BOM length of a detected encoding
+ */
+function bomLength(detection: ContentDetection): number {
+  if (!detection.bom) return 0;
+  return detection.encoding === 'utf-8' ? UTF8_BOM.length : UTF16LE_BOM.length;
+}
+
+/**
+ * CONTRACT: File content decoding with explicit or detected encoding
+ *
+ * Preconditions:
+ * - buffer holds the raw file bytes
+ * - encoding is an explicit FileEncoding, or undefined for auto-detection
+ *
+ * Postconditions:
+ * - Explicit encodings are honoured as-is ('base64' returns the bytes as base64 text)
+ * - An explicit text encoding means the caller asserts the content is text
+ * - Auto-detected text has its BOM stripped; binary content is returned as base64
+ * - mimeType is always populated
+ *
+ * Invariants:
+ * - The buffer is never modified
+ */
+export function decodeFileContent(buffer: Buffer, filePath?: string, encoding?: FileEncoding): DecodedContent {
+  const detection = detectContentEncoding(buffer);
+  const mimeType = detectMimeType(buffer, filePath, detection.isBinary);
+
+  if (encoding) {
+    const skip = detection.bom && (encoding === 'utf-8' || encoding === 'utf-16le') && encoding === detection.encoding
+      ? bomLength(detection)
+      : 0;
+    return {
+      text: buffer.subarray(skip).toString(encoding),
+      encoding: encoding === 'base64' ? 'binary' : encoding,
+      bom: skip > 0,
+      isBinary: encoding === 'base64',
+      mimeType,
+    };
+  }
+
+  if (detection.isBinary) {
+    return { ...detection, text: buffer.toString('base64'), mimeType };
+  }
+
+  const body = buffer.subarray(bomLength(detection));
+  const text = detection.encoding === 'utf-16be'
+    ? Buffer.from(body).swap16().toString('utf16le')
+    : body.toString(detection.encoding as BufferEncoding);
+
+  return { ...detection, text, mimeType };
+}
+
+/**
+ * CONTRACT: Text encoding for writing back content that was decoded earlier
+ *
+ * Preconditions:
+ * - detection describes the original file (from decodeFileContent or detectContentEncoding)
+ * - detection must not describe binary content
+ *
+ * Postconditions:
+ * - Returns bytes in the original encoding, with the original BOM restored
+ */
+export function encodeFileContent(text: string, detection: Pick<ContentDetection, 'encoding' | 'bom'>): Buffer {
+  switch (detection.encoding) {
+    case 'utf-8':
+      return detection.bom ? Buffer.concat([UTF8_BOM, Buffer.from(text, 'utf-8')]) : Buffer.from(text, 'utf-8');
+    case 'utf-16le':
+      return detection.bom ? Buffer.concat([UTF16LE_BOM, Buffer.from(text, 'utf16le')]) : Buffer.from(text, 'utf16le');
+    case 'utf-16be': {
+      const body = Buffer.from(text, 'utf16le').swap16();
+      return detection.bom ? Buffer.concat([UTF16BE_BOM, body]) : body;
+    }
+    case 'latin1':
+      return Buffer.from(text, 'latin1');
+    default:
+      throw new UserError('Binary content cannot be re-encoded as text');
+  }
+}
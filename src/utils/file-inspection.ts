@@ -0,0 +1,144 @@
+// src/utils/file-inspection.ts
+import { z } from "zod";
+import * as fs from "fs/promises";
+import { createReadStream } from "fs";
+import { createHash } from "crypto";
+import { DetectedEncoding, decodeFileContent, detectContentEncoding, detectMimeType } from "./file-encoding.js";
+import { FILE_VERSION_MAX_HASH_BYTES } from "./file-version.js";
+
+/**
+ * CONTRACT: Hash algorithms get_file_info can report
+ */
+export const FileHashAlgorithmSchema = z.enum(['sha256', 'md5']);
+export type FileHashAlgorithm = z.infer<typeof FileHashAlgorithmSchema>;
+
+/**
+ * CONTRACT: Files above this size are classified from a leading sample only
+ *
+ * Invariants:
+ * - Hashes are still computed over the whole file, streamed
+ */
+export const FILE_INSPECTION_MAX_ANALYZE_BYTES = FILE_VERSION_MAX_HASH_BYTES;
+const FILE_INSPECTION_SAMPLE_BYTES = 64 * 1024;
+
+export type LineEndingStyle = 'lf' | 'crlf' | 'cr' | 'mixed' | 'none';
+
+/**
+ * CONTRACT: What a file's bytes say about it
+ *
+ * Invariants:
+ * - lineCount, lineEndings and finalNewline are present only for text analysed in full
+ * - sampled is true when the classification comes from the first bytes of a large file
+ */
+export interface FileContentInfo {
+  mimeType: string;
+  isBinary: boolean;
+  encoding: DetectedEncoding;
+  bom: boolean;
+  sampled: boolean;
+  lineCount?: number;
+  lineEndings?: LineEndingStyle;
+  finalNewline?: boolean;
+  hashes?: Partial<Record<FileHashAlgorithm, string>>;
+}
+
+/**
+ * IMMUTABILITY: Pure line statistics for decoded text
+ *
+ * Postconditions:
+ * - lineCount counts a final line without a terminator; empty text has 0 lines
+ */
+export function analyzeLines(text: string): { lineCount: number; lineEndings: LineEndingStyle; finalNewline: boolean } {
+  let crlf = 0;
+  let cr = 0;
+  let lf = 0;
+  for (let i = 0; i < text.length; i++) {
+    const char = text.charCodeAt(i);
+    if (char === 13) {
+      if (text.charCodeAt(i + 1) === 10) {
+        crlf++;
+        i++;
+      } else {
+        cr++;
+      }
+    } else if (char === 10) {
+      lf++;
+    }
+  }
+
+  const breaks = crlf + cr + lf;
+  const finalNewline = text.endsWith('\n') || text.endsWith('\r');
+  const styles = [crlf > 0, cr > 0, lf > 0].filter(Boolean).length;
+  const lineEndings: LineEndingStyle = styles === 0 ? 'none'
+    : styles > 1 ? 'mixed'
+    : crlf > 0 ? 'crlf'
+    : cr > 0 ? 'cr'
+    : 'lf';
+
+  return { lineCount: text.length === 0 ? 0 : breaks + (finalNewline ? 0 : 1), lineEndings, finalNewline };
+}
+
+async function hashStream(filePath: string, algorithms: readonly FileHashAlgorithm[]): Promise<Partial<Record<FileHashAlgorithm, string>>> {
+  const hashes = algorithms.map(algorithm => [algorithm, createHash(algorithm)] as const);
+  for await (const chunk of createReadStream(filePath)) {
+    for (const [, hash] of hashes) hash.update(chunk);
+  }
+  return Object.fromEntries(hashes.map(([algorithm, hash]) => [algorithm, hash.digest('hex')]));
+}
+
+async function readSample(filePath: string): Promise<Buffer> {
+  const handle = await fs.open(filePath, 'r');
+  try {
+    const buffer = Buffer.alloc(FILE_INSPECTION_SAMPLE_BYTES);
+    const { bytesRead } = await handle.read(buffer, 0, buffer.length, 0);
+    return buffer.subarray(0, bytesRead);
+  } finally {
+    await handle.close();
+  }
+}
+
+/**
+ * CONTRACT: Inspect a regular file's content
+ *
+ * Preconditions:
+ * - filePath must already be validated against the allowed directories and be a regular file
+ * - size is the file's current size from stat
+ *
+ * Postconditions:
+ * - MIME type comes from magic bytes with extension fallback (detectMimeType)
+ * - Text files up to FILE_INSPECTION_MAX_ANALYZE_BYTES get line count, line-ending style
+ *   and final-newline status; larger files are classified from a sample
+ * - Requested hashes cover the whole file regardless of size
+ */
+export async function inspectFileContent(filePath: string, size: number, hashAlgorithms: readonly FileHashAlgorithm[] = []): Promise<FileContentInfo> {
+  const algorithms = [...new Set(hashAlgorithms)];
+
+  if (size > FILE_INSPECTION_MAX_ANALYZE_BYTES) {
+    const sample = await readSample(filePath);
+    const detection = detectContentEncoding(sample);
+    const info: FileContentInfo = {
+      mimeType: detectMimeType(sample, filePath, detection.isBinary),
+      ...detection,
+      sampled: true,
+    };
+    if (algorithms.length > 0) info.hashes = await hashStream(filePath, algorithms);
+    return info;
+  }
+
+  const buffer = await fs.readFile(filePath);
+  const decoded = decodeFileContent(buffer, filePath);
+  const info: FileContentInfo = {
+    mimeType: decoded.mimeType,
+    isBinary: decoded.isBinary,
+    encoding: decoded.encoding,
+    bom: decoded.bom,
+    sampled: false,
+  };
+  if (!decoded.isBinary) {
+    Object.assign(info, analyzeLines(decoded.text));
+  }
+  if (algorithms.length > 0) {
+    info.hashes = Object.fromEntries(algorithms.map(algorithm => [algorithm, createHash(algorithm).update(buffer).digest('hex')]));
+  }
+  return info;
+}
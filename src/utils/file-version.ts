@@ -0,0 +1,130 @@
+// src/utils/file-version.ts
+import { z } from "zod";
+import * as fs from "fs/promises";
+import { createHash } from "crypto";
+import { UserError } from "fastmcp";
+
+/**
+ * CONTRACT: Files above this size are not hashed when reporting versions
+ *
+ * Invariants:
+ * - Matches the whole-file read limit of read_file's line mode
+ */
+export const FILE_VERSION_MAX_HASH_BYTES = 50 * 1024 * 1024; // 50MB
+
+/**
+ * CONTRACT: Shared Zod fields for optimistic concurrency guards
+ *
+ * Invariants:
+ * - Both fields are optional; when neither is given no check is performed
+ * - Values are the ones reported by read_file and read_multiple_files
+ */
+export const ExpectedVersionSchema = z.object({
+  expectedMtime: z.union([z.string(), z.number()]).optional()
+    .describe('Abort unless the file modification time still equals this value (ISO string or epoch milliseconds, as reported by read_file).'),
+  expectedSha256: z.string().regex(/^[a-fA-F0-9]{64}$/, 'expectedSha256 must be a hex sha256 digest').optional()
+    .describe('Abort unless the file content still has this sha256 (as reported by read_file).'),
+});
+
+export type ExpectedVersion = z.infer<typeof ExpectedVersionSchema>;
+
+/**
+ * CONTRACT: Observable version of a file
+ *
+ * Invariants:
+ * - sha256 is null only when the file is larger than FILE_VERSION_MAX_HASH_BYTES
+ */
+export interface FileVersion {
+  mtime: Date;
+  size: number;
+  sha256: string | null;
+}
+
+/**
+ * IMMUTABILITY: Pure function for content hashing
+ */
+export function sha256Hex(content: Buffer | string): string {
+  return createHash('sha256').update(content).digest('hex');
+}
+
+/**
+ * CONTRACT: Current version of a file
+ *
+ * Preconditions:
+ * - filePath must already be validated against the allowed directories
+ * - content, when given, must be the file's current bytes (avoids a second read)
+ *
+ * Postconditions:
+ * - Returns null when the file does not exist
+ */
+export async function getFileVersion(filePath: string, content?: Buffer): Promise<FileVersion | null> {
+  let stats;
+  try {
+    stats = await fs.stat(filePath);
+  } catch (error: any) {
+    if (error.code === 'ENOENT') {
+      return null;
+    }
+    throw error;
+  }
+
+  let sha256: string | null = null;
+  if (content !== undefined) {
+    sha256 = sha256Hex(content);
+  } else if (stats.size <= FILE_VERSION_MAX_HASH_BYTES) {
+    sha256 = sha256Hex(await fs.readFile(filePath));
+  }
+
+  return { mtime: stats.mtime, size: stats.size, sha256 };
+}
+
+/**
+ * IMMUTABILITY: Pure function for version display
+ *
+ * Postconditions:
+ * - Returns "mtime: <ISO>, sha256: <hex>" (sha256 omitted for unhashed large files)
+ */
+export function formatFileVersion(version: FileVersion): string {
+  const mtime = `mtime: ${version.mtime.toISOString()}`;
+  return version.sha256 ? `${mtime}, sha256: ${version.sha256}` : `${mtime}, sha256: not computed (over ${FILE_VERSION_MAX_HASH_BYTES / 1024 / 1024}MB)`;
+}
+
+/**
+ * IMMUTABILITY: Pure comparison of a version against caller expectations
+ *
+ * Postconditions:
+ * - Returns true when every provided expectation matches
+ * - Mtimes are compared at millisecond precision
+ * - Throws a UserError for unparseable mtimes or unhashable files
+ */
+export function fileVersionMatches(version: FileVersion, expected: ExpectedVersion): boolean {
+  if (expected.expectedMtime !== undefined) {
+    const expectedMs = typeof expected.expectedMtime === 'number'
+      ? expected.expectedMtime
+      : Date.parse(expected.expectedMtime);
+    if (Number.isNaN(expectedMs)) {
+      throw new UserError(`expectedMtime is not a valid date: ${expected.expectedMtime}`);
+    }
+    if (Math.floor(expectedMs) !== version.mtime.getTime()) {
+      return false;
+    }
+  }
+
+  if (expected.expectedSha256 !== undefined) {
+    if (version.sha256 === null) {
+      throw new UserError(`File is too large to verify expectedSha256 (over ${FILE_VERSION_MAX_HASH_BYTES / 1024 / 1024}MB). Use expectedMtime instead.`);
+    }
+    if (version.sha256 !== expected.expectedSha256.toLowerCase()) {
+      return false;
+    }
+  }
+
+  return true;
+}
+
+/**
+ * CONTRACT: Whether the caller asked for any version check
+ */
+export function hasVersionExpectation(expected: ExpectedVersion): boolean {
+  return expected.expectedMtime !== undefined || expected.expectedSha256 !== undefined;
+}
@@ -0,0 +1,250 @@
+// src/utils/file-watcher.ts
+import * as fs from "fs/promises";
+import { watch, FSWatcher } from "fs";
+import * as path from "path";
+import { UserError } from "fastmcp";
+import { matchesAnyGlob } from "./glob-match.js";
+
+/**
+ * CONTRACT: Upper bound on entries a single watcher keeps state for
+ */
+export const FILE_WATCHER_MAX_TRACKED_ENTRIES = 100000;
+
+export type WatchEventType = 'create' | 'modify' | 'delete' | 'rename';
+
+/**
+ * CONTRACT: One classified change
+ *
+ * Invariants:
+ * - relativePath uses '/' separators and is relative to the watched root
+ * - oldPath / oldRelativePath are set only for renames
+ */
+export interface WatchEvent {
+  type: WatchEventType;
+  path: string;
+  relativePath: string;
+  isDirectory: boolean;
+  oldPath?: string;
+  oldRelativePath?: string;
+  timestamp: string;
+}
+
+export interface FileWatcherOptions {
+  recursive: boolean;
+  debounceMs: number;
+  /** Globs for paths that are neither tracked nor reported; matching directories are pruned */
+  exclude: string[];
+}
+
+/**
+ * CONTRACT: Handle to a running watcher
+ *
+ * Postconditions:
+ * - After close() no further callbacks are made
+ */
+export interface FileWatcher {
+  readonly root: string;
+  trackedEntries(): number;
+  close(): void;
+}
+
+interface TrackedEntry {
+  ino: number;
+  size: number;
+  mtimeMs: number;
+  isDirectory: boolean;
+}
+
+function toTrackedEntry(stats: { ino: number; size: number; mtimeMs: number; isDirectory(): boolean }): TrackedEntry {
+  return { ino: stats.ino, size: stats.size, mtimeMs: stats.mtimeMs, isDirectory: stats.isDirectory() };
+}
+
+async function lstatOrNull(target: string) {
+  try {
+    return await fs.lstat(target);
+  } catch (error: any) {
+    if (error.code === 'ENOENT' || error.code === 'ENOTDIR') {
+      return null;
+    }
+    throw error;
+  }
+}
+
+/**
+ * CONTRACT: Start a debounced watcher that classifies raw fs.watch notifications
+ *
+ * Preconditions:
+ * - root must already be validated against the allowed directories and be a directory
+ *
+ * Postconditions:
+ * - The tree below root is snapshotted first (bounded by FILE_WATCHER_MAX_TRACKED_ENTRIES),
+ *   so atomic saves are reported as 'modify' rather than 'create'
+ * - Raw notifications are coalesced until the path has been quiet for debounceMs (at most
+ *   five debounce periods, or one second, after the first one)
+ * - A delete and a create of the same inode (with unchanged size and mtime for files) in
+ *   one batch become a single 'rename'
+ * - Entries that appear and vanish within one batch are never reported
+ * - Creating or deleting a directory also reports its contents
+ * - Symbolic links are tracked as entries and never followed
+ */
+export async function startFileWatcher(
+  root: string,
+  options: FileWatcherOptions,
+  onEvents: (events: WatchEvent[]) => void,
+  onError: (error: Error) => void
+): Promise<FileWatcher> {
+  const { recursive, debounceMs, exclude } = options;
+  const known = new Map<string, TrackedEntry>();
+  const dirty = new Set<string>();
+  let timer: NodeJS.Timeout | null = null;
+  let firstDirtyAt = 0;
+  let closed = false;
+  let flushing = Promise.resolve();
+
+  const isExcluded = (relativePath: string): boolean => {
+    const segments = relativePath.split('/');
+    return segments.some((_, index) => matchesAnyGlob(segments.slice(0, index + 1).join('/'), exclude));
+  };
+
+  // Records every entry below relativeDir that is not tracked yet and returns them
+  const scan = async (relativeDir: string, deep: boolean): Promise<Array<[string, TrackedEntry]>> => {
+    const found: Array<[string, TrackedEntry]> = [];
+    let names: string[];
+    try {
+      names = (await fs.readdir(path.join(root, relativeDir))).sort();
+    } catch {
+      return found; // Vanished or unreadable; later notifications will tell
+    }
+    for (const name of names) {
+      const relativePath = relativeDir ? `${relativeDir}/${name}` : name;
+      if (isExcluded(relativePath) || known.has(relativePath)) continue;
+      const stats = await lstatOrNull(path.join(root, relativePath));
+      if (!stats) continue;
+      const entry = toTrackedEntry(stats);
+      known.set(relativePath, entry);
+      found.push([relativePath, entry]);
+      if (known.size > FILE_WATCHER_MAX_TRACKED_ENTRIES) {
+        throw new UserError(`Too many entries to watch below ${root} (more than ${FILE_WATCHER_MAX_TRACKED_ENTRIES}). Watch a narrower path or add exclude patterns.`);
+      }
+      if (deep && entry.isDirectory) {
+        found.push(...await scan(relativePath, deep));
+      }
+    }
+    return found;
+  };
+
+  const eventFor = (type: WatchEventType, relativePath: string, entry: TrackedEntry, timestamp: string): WatchEvent => ({
+    type,
+    path: path.join(root, ...relativePath.split('/')),
+    relativePath,
+    isDirectory: entry.isDirectory,
+    timestamp,
+  });
+
+  const flush = async (): Promise<void> => {
+    const batch = [...dirty].sort();
+    dirty.clear();
+    timer = null;
+
+    const timestamp = new Date().toISOString();
+    const created: Array<[string, TrackedEntry]> = [];
+    const deleted: Array<[string, TrackedEntry]> = [];
+    const events: WatchEvent[] = [];
+
+    for (const relativePath of batch) {
+      const previous = known.get(relativePath);
+      const stats = await lstatOrNull(path.join(root, relativePath));
+
+      if (!stats) {
+        if (!previous) continue;
+        // Everything tracked below a deleted directory is gone as well
+        for (const [trackedPath, entry] of [...known]) {
+          if (trackedPath === relativePath || trackedPath.startsWith(relativePath + '/')) {
+            known.delete(trackedPath);
+            deleted.push([trackedPath, entry]);
+          }
+        }
+        continue;
+      }
+
+      const entry = toTrackedEntry(stats);
+      known.set(relativePath, entry);
+      if (!previous) {
+        created.push([relativePath, entry]);
+        if (entry.isDirectory && recursive) {
+          created.push(...await scan(relativePath, true));
+        }
+      } else if (!entry.isDirectory && (previous.ino !== entry.ino || previous.size !== entry.size || previous.mtimeMs !== entry.mtimeMs)) {
+        events.push(eventFor('modify', relativePath, entry, timestamp));
+      }
+    }
+
+    // Pair deletes and creates of the same inode into renames; a rename keeps size and
+    // mtime, which tells it apart from a new file that reuses a freed inode
+    const unpairedDeletes = new Map(deleted.map(([relativePath, entry]) => [entry.ino, relativePath] as const));
+    const deletedEntries = new Map(deleted);
+    for (const [relativePath, entry] of created) {
+      const oldRelativePath = unpairedDeletes.get(entry.ino);
+      const oldEntry = oldRelativePath === undefined ? undefined : deletedEntries.get(oldRelativePath);
+      if (oldRelativePath !== undefined && oldEntry && oldEntry.isDirectory === entry.isDirectory
+          && (entry.isDirectory || (oldEntry.size === entry.size && oldEntry.mtimeMs === entry.mtimeMs))) {
+        unpairedDeletes.delete(entry.ino);
+        deletedEntries.delete(oldRelativePath);
+        events.push({
+          ...eventFor('rename', relativePath, entry, timestamp),
+          oldPath: path.join(root, ...oldRelativePath.split('/')),
+          oldRelativePath,
+        });
+      } else {
+        events.push(eventFor('create', relativePath, entry, timestamp));
+      }
+    }
+    for (const [relativePath, entry] of deletedEntries) {
+      events.push(eventFor('delete', relativePath, entry, timestamp));
+    }
+
+    if (events.length > 0 && !closed) {
+      onEvents(events);
+    }
+  };
+
+  const schedule = (): void => {
+    if (timer) clearTimeout(timer);
+    const overdue = Date.now() - firstDirtyAt >= Math.max(debounceMs * 5, 1000);
+    timer = setTimeout(() => {
+      flushing = flushing.then(flush).catch(error => {
+        if (!closed) onError(error instanceof Error ? error : new Error(String(error)));
+      });
+    }, overdue ? 0 : debounceMs);
+    timer.unref?.();
+  };
+
+  await scan('', recursive);
+
+  let watcher: FSWatcher;
+  try {
+    watcher = watch(root, { recursive }, (_eventType, filename) => {
+      if (closed || !filename) return;
+      const relativePath = filename.toString().split(path.sep).join('/');
+      if (isExcluded(relativePath)) return;
+      if (dirty.size === 0 && timer === null) firstDirtyAt = Date.now();
+      dirty.add(relativePath);
+      schedule();
+    });
+  } catch (error: any) {
+    throw new UserError(`Cannot watch ${root}: ${error.message}`);
+  }
+  watcher.on('error', error => {
+    if (!closed) onError(error);
+  });
+
+  return {
+    root,
+    trackedEntries: () => known.size,
+    close: () => {
+      closed = true;
+      if (timer) clearTimeout(timer);
+      watcher.close();
+    },
+  };
+}
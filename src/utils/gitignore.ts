@@ -0,0 +1,203 @@
+// src/utils/gitignore.ts
+import { existsSync, readFileSync, statSync } from "fs";
+import * as path from "path";
+import type { IgnoreLike } from "glob";
+import { globToRegExp, matchesAnyGlob } from "./glob-match.js";
+import { isSameOrInside } from "./directory-operations.js";
+
+/**
+ * CONTRACT: Ignore files read in every directory, lowest precedence first
+ *
+ * Invariants:
+ * - `.ignore` (ripgrep/fd convention) overrides `.gitignore` in the same directory
+ * - `.git/info/exclude` of the repository applies below every ignore file
+ */
+export const IGNORE_FILE_NAMES = ['.gitignore', '.ignore'];
+
+/**
+ * CONTRACT: One parsed ignore rule
+ *
+ * Invariants:
+ * - base is the absolute directory the rule is relative to
+ * - anchored rules (a '/' anywhere but at the end) match the path relative to base,
+ *   all others match the entry name at any depth
+ */
+export interface IgnoreRule {
+  base: string;
+  pattern: string;
+  regex: RegExp;
+  anchored: boolean;
+  negated: boolean;
+  directoryOnly: boolean;
+}
+
+/**
+ * CONTRACT: Decides whether paths are ignored
+ *
+ * Postconditions:
+ * - isIgnored is false for paths outside every boundary and for the boundaries themselves
+ * - Everything below an ignored directory is ignored (git cannot re-include it either)
+ */
+export interface IgnoreMatcher {
+  isIgnored(absolutePath: string, isDirectory: boolean): boolean;
+}
+
+/**
+ * IMMUTABILITY: Pure parser for .gitignore syntax
+ *
+ * Postconditions:
+ * - Skips blank lines and `#` comments; `\#` and `\!` escape a leading `#` / `!`
+ * - Trailing unescaped spaces are removed
+ * - Braces are literal, as in git
+ */
+export function parseIgnoreRules(content: string, base: string): IgnoreRule[] {
+  const rules: IgnoreRule[] = [];
+
+  for (const rawLine of content.split(/\r?\n/)) {
+    let line = rawLine.replace(/(?<!\\) +$/, '');
+    if (line === '' || line.startsWith('#')) continue;
+
+    const negated = line.startsWith('!');
+    if (negated) line = line.slice(1);
+    if (line.startsWith('\\#') || line.startsWith('\\!')) line = line.slice(1);
+
+    const directoryOnly = line.endsWith('/');
+    if (directoryOnly) line = line.replace(/\/+$/, '');
+    if (line === '') continue;
+
+    const anchored = line.includes('/');
+    const pattern = line.replace(/^\//, '');
+    rules.push({ base, pattern, regex: globToRegExp(pattern.replace(/(?<!\\)\{/g, '\\{')), anchored, negated, directoryOnly });
+  }
+
+  return rules;
+}
+
+/**
+ * IMMUTABILITY: Pure evaluation of a rule list
+ *
+ * Postconditions:
+ * - Returns the verdict of the last matching rule, or undefined when no rule matches
+ * - Rules only see paths inside their own base directory
+ */
+export function evaluateIgnoreRules(rules: readonly IgnoreRule[], absolutePath: string, isDirectory: boolean): boolean | undefined {
+  let verdict: boolean | undefined;
+
+  for (const rule of rules) {
+    if (rule.directoryOnly && !isDirectory) continue;
+    const relativePath = path.relative(rule.base, absolutePath);
+    if (relativePath === '' || relativePath.startsWith('..') || path.isAbsolute(relativePath)) continue;
+    const subject = rule.anchored ? relativePath.split(path.sep).join('/') : path.basename(relativePath);
+    if (rule.regex.test(subject)) {
+      verdict = !rule.negated;
+    }
+  }
+
+  return verdict;
+}
+
+function readRules(filePath: string, base: string): IgnoreRule[] {
+  try {
+    return parseIgnoreRules(readFileSync(filePath, 'utf-8'), base);
+  } catch {
+    // Missing or unreadable ignore files contribute no rules
+    return [];
+  }
+}
+
+/**
+ * CONTRACT: Create a gitignore matcher confined to the given boundary directories
+ *
+ * Preconditions:
+ * - boundaries are validated absolute directories (normally the allowed directories)
+ *
+ * Postconditions:
+ * - Rules come from `.git/info/exclude` and every `.gitignore` / `.ignore` between the
+ *   repository root and the path; deeper files take precedence, and `!` rules re-include
+ * - The repository root is the nearest directory with a `.git` entry inside the boundary,
+ *   or the boundary itself; ignore files outside the boundary are never read
+ * - `.git` directories are always ignored
+ *
+ * Invariants:
+ * - Ignore files are read synchronously and cached for the matcher's lifetime, so it can
+ *   plug into glob's synchronous ignore hooks; create a new matcher per tool call
+ */
+export function createIgnoreMatcher(boundaries: readonly string[]): IgnoreMatcher {
+  const rulesByDirectory = new Map<string, IgnoreRule[]>();
+  const repositoryRoots = new Map<string, string>();
+  const ignoredDirectories = new Map<string, boolean>();
+
+  const directoryRules = (directory: string): IgnoreRule[] => {
+    let rules = rulesByDirectory.get(directory);
+    if (!rules) {
+      rules = IGNORE_FILE_NAMES.flatMap(name => readRules(path.join(directory, name), directory));
+      rulesByDirectory.set(directory, rules);
+    }
+    return rules;
+  };
+
+  const repositoryRoot = (directory: string, boundary: string): string => {
+    let root = repositoryRoots.get(directory);
+    if (root === undefined) {
+      if (existsSync(path.join(directory, '.git')) || directory === boundary) {
+        root = directory;
+      } else {
+        root = repositoryRoot(path.dirname(directory), boundary);
+      }
+      repositoryRoots.set(directory, root);
+    }
+    return root;
+  };
+
+  const isIgnored = (absolutePath: string, isDirectory: boolean): boolean => {
+    const boundary = boundaries
+      .filter(candidate => isSameOrInside(absolutePath, candidate))
+      .sort((a, b) => b.length - a.length)[0];
+    if (boundary === undefined || absolutePath === boundary) return false;
+    if (path.relative(boundary, absolutePath).split(path.sep).includes('.git')) return true;
+
+    if (isDirectory && ignoredDirectories.has(absolutePath)) {
+      return ignoredDirectories.get(absolutePath)!;
+    }
+
+    const parent = path.dirname(absolutePath);
+    let ignored: boolean;
+    if (parent !== boundary && isIgnored(parent, true)) {
+      ignored = true;
+    } else {
+      const root = repositoryRoot(parent, boundary);
+      const chain: string[] = [];
+      for (let directory = parent; ; directory = path.dirname(directory)) {
+        chain.unshift(directory);
+        if (directory === root) break;
+      }
+      const gitDirectory = path.join(root, '.git');
+      const excludeRules = existsSync(gitDirectory) && statSync(gitDirectory).isDirectory()
+        ? readRules(path.join(gitDirectory, 'info', 'exclude'), root)
+        : [];
+      const rules = [...excludeRules, ...chain.flatMap(directoryRules)];
+      ignored = evaluateIgnoreRules(rules, absolutePath, isDirectory) ?? false;
+    }
+
+    if (isDirectory) ignoredDirectories.set(absolutePath, ignored);
+    return ignored;
+  };
+
+  return { isIgnored };
+}
+
+/**
+ * CONTRACT: Adapt a matcher (plus extra globs relative to cwd) to glob's `ignore` option
+ *
+ * Postconditions:
+ * - Ignored directories are pruned, so glob never walks into them
+ */
+export function toGlobIgnore(matcher: IgnoreMatcher, cwd: string, extraPatterns: readonly string[] = []): IgnoreLike {
+  const matchesExtra = (fullPath: string): boolean =>
+    extraPatterns.length > 0 && matchesAnyGlob(path.relative(cwd, fullPath).split(path.sep).join('/'), extraPatterns);
+
+  return {
+    ignored: p => matcher.isIgnored(p.fullpath(), p.isDirectory()) || matchesExtra(p.fullpath()),
+    childrenIgnored: p => matcher.isIgnored(p.fullpath(), true),
+  };
+}
@@ -0,0 +1,130 @@
+// src/utils/glob-match.ts
+
+/**
+ * CONTRACT: Translate a glob pattern into an anchored regular expression
+ *
+ * Supported syntax:
+ * - `*` matches within one path segment, `?` one character, `[...]` / `[!...]` character classes
+ * - `**` matches any number of segments (including none) when it is a whole segment
+ * - `{a,b}` alternatives (not nested)
+ *
+ * Invariants:
+ * - Paths use '/' separators; every other character is matched literally
+ */
+export function globToRegExp(pattern: string): RegExp {
+  let source = '';
+  let i = 0;
+  let inGroup = false;
+
+  while (i < pattern.length) {
+    const char = pattern[i];
+
+    if (char === '*') {
+      if (pattern[i + 1] === '*') {
+        const atSegmentStart = i === 0 || pattern[i - 1] === '/';
+        const atSegmentEnd = i + 2 === pattern.length || pattern[i + 2] === '/';
+        if (atSegmentStart && atSegmentEnd) {
+          // "**/" matches zero or more directories; a trailing "**" matches everything below
+          if (pattern[i + 2] === '/') {
+            source += '(?:.*/)?';
+            i += 3;
+          } else {
+            source += '.*';
+            i += 2;
+          }
+          continue;
+        }
+      }
+      source += '[^/]*';
+      i += 1;
+    } else if (char === '?') {
+      source += '[^/]';
+      i += 1;
+    } else if (char === '[') {
+      const end = pattern.indexOf(']', i + 2);
+      if (end === -1) {
+        source += '\\[';
+        i += 1;
+        continue;
+      }
+      let body = pattern.slice(i + 1, end);
+      if (body.startsWith('!')) {
+        body = '^' + body.slice(1);
+      }
+      source += `[${body.replace(/\\/g, '\\\\')}]`;
+      i = end + 1;
+    } else if (char === '{' && !inGroup && pattern.indexOf('}', i) !== -1) {
+      source += '(?:';
+      inGroup = true;
+      i += 1;
+    } else if (char === ',' && inGroup) {
+      source += '|';
+      i += 1;
+    } else if (char === '}' && inGroup) {
+      source += ')';
+      inGroup = false;
+      i += 1;
+    } else if (char === '\\' && i + 1 < pattern.length) {
+      source += pattern[i + 1].replace(/[.*+?^${}()|[\]\\/]/g, '\\$&');
+      i += 2;
+    } else {
+      source += char.replace(/[.*+?^${}()|[\]\\/]/g, '\\$&');
+      i += 1;
+    }
+  }
+
+  return new RegExp(`^${source}$`);
+}
+
+/**
+ * CONTRACT: Match a relative path against a glob
+ *
+ * Preconditions:
+ * - relativePath uses '/' separators and has no leading './'
+ *
+ * Postconditions:
+ * - Patterns without '/' match the last path segment (so `*.ts` matches `src/a.ts`)
+ * - Patterns with '/' match the whole relative path (a leading '/' anchors nothing extra)
+ */
+export function matchesGlob(relativePath: string, pattern: string): boolean {
+  const normalizedPattern = pattern.startsWith('/') ? pattern.slice(1) : pattern;
+  if (!normalizedPattern.includes('/')) {
+    const baseName = relativePath.slice(relativePath.lastIndexOf('/') + 1);
+    return globToRegExp(normalizedPattern).test(baseName);
+  }
+  return globToRegExp(normalizedPattern).test(relativePath);
+}
+
+/**
+ * CONTRACT: Whether any pattern of a list matches
+ */
+export function matchesAnyGlob(relativePath: string, patterns: readonly string[]): boolean {
+  return patterns.some(pattern => matchesGlob(relativePath, pattern));
+}
+
+/**
+ * IMMUTABILITY: Whether a string contains glob syntax
+ */
+export function hasGlobMagic(pattern: string): boolean {
+  return /[*?[\]{}]/.test(pattern);
+}
+
+/**
+ * CONTRACT: Split a glob into the literal directory it starts from and the remaining pattern
+ *
+ * Postconditions:
+ * - base contains no glob syntax and ends before the first segment that does ('.' when none)
+ * - path.join(base, pattern) describes the same set of paths as the input
+ */
+export function splitGlobBase(glob: string): { base: string; pattern: string } {
+  const segments = glob.split('/');
+  const firstMagic = segments.findIndex(hasGlobMagic);
+  if (firstMagic === -1) {
+    return { base: segments.slice(0, -1).join('/') || (glob.startsWith('/') ? '/' : '.'), pattern: segments[segments.length - 1] };
+  }
+  const base = segments.slice(0, firstMagic).join('/');
+  return {
+    base: base || (glob.startsWith('/') ? '/' : '.'),
+    pattern: segments.slice(firstMagic).join('/'),
+  };
+}
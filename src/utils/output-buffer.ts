@@ -0,0 +1,109 @@
+// src/utils/output-buffer.ts
+
+/**
+ * CONTRACT: Size limits for the output kept per session stream
+ */
+export const OUTPUT_BUFFER_DEFAULT_MAX_BYTES = 1024 * 1024;
+export const OUTPUT_BUFFER_MIN_MAX_BYTES = 1024;
+export const OUTPUT_BUFFER_MAX_MAX_BYTES = 64 * 1024 * 1024;
+
+/**
+ * CONTRACT: Bounded buffer for the output of one stream
+ *
+ * Invariants:
+ * - At most maxBytes (UTF-8) are retained; the oldest output is dropped first
+ * - Offsets are absolute: they count characters appended since creation, so a cursor
+ *   stays valid while older output is dropped
+ * - start() <= end(); the retained text covers [start(), end())
+ * - slice(from, to) returns the retained text in [from, to)
+ */
+export interface OutputBuffer {
+  readonly maxBytes: number;
+  append(text: string): void;
+  slice(from?: number, to?: number): string;
+  start(): number;
+  end(): number;
+  retainedBytes(): number;
+  droppedBytes(): number;
+}
+
+/**
+ * IMMUTABILITY: Drop the first count bytes of text, moving forward to a character boundary
+ */
+function dropLeadingBytes(text: string, count: number): string {
+  const bytes = Buffer.from(text, 'utf8');
+  let offset = count;
+  // Skip UTF-8 continuation bytes so no character is split
+  while (offset < bytes.length && (bytes[offset] & 0xc0) === 0x80) offset++;
+  return bytes.subarray(offset).toString('utf8');
+}
+
+/**
+ * CONTRACT: Create an empty ring buffer holding at most maxBytes
+ *
+ * Preconditions:
+ * - maxBytes is a positive integer
+ *
+ * Postconditions:
+ * - append() never lets the retained output exceed maxBytes; a single chunk larger than
+ *   the cap keeps only its tail
+ */
+export function createOutputBuffer(maxBytes: number = OUTPUT_BUFFER_DEFAULT_MAX_BYTES): OutputBuffer {
+  const chunks: Array<{ text: string; bytes: number }> = [];
+  let head = 0;
+  let start = 0;
+  let end = 0;
+  let retained = 0;
+  let dropped = 0;
+  let joined: string | null = '';
+
+  const append = (text: string): void => {
+    if (text.length === 0) return;
+    const bytes = Buffer.byteLength(text, 'utf8');
+    chunks.push({ text, bytes });
+    end += text.length;
+    retained += bytes;
+    joined = null;
+
+    while (retained > maxBytes) {
+      const oldest = chunks[head];
+      const excess = retained - maxBytes;
+      if (oldest.bytes <= excess) {
+        head++;
+        start += oldest.text.length;
+        retained -= oldest.bytes;
+        dropped += oldest.bytes;
+      } else {
+        const kept = dropLeadingBytes(oldest.text, excess);
+        const keptBytes = Buffer.byteLength(kept, 'utf8');
+        start += oldest.text.length - kept.length;
+        retained -= oldest.bytes - keptBytes;
+        dropped += oldest.bytes - keptBytes;
+        chunks[head] = { text: kept, bytes: keptBytes };
+      }
+    }
+
+    // Compact the consumed front of the ring once it dominates the array
+    if (head > 64 && head * 2 > chunks.length) {
+      chunks.splice(0, head);
+      head = 0;
+    }
+  };
+
+  const slice = (from: number = start, to: number = end): string => {
+    if (joined === null) {
+      joined = chunks.slice(head).map(chunk => chunk.text).join('');
+    }
+    return joined.slice(Math.max(0, from - start), Math.max(0, to - start));
+  };
+
+  return {
+    maxBytes,
+    append,
+    slice,
+    start: () => start,
+    end: () => end,
+    retainedBytes: () => retained,
+    droppedBytes: () => dropped,
+  };
+}
@@ -0,0 +1,105 @@
+// src/utils/pty.ts
+import { execFile, spawn } from "child_process";
+import * as fs from "fs/promises";
+import { UserError } from "fastmcp";
+
+/**
+ * CONTRACT: Pseudo-terminal size limits
+ */
+export const PTY_DEFAULT_COLS = 120;
+export const PTY_DEFAULT_ROWS = 30;
+export const PTY_MIN_COLS = 20;
+export const PTY_MAX_COLS = 500;
+export const PTY_MIN_ROWS = 5;
+export const PTY_MAX_ROWS = 200;
+
+/**
+ * CONTRACT: How to start a command inside a pseudo-terminal
+ *
+ * Invariants:
+ * - file and args go straight to child_process.spawn with piped stdio; the PTY is
+ *   allocated by the system `script` utility, so no native module is needed
+ * - env must be merged into the child's environment
+ */
+export interface PtyLaunch {
+  file: string;
+  args: string[];
+  env: Record<string, string>;
+}
+
+/**
+ * IMMUTABILITY: Build the launch for a command in a cols x rows pseudo-terminal
+ *
+ * Preconditions:
+ * - shell is an absolute path or a name on PATH; command has passed command validation
+ *
+ * Postconditions:
+ * - The window size is set inside the terminal before the command starts
+ * - util-linux `script` (Linux) and BSD `script` (macOS) are supported; other platforms
+ *   are rejected with a UserError
+ */
+export function buildPtyLaunch(shell: string, command: string, cols: number, rows: number, platform: NodeJS.Platform = process.platform): PtyLaunch {
+  const sized = `stty cols ${cols} rows ${rows} 2>/dev/null; ${command}`;
+  const env = { TERM: 'xterm-256color', COLUMNS: String(cols), LINES: String(rows), SHELL: shell };
+
+  if (platform === 'linux') {
+    // -q quiet, -f flush every write, -e return the command's exit code; $SHELL runs -c
+    return { file: 'script', args: ['-q', '-f', '-e', '-c', sized, '/dev/null'], env };
+  }
+  if (platform === 'darwin' || platform === 'freebsd' || platform === 'openbsd') {
+    return { file: 'script', args: ['-q', '/dev/null', shell, '-c', sized], env };
+  }
+  throw new UserError(`PTY mode is not supported on ${platform}`);
+}
+
+/**
+ * CONTRACT: Locate the terminal device of a PTY session
+ *
+ * Preconditions:
+ * - launcherPid is the PID of the `script` process started from buildPtyLaunch
+ *
+ * Postconditions:
+ * - Returns the device path (e.g. /dev/pts/3) of the launcher's child, or null when the
+ *   child has not started yet or already exited
+ */
+export function findPtyDevice(launcherPid: number): Promise<string | null> {
+  return new Promise(resolve => {
+    execFile('ps', ['-A', '-o', 'pid=,ppid=,tty='], { timeout: 5000 }, (error, stdout) => {
+      if (error) {
+        resolve(null);
+        return;
+      }
+      for (const row of stdout.split('\n')) {
+        const [, ppid, tty] = row.trim().split(/\s+/);
+        if (Number(ppid) === launcherPid && tty && !/^\?+$/.test(tty)) {
+          resolve(`/dev/${tty}`);
+          return;
+        }
+      }
+      resolve(null);
+    });
+  });
+}
+
+/**
+ * CONTRACT: Change the window size of a terminal device
+ *
+ * Postconditions:
+ * - The kernel delivers SIGWINCH to the terminal's foreground process group, so
+ *   full-screen programs redraw for the new size
+ */
+export async function resizePtyDevice(device: string, cols: number, rows: number): Promise<void> {
+  const handle = await fs.open(device, 'r');
+  try {
+    await new Promise<void>((resolve, reject) => {
+      // stty acts on its standard input, which works with both GNU and BSD stty
+      const stty = spawn('stty', ['cols', String(cols), 'rows', String(rows)], { stdio: [handle.fd, 'ignore', 'pipe'] });
+      let stderr = '';
+      stty.stderr?.on('data', data => { stderr += data.toString(); });
+      stty.on('error', reject);
+      stty.on('close', code => code === 0 ? resolve() : reject(new Error(stderr.trim() || `stty exited with code ${code}`)));
+    });
+  } finally {
+    await handle.close();
+  }
+}
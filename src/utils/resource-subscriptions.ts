@@ -0,0 +1,242 @@
+// src/utils/resource-subscriptions.ts
+import { z } from "zod";
+import * as fs from "fs/promises";
+import * as path from "path";
+import { UserError } from "fastmcp";
+import { FileWatcher, WatchEvent, startFileWatcher } from "./file-watcher.js";
+
+/**
+ * CONTRACT: Limits for file resource subscriptions
+ *
+ * Invariants:
+ * - One watcher per parent directory is shared by every subscribed file in it
+ */
+export const RESOURCE_SUBSCRIPTION_DEBOUNCE_MS = 200;
+export const RESOURCE_SUBSCRIPTION_MAX_PER_SESSION = 256;
+
+const SubscribeRequestSchema = z.object({
+  method: z.literal('resources/subscribe'),
+  params: z.object({ uri: z.string() }),
+});
+
+const UnsubscribeRequestSchema = z.object({
+  method: z.literal('resources/unsubscribe'),
+  params: z.object({ uri: z.string() }),
+});
+
+/**
+ * CONTRACT: The part of an MCP SDK server that subscriptions need
+ */
+export interface SubscribableServer {
+  registerCapabilities(capabilities: { resources: { subscribe: boolean } }): void;
+  setRequestHandler(schema: typeof SubscribeRequestSchema, handler: (request: z.infer<typeof SubscribeRequestSchema>) => Promise<Record<string, never>>): void;
+  setRequestHandler(schema: typeof UnsubscribeRequestSchema, handler: (request: z.infer<typeof UnsubscribeRequestSchema>) => Promise<Record<string, never>>): void;
+  sendResourceUpdated(params: { uri: string }): Promise<void>;
+}
+
+/**
+ * CONTRACT: A session class whose instances own one SDK server and connect it to a transport
+ */
+export interface ConnectableSessionClass<Transport> {
+  prototype: {
+    readonly server: SubscribableServer;
+    connect(transport: Transport): Promise<void>;
+  };
+}
+
+/**
+ * CONTRACT: Subscriptions of one client session
+ *
+ * Postconditions:
+ * - close() stops every watcher; no notifications are sent afterwards
+ */
+export interface ResourceSubscriptions {
+  subscribe(uri: string): Promise<void>;
+  unsubscribe(uri: string): void;
+  subscribedUris(): string[];
+  close(): void;
+}
+
+interface DirectoryWatch {
+  watcher: Promise<FileWatcher>;
+  uris: Map<string, Set<string>>;
+}
+
+/**
+ * IMMUTABILITY: Extract the path from a `file://{path}` resource URI
+ *
+ * Postconditions:
+ * - Percent-encoding is decoded, as the resource template does when loading
+ */
+export function filePathFromResourceUri(uri: string): string {
+  if (!uri.startsWith('file://')) {
+    throw new UserError(`Only file:// resources can be subscribed to: ${uri}`);
+  }
+  try {
+    return decodeURIComponent(uri.slice('file://'.length));
+  } catch {
+    throw new UserError(`Invalid file resource URI: ${uri}`);
+  }
+}
+
+/**
+ * CONTRACT: Track file resource subscriptions and report changes
+ *
+ * Preconditions:
+ * - resolvePath enforces the allowed directories (normally validatePath)
+ *
+ * Postconditions:
+ * - subscribe() validates the path before anything is watched; the file may not exist yet,
+ *   but its parent directory must
+ * - Creating, modifying, deleting or renaming a subscribed file calls notify once per
+ *   debounced batch with the URI exactly as the client subscribed it
+ * - Watchers watch the parent directory (not the file), so atomic saves that replace
+ *   the file keep being reported
+ */
+export function createResourceSubscriptions(
+  notify: (uri: string) => void,
+  resolvePath: (requestedPath: string) => Promise<string>,
+  debounceMs: number = RESOURCE_SUBSCRIPTION_DEBOUNCE_MS
+): ResourceSubscriptions {
+  const subscriptions = new Map<string, string>();
+  const directories = new Map<string, DirectoryWatch>();
+  let closed = false;
+
+  const dispatch = (urisByName: Map<string, Set<string>>, events: WatchEvent[]): void => {
+    const changed = new Set<string>();
+    for (const event of events) {
+      for (const name of [event.relativePath, event.oldRelativePath]) {
+        for (const uri of (name !== undefined && urisByName.get(name)) || []) {
+          changed.add(uri);
+        }
+      }
+    }
+    if (!closed) changed.forEach(notify);
+  };
+
+  const release = (uri: string): void => {
+    const filePath = subscriptions.get(uri);
+    if (filePath === undefined) return;
+    subscriptions.delete(uri);
+
+    const parent = path.dirname(filePath);
+    const directory = directories.get(parent);
+    const uris = directory?.uris.get(path.basename(filePath));
+    uris?.delete(uri);
+    if (uris?.size === 0) directory!.uris.delete(path.basename(filePath));
+    if (directory && directory.uris.size === 0) {
+      directories.delete(parent);
+      directory.watcher.then(watcher => watcher.close(), () => undefined);
+    }
+  };
+
+  const subscribe = async (uri: string): Promise<void> => {
+    if (subscriptions.has(uri)) return;
+    if (subscriptions.size >= RESOURCE_SUBSCRIPTION_MAX_PER_SESSION) {
+      throw new UserError(`Too many resource subscriptions (maximum ${RESOURCE_SUBSCRIPTION_MAX_PER_SESSION})`);
+    }
+
+    // SECURITY BOUNDARY: Only validated paths are watched
+    const filePath = await resolvePath(filePathFromResourceUri(uri));
+    const stats = await fs.stat(filePath).catch(() => null);
+    if (stats?.isDirectory()) {
+      throw new UserError(`Path is a directory, not a file: ${filePath}`);
+    }
+    const parent = path.dirname(filePath);
+    const parentStats = await fs.stat(parent).catch(() => null);
+    if (!parentStats?.isDirectory()) {
+      throw new UserError(`Parent directory does not exist: ${parent}`);
+    }
+    if (closed || subscriptions.has(uri)) return;
+
+    let directory = directories.get(parent);
+    if (!directory) {
+      const uris = new Map<string, Set<string>>();
+      const watcher = startFileWatcher(
+        parent,
+        { recursive: false, debounceMs, exclude: [] },
+        events => dispatch(uris, events),
+        () => undefined // A failing watcher only stops notifications; reads still work
+      );
+      directory = { uris, watcher };
+      directories.set(parent, directory);
+    }
+
+    subscriptions.set(uri, filePath);
+    const name = path.basename(filePath);
+    directory.uris.set(name, (directory.uris.get(name) ?? new Set()).add(uri));
+
+    try {
+      await directory.watcher;
+    } catch (error: any) {
+      release(uri);
+      throw new UserError(`Cannot watch ${parent}: ${error.message}`);
+    }
+  };
+
+  return {
+    subscribe,
+    unsubscribe: release,
+    subscribedUris: () => [...subscriptions.keys()],
+    close: () => {
+      closed = true;
+      for (const uri of [...subscriptions.keys()]) release(uri);
+    },
+  };
+}
+
+const advertisingSessionClasses = new WeakSet<object>();
+
+/**
+ * CONTRACT: Advertise the `resources.subscribe` capability in every session's handshake
+ *
+ * Preconditions:
+ * - Called before the server starts; sessions that are already connected are not changed
+ *
+ * Postconditions:
+ * - Each session registers the capability on its SDK server right before connecting its transport,
+ *   so the initialize response includes it on stdio and HTTP stream alike (FastMCP creates stdio
+ *   sessions inside start() and only exposes them after the handshake)
+ * - Calling it again for the same session class has no further effect
+ */
+export function advertiseResourceSubscriptions<Transport>(sessionClass: ConnectableSessionClass<Transport>): void {
+  if (advertisingSessionClasses.has(sessionClass)) return;
+  advertisingSessionClasses.add(sessionClass);
+
+  const connect = sessionClass.prototype.connect;
+  sessionClass.prototype.connect = function (this: ConnectableSessionClass<Transport>['prototype'], transport: Transport) {
+    this.server.registerCapabilities({ resources: { subscribe: true } });
+    return connect.call(this, transport);
+  };
+}
+
+/**
+ * CONTRACT: Enable resources/subscribe and resources/unsubscribe on a connected session
+ *
+ * Preconditions:
+ * - The capability was advertised during the handshake (advertiseResourceSubscriptions)
+ *
+ * Postconditions:
+ * - Subscribe and unsubscribe requests are answered from now on
+ * - Updates are sent as notifications/resources/updated; failures to send are ignored
+ */
+export function enableResourceSubscriptions(
+  server: SubscribableServer,
+  resolvePath: (requestedPath: string) => Promise<string>
+): ResourceSubscriptions {
+  const subscriptions = createResourceSubscriptions(
+    uri => { server.sendResourceUpdated({ uri }).catch(() => undefined); },
+    resolvePath
+  );
+
+  server.setRequestHandler(SubscribeRequestSchema, async request => {
+    await subscriptions.subscribe(request.params.uri);
+    return {};
+  });
+  server.setRequestHandler(UnsubscribeRequestSchema, async request => {
+    subscriptions.unsubscribe(request.params.uri);
+    return {};
+  });
+
+  return subscriptions;
+}
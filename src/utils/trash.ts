@@ -0,0 +1,230 @@
+// src/utils/trash.ts
+import * as fs from "fs/promises";
+import * as path from "path";
+import { randomBytes } from "crypto";
+import { UserError } from "fastmcp";
+import { moveFileAcrossDevices } from "./atomic-write.js";
+import { executeDirectoryCopy, isSameOrInside, planDirectoryCopy, walkDirectory } from "./directory-operations.js";
+
+/**
+ * CONTRACT: Trash configuration
+ *
+ * Invariants:
+ * - The trash directory defaults to TRASH_DIRECTORY_NAME inside the first allowed directory
+ *   and must always resolve inside an allowed directory
+ * - Entries older than the retention period are purged whenever something is trashed
+ */
+export const TRASH_DIRECTORY_ENV = 'MCP_FILESYSTEM_TRASH_DIR';
+export const TRASH_RETENTION_DAYS_ENV = 'MCP_FILESYSTEM_TRASH_RETENTION_DAYS';
+export const TRASH_DIRECTORY_NAME = '.mcp-trash';
+export const TRASH_DEFAULT_RETENTION_DAYS = 30;
+
+const METADATA_FILE = 'meta.json';
+const DATA_DIRECTORY = 'data';
+const TRASH_ID_PATTERN = /^trash_[a-z0-9]+_[a-f0-9]+$/;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * CONTRACT: Metadata stored next to every trashed item
+ *
+ * Invariants:
+ * - id is safe to use as a single path segment
+ * - size is the total size of all files for directories
+ */
+export interface TrashEntry {
+  id: string;
+  originalPath: string;
+  name: string;
+  type: 'file' | 'directory' | 'symlink';
+  size: number;
+  deletedAt: string;
+  tool: string;
+}
+
+/**
+ * CONTRACT: Retention period in days from the environment
+ *
+ * Postconditions:
+ * - Falls back to TRASH_DEFAULT_RETENTION_DAYS for missing or invalid values
+ */
+export function getTrashRetentionDays(): number {
+  const configured = Number(process.env[TRASH_RETENTION_DAYS_ENV]);
+  return Number.isFinite(configured) && configured > 0 ? configured : TRASH_DEFAULT_RETENTION_DAYS;
+}
+
+function trashedItemPath(trashDir: string, entry: TrashEntry): string {
+  return path.join(trashDir, entry.id, DATA_DIRECTORY, entry.name);
+}
+
+/**
+ * CONTRACT: Move a file or directory, falling back to copy-and-delete across filesystems
+ *
+ * Preconditions:
+ * - destination must not exist and its parent directory must exist
+ */
+async function moveItem(source: string, destination: string, isDirectory: boolean): Promise<void> {
+  try {
+    await fs.rename(source, destination);
+  } catch (error: any) {
+    if (error.code !== 'EXDEV') throw error;
+    if (!isDirectory) {
+      await moveFileAcrossDevices(source, destination);
+      return;
+    }
+    await executeDirectoryCopy(await planDirectoryCopy(source, destination, 'error'));
+    await fs.rm(source, { recursive: true });
+  }
+}
+
+/**
+ * CONTRACT: Read one trash entry by ID
+ *
+ * Postconditions:
+ * - Throws a UserError for malformed IDs (never touches paths outside the trash) and unknown entries
+ */
+async function readTrashEntry(trashDir: string, id: string): Promise<TrashEntry> {
+  if (!TRASH_ID_PATTERN.test(id)) {
+    throw new UserError(`Invalid trash ID: ${id}`);
+  }
+  try {
+    return JSON.parse(await fs.readFile(path.join(trashDir, id, METADATA_FILE), 'utf-8'));
+  } catch (error: any) {
+    if (error.code === 'ENOENT') {
+      throw new UserError(`No trash entry found with ID: ${id}. It may have been restored or purged.`);
+    }
+    throw new UserError(`Trash entry ${id} is unreadable: ${error.message}`);
+  }
+}
+
+/**
+ * CONTRACT: Move a file or directory into the trash
+ *
+ * Preconditions:
+ * - trashDir and targetPath must already be validated against the allowed directories
+ *
+ * Postconditions:
+ * - targetPath no longer exists; the item and its metadata live under <trashDir>/<id>/
+ * - Throws a UserError when targetPath is the trash itself or contains it
+ * - On failure nothing is left behind in the trash
+ */
+export async function moveToTrash(trashDir: string, targetPath: string, tool: string): Promise<TrashEntry> {
+  if (isSameOrInside(trashDir, targetPath)) {
+    throw new UserError(`Cannot move the trash directory into itself: ${targetPath}`);
+  }
+
+  const stats = await fs.lstat(targetPath);
+  const type = stats.isSymbolicLink() ? 'symlink' : stats.isDirectory() ? 'directory' : 'file';
+  const size = type === 'directory'
+    ? (await walkDirectory(targetPath)).reduce((total, entry) => total + entry.size, 0)
+    : stats.size;
+
+  const entry: TrashEntry = {
+    id: `trash_${Date.now().toString(36)}_${randomBytes(4).toString('hex')}`,
+    originalPath: targetPath,
+    name: path.basename(targetPath),
+    type,
+    size,
+    deletedAt: new Date().toISOString(),
+    tool,
+  };
+
+  const entryDir = path.join(trashDir, entry.id);
+  await fs.mkdir(path.join(entryDir, DATA_DIRECTORY), { recursive: true, mode: 0o700 });
+  try {
+    await fs.writeFile(path.join(entryDir, METADATA_FILE), JSON.stringify(entry, null, 2));
+    await moveItem(targetPath, trashedItemPath(trashDir, entry), type === 'directory');
+  } catch (error) {
+    await fs.rm(entryDir, { recursive: true, force: true }).catch(() => undefined);
+    throw error;
+  }
+
+  return entry;
+}
+
+/**
+ * CONTRACT: All trash entries, newest first
+ *
+ * Postconditions:
+ * - Returns an empty list when the trash directory does not exist yet
+ * - Directories without readable metadata are ignored
+ */
+export async function listTrash(trashDir: string): Promise<TrashEntry[]> {
+  let names: string[];
+  try {
+    names = await fs.readdir(trashDir);
+  } catch (error: any) {
+    if (error.code === 'ENOENT') return [];
+    throw error;
+  }
+
+  const entries: TrashEntry[] = [];
+  for (const name of names.filter(name => TRASH_ID_PATTERN.test(name))) {
+    try {
+      entries.push(await readTrashEntry(trashDir, name));
+    } catch {
+      // Half-written or foreign directories are not trash entries
+    }
+  }
+  return entries.sort((a, b) => b.deletedAt.localeCompare(a.deletedAt));
+}
+
+/**
+ * CONTRACT: Move a trashed item back
+ *
+ * Preconditions:
+ * - destination, when given, must already be validated against the allowed directories
+ *
+ * Postconditions:
+ * - The item is at destination (default: its original path) and the trash entry is gone
+ * - Missing parent directories are recreated
+ * - Throws a UserError when the target path is occupied; nothing is moved in that case
+ */
+export async function restoreFromTrash(trashDir: string, id: string, destination?: string): Promise<TrashEntry & { restoredTo: string }> {
+  const entry = await readTrashEntry(trashDir, id);
+  const target = destination ?? entry.originalPath;
+
+  try {
+    await fs.lstat(target);
+    throw new UserError(`Cannot restore ${entry.name}: ${target} already exists. Pass a different destination.`);
+  } catch (error: any) {
+    if (error instanceof UserError) throw error;
+    if (error.code !== 'ENOENT') throw error;
+  }
+
+  await fs.mkdir(path.dirname(target), { recursive: true });
+  await moveItem(trashedItemPath(trashDir, entry), target, entry.type === 'directory');
+  await fs.rm(path.join(trashDir, entry.id), { recursive: true, force: true });
+
+  return { ...entry, restoredTo: target };
+}
+
+/**
+ * CONTRACT: Permanently delete trash entries
+ *
+ * Postconditions:
+ * - Selects entries deleted more than olderThanDays ago and/or with the given IDs;
+ *   with neither option every entry is selected
+ * - Returns the selected entries; nothing is deleted when dryRun is set
+ */
+export async function purgeTrash(
+  trashDir: string,
+  options: { olderThanDays?: number; ids?: string[]; dryRun?: boolean } = {}
+): Promise<TrashEntry[]> {
+  const { olderThanDays, ids, dryRun = false } = options;
+  for (const id of ids ?? []) {
+    await readTrashEntry(trashDir, id); // Fail fast on unknown or malformed IDs
+  }
+
+  const cutoff = olderThanDays === undefined ? null : Date.now() - olderThanDays * DAY_MS;
+  const selected = (await listTrash(trashDir)).filter(entry =>
+    (ids === undefined || ids.includes(entry.id)) &&
+    (cutoff === null || Date.parse(entry.deletedAt) < cutoff)
+  );
+
+  if (!dryRun) {
+    for (const entry of selected) {
+      await fs.rm(path.join(trashDir, entry.id), { recursive: true, force: true });
+    }
+  }
+  return selected;
+}
@@ -0,0 +1,237 @@
+// src/utils/unified-patch.ts
+import { parsePatch } from "diff";
+import { UserError } from "fastmcp";
+
+/**
+ * CONTRACT: One hunk of a unified diff
+ *
+ * Invariants:
+ * - lines keep their ' ', '-', '+' or '\' prefix
+ * - oldStart is 1-based; for pure insertions it is the line the new lines are inserted before
+ */
+export interface PatchHunk {
+  oldStart: number;
+  oldLines: number;
+  newStart: number;
+  newLines: number;
+  lines: string[];
+}
+
+/**
+ * CONTRACT: All hunks for one file of a (possibly multi-file) patch
+ *
+ * Invariants:
+ * - oldPath is null for file creations, newPath is null for deletions
+ * - git-style "a/" and "b/" prefixes are removed from relative paths
+ */
+export interface FilePatch {
+  oldPath: string | null;
+  newPath: string | null;
+  hunks: PatchHunk[];
+}
+
+export interface HunkResult {
+  hunk: number;
+  header: string;
+  applied: boolean;
+  line?: number;
+  offset?: number;
+  fuzz?: number;
+  reason?: string;
+}
+
+/**
+ * IMMUTABILITY: Pure function for patch header path cleanup
+ */
+function normalizePatchPath(fileName: string | undefined): string | null {
+  if (!fileName || fileName === '/dev/null') {
+    return null;
+  }
+  const trimmed = fileName.trim();
+  return /^[ab]\//.test(trimmed) ? trimmed.slice(2) : trimmed;
+}
+
+/**
+ * IMMUTABILITY: Pure function reconciling hunk lines with the header counts
+ *
+ * Postconditions:
+ * - Blank lines after the hunk (e.g. between fenced diff blocks) are dropped once the counts are met
+ * - Remaining blank lines are treated as empty context lines whose leading space was stripped
+ */
+function normalizeHunkLines(lines: string[], oldLines: number, newLines: number): string[] {
+  const normalized = [...lines];
+  const countSide = (excluded: string) =>
+    normalized.filter(line => !line.startsWith('\\') && !line.startsWith(excluded)).length;
+
+  while (normalized.length > 0 && normalized[normalized.length - 1] === '' &&
+    (countSide('+') > oldLines || countSide('-') > newLines)) {
+    normalized.pop();
+  }
+  return normalized.map(line => line === '' ? ' ' : line);
+}
+
+/**
+ * CONTRACT: Parse a multi-file unified diff
+ *
+ * Preconditions:
+ * - patchText is a unified diff, optionally wrapped in a ```diff code fence as emitted by edit_file
+ *
+ * Postconditions:
+ * - Returns one entry per file that has at least one hunk
+ * - Throws a UserError for malformed patches or patches without hunks
+ */
+export function parseUnifiedPatch(patchText: string): FilePatch[] {
+  const unfenced = patchText
+    .replace(/\r\n/g, '\n')
+    .split('\n')
+    .filter(line => !/^`{3,}(diff)?\s*$/.test(line))
+    .join('\n');
+
+  let parsed;
+  try {
+    parsed = parsePatch(unfenced);
+  } catch (error: any) {
+    throw new UserError(`Malformed patch: ${error.message}`);
+  }
+
+  const filePatches = parsed
+    .filter(entry => entry.hunks.length > 0)
+    .map(entry => ({
+      oldPath: normalizePatchPath(entry.oldFileName),
+      newPath: normalizePatchPath(entry.newFileName),
+      hunks: entry.hunks.map(hunk => ({
+        oldStart: hunk.oldStart,
+        oldLines: hunk.oldLines,
+        newStart: hunk.newStart,
+        newLines: hunk.newLines,
+        lines: normalizeHunkLines(hunk.lines, hunk.oldLines, hunk.newLines),
+      })),
+    }));
+
+  if (filePatches.length === 0) {
+    throw new UserError('Patch does not contain any hunks');
+  }
+  for (const filePatch of filePatches) {
+    if (!filePatch.oldPath && !filePatch.newPath) {
+      throw new UserError('Patch contains a file section without a file name');
+    }
+  }
+
+  return filePatches;
+}
+
+/**
+ * IMMUTABILITY: Pure function for hunk header display
+ */
+export function formatHunkHeader(hunk: PatchHunk): string {
+  const oldStart = hunk.oldLines === 0 ? hunk.oldStart - 1 : hunk.oldStart;
+  const newStart = hunk.newLines === 0 ? hunk.newStart - 1 : hunk.newStart;
+  return `@@ -${oldStart},${hunk.oldLines} +${newStart},${hunk.newLines} @@`;
+}
+
+/**
+ * IMMUTABILITY: Pure function locating a block of lines nearest to an expected index
+ *
+ * Postconditions:
+ * - Returns the match closest to `expected` at or after `minIndex`, or -1
+ * - An empty block matches at `expected`, clamped to the valid range
+ */
+function findBlock(lines: string[], block: string[], expected: number, minIndex: number): number {
+  const maxIndex = lines.length - block.length;
+  if (block.length === 0) {
+    return Math.min(Math.max(expected, minIndex), lines.length);
+  }
+
+  const matchesAt = (start: number) => block.every((line, i) => lines[start + i] === line);
+  const furthest = Math.max(expected - minIndex, maxIndex - expected);
+  for (let distance = 0; distance <= furthest; distance++) {
+    for (const candidate of distance === 0 ? [expected] : [expected + distance, expected - distance]) {
+      if (candidate >= minIndex && candidate <= maxIndex && matchesAt(candidate)) {
+        return candidate;
+      }
+    }
+  }
+  return -1;
+}
+
+/**
+ * CONTRACT: Apply hunks to file content with offset and fuzz tolerance
+ *
+ * Preconditions:
+ * - content uses \n line endings
+ * - hunks belong to one file and are in file order
+ *
+ * Postconditions:
+ * - Each hunk is applied at the matching position closest to where the patch expects it
+ * - When the full context does not match, up to `maxFuzz` context lines are dropped from each
+ *   end of the hunk (like `patch --fuzz`)
+ * - Hunks that cannot be placed are reported as rejected and leave the content untouched
+ * - "\ No newline at end of file" markers decide the trailing newline of the result
+ */
+export function applyHunks(content: string, hunks: PatchHunk[], maxFuzz: number): { content: string; results: HunkResult[] } {
+  const trailingNewline = content.length === 0 || content.endsWith('\n');
+  let working = content.length === 0 ? [] : (content.endsWith('\n') ? content.slice(0, -1) : content).split('\n');
+  let newTrailingNewline = trailingNewline;
+  let delta = 0;
+  let minIndex = 0;
+  const results: HunkResult[] = [];
+
+  for (const [index, hunk] of hunks.entries()) {
+    const body = hunk.lines.filter(line => !line.startsWith('\\'));
+    const firstChange = body.findIndex(line => !line.startsWith(' '));
+    const leadingContext = firstChange === -1 ? body.length : firstChange;
+    const trailingContext = firstChange === -1 ? 0 : [...body].reverse().findIndex(line => !line.startsWith(' '));
+    const expectedStart = hunk.oldStart - 1 + delta;
+
+    let result: HunkResult | null = null;
+    for (let fuzz = 0; fuzz <= maxFuzz && !result; fuzz++) {
+      const dropStart = Math.min(fuzz, leadingContext);
+      const dropEnd = Math.min(fuzz, trailingContext);
+      if (fuzz > 0 && dropStart === Math.min(fuzz - 1, leadingContext) && dropEnd === Math.min(fuzz - 1, trailingContext)) {
+        break; // No more context to drop
+      }
+
+      const slice = body.slice(dropStart, body.length - dropEnd);
+      const oldSide = slice.filter(line => !line.startsWith('+')).map(line => line.slice(1));
+      const newSide = slice.filter(line => !line.startsWith('-')).map(line => line.slice(1));
+      const expected = expectedStart + dropStart;
+      const position = findBlock(working, oldSide, expected, minIndex);
+
+      if (position !== -1) {
+        working = [...working.slice(0, position), ...newSide, ...working.slice(position + oldSide.length)];
+        // Map the original line after this hunk to its index in the patched content
+        delta = position + newSide.length - (hunk.oldStart - 1 + dropStart + oldSide.length);
+        minIndex = position + newSide.length;
+        result = { hunk: index + 1, header: formatHunkHeader(hunk), applied: true, line: position + 1, offset: position - expected, fuzz };
+      }
+    }
+
+    if (!result) {
+      results.push({
+        hunk: index + 1,
+        header: formatHunkHeader(hunk),
+        applied: false,
+        reason: `context not found near line ${Math.max(1, expectedStart + 1)}`,
+      });
+      continue;
+    }
+    results.push(result);
+
+    // Newline markers only follow the last line of a side, so they describe the end of the file
+    hunk.lines.forEach((line, i) => {
+      if (line.startsWith('\\') && i > 0) {
+        const marked = hunk.lines[i - 1][0];
+        if (marked === ' ' || marked === '+') {
+          newTrailingNewline = false;
+        } else if (marked === '-' && !hunk.lines.slice(i + 1).some(next => next.startsWith('\\'))) {
+          newTrailingNewline = true;
+        }
+      }
+    });
+  }
+
+  if (working.length === 0) {
+    return { content: '', results };
+  }
+  return { content: working.join('\n') + (newTrailingNewline ? '\n' : ''), results };
+}